@@ -1,13 +1,50 @@
 import { existsSync, readFileSync, writeFileSync } from 'node:fs'
 import { homedir } from 'node:os'
 import { basename, extname, join, resolve, sep } from 'node:path'
-import type { Srt2FcpxOptions } from '@srt2fcpx/core'
-import { convertSrtToFcpxml } from '@srt2fcpx/core'
+import type {
+  CaptionFormat,
+  ConversionReport,
+  ConversionStep,
+  CueMergeOptions,
+  CueSplitOptions,
+  CueTrack,
+  FrameRateConversion,
+  GapMode,
+  LineBalance,
+  LineBreakRule,
+  LineOverflow,
+  LineWrapOptions,
+  OutputMode,
+  OverlapMode,
+  Placement,
+  QuantizeMode,
+  Srt2FcpxOptions,
+  SrtParseResult,
+  Storyline,
+  SyncPoint,
+  TimingCleanupOptions,
+  TrackOptions,
+  VideoAsset,
+  WordGroupingOptions,
+} from '@srt2fcpx/core'
+import {
+  convertCuesToFcpxml,
+  normalizeSrt,
+  parseAss,
+  parseFcpxml,
+  parseScc,
+  parseSrt,
+  parseTtml,
+  parseVtt,
+  parseWhisper,
+  serializeSrt,
+} from '@srt2fcpx/core'
 import {
   type CliOptions,
   type ConfigFile,
   DEFAULT_CONFIG,
   mergeConfig,
+  type TrackConfig,
 } from './config'
 import { logger } from './logger'
 
@@ -18,6 +55,9 @@ export interface CliCommandOptions {
   output?: string
   title: string
   fps: number
+  dropFrame?: boolean
+  startTimecode?: string | number
+  srtZeroTimecode?: string | number
   width: number
   height: number
   font: string
@@ -28,10 +68,61 @@ export interface CliCommandOptions {
   strokeColor: string
   strokeWidth: number
   formatVersion: string
+  placement: Placement
+  stripTags?: boolean
+  outputMode: OutputMode
+  captionFormat: CaptionFormat
+  captionLanguage: string
+  overlap: OverlapMode
+  storyline: Storyline
+  quantize: QuantizeMode
+  video?: string
+  videoDuration?: number
+  videoFps?: number
+  shift?: number
+  scale?: number
+  retime?: FrameRateConversion
+  sync?: SyncPoint[]
+  minDuration?: number
+  maxDuration?: number
+  minGap?: number
+  gapMode?: GapMode
+  maxCps?: number
+  maxChars?: number
+  maxWidth?: number
+  maxLines?: number
+  lineBalance?: LineBalance
+  lineOverflow?: LineOverflow
+  lineBreak?: LineBreakRule
+  splitLines?: number
+  splitDuration?: number
+  mergeGap?: number
+  regroup?: boolean
+  regroupPause?: number
+  trackPlacement?: Placement[]
+  trackLanguage?: string[]
   config?: string
   quiet?: boolean
 }
 
+/**
+ * Options of the reverse (FCPXML to SRT) command
+ */
+export interface ReverseCommandOptions {
+  output?: string
+  quiet?: boolean
+}
+
+/**
+ * Options of the normalize (SRT rewrite) command
+ */
+export interface NormalizeCommandOptions {
+  output?: string
+  crlf?: boolean
+  bom?: boolean
+  quiet?: boolean
+}
+
 /**
  * Result of CLI operation
  */
@@ -121,9 +212,55 @@ export function readSrtFile(inputPath: string): string {
 }
 
 /**
- * Write FCPXML output file
+ * Subtitle parsers by input file extension (anything else is parsed as SRT)
+ * ASS/SSA sizes are scaled from the script resolution to the output height,
+ * and the words of transcription JSON are regrouped if requested.
+ */
+const SUBTITLE_PARSERS: Record<
+  string,
+  (
+    source: string,
+    height?: number,
+    regroup?: WordGroupingOptions,
+  ) => SrtParseResult
+> = {
+  '.srt': (source) => parseSrt(source),
+  '.vtt': (source) => parseVtt(source),
+  '.ass': (source, height) => parseAss(source, { height }),
+  '.ssa': (source, height) => parseAss(source, { height }),
+  '.scc': (source) => parseScc(source),
+  '.ttml': (source) => parseTtml(source),
+  '.dfxp': (source) => parseTtml(source),
+  '.xml': (source) => parseTtml(source),
+  '.json': (source, _, regroup) => parseWhisper(source, { regroup }),
+}
+
+/**
+ * Parse subtitle file content with the parser matching its extension
+ * @param content Subtitle file content
+ * @param inputPath Input file path (used for the extension)
+ * @param height Output frame height in pixels
+ * @param regroup Limits of cues regrouped from transcription words
+ */
+export function parseSubtitleFile(
+  content: string,
+  inputPath: string,
+  height?: number,
+  regroup?: WordGroupingOptions,
+): SrtParseResult {
+  const ext = extname(inputPath).toLowerCase()
+  const parse = SUBTITLE_PARSERS[ext] ?? SUBTITLE_PARSERS['.srt']
+  return parse(content, height, regroup)
+}
+
+/**
+ * Write FCPXML (or, with other allowed extensions, SRT) output file
  */
-export function writeOutputFile(content: string, outputPath: string): void {
+export function writeOutputFile(
+  content: string,
+  outputPath: string,
+  allowedExtensions: string[] = ['.fcpxml', '.xml'],
+): void {
   const resolvedPath = resolve(outputPath)
   const workingDir = resolve(process.cwd())
 
@@ -137,8 +274,7 @@ export function writeOutputFile(content: string, outputPath: string): void {
     )
   }
 
-  // File extension validation - only allow FCPXML or XML files
-  const allowedExtensions = ['.fcpxml', '.xml']
+  // File extension validation - only allow the output format's files
   const ext = extname(resolvedPath).toLowerCase()
   if (!allowedExtensions.includes(ext)) {
     throw new Error(
@@ -155,6 +291,179 @@ export function writeOutputFile(content: string, outputPath: string): void {
   }
 }
 
+/**
+ * Build the style overrides of one input track
+ * Priority: --track-placement/--track-language > config file tracks entry
+ * @param trackIndex Zero-based index of the input file
+ * @param options CLI command options
+ * @param config Loaded config file (optional)
+ */
+export function buildTrackOptions(
+  trackIndex: number,
+  options: CliCommandOptions,
+  config?: ConfigFile | null,
+): TrackOptions {
+  const trackConfig: TrackConfig = config?.tracks?.[trackIndex] ?? {}
+  const trackOptions: TrackOptions = {
+    fontFamily: trackConfig.font,
+    fontSize: trackConfig.size,
+    fontFace: trackConfig.face,
+    textColor: trackConfig.color,
+    backgroundColor: trackConfig.bg,
+    strokeColor: trackConfig.strokeColor,
+    strokeWidth: trackConfig.strokeWidth,
+    placement: options.trackPlacement?.[trackIndex] ?? trackConfig.placement,
+    captionLanguage:
+      options.trackLanguage?.[trackIndex] ?? trackConfig.captionLanguage,
+  }
+
+  // Drop unset keys so they do not override the shared options
+  return Object.fromEntries(
+    Object.entries(trackOptions).filter(([, value]) => value !== undefined),
+  ) as TrackOptions
+}
+
+/**
+ * Build the referenced video from the --video options
+ * @throws {Error} If a video is set without its duration
+ */
+export function buildVideoAsset(
+  mergedOptions: CliOptions,
+): VideoAsset | undefined {
+  if (!mergedOptions.video) {
+    return undefined
+  }
+  if (mergedOptions.videoDuration === undefined) {
+    throw new Error('--video-duration is required with --video')
+  }
+
+  return {
+    path: mergedOptions.video,
+    duration: mergedOptions.videoDuration,
+    frameRate: mergedOptions.videoFps,
+  }
+}
+
+/**
+ * Build the timing cleanup limits from the --min-duration, --max-duration,
+ * --min-gap, --gap-mode and --max-cps options
+ * @returns Limits, or undefined if none is set
+ */
+export function buildCleanupOptions(
+  mergedOptions: CliOptions,
+): TimingCleanupOptions | undefined {
+  const { minDuration, maxDuration, minGap, gapMode, maxCps } = mergedOptions
+  if (
+    minDuration === undefined &&
+    maxDuration === undefined &&
+    minGap === undefined &&
+    maxCps === undefined
+  ) {
+    return undefined
+  }
+
+  return { minDuration, maxDuration, minGap, gapMode, maxCps }
+}
+
+/**
+ * Build the line wrapping limits from the --max-chars, --max-width,
+ * --max-lines, --line-balance and --line-overflow options
+ * @returns Limits, or undefined if no line limit is set
+ */
+export function buildWrapOptions(
+  mergedOptions: CliOptions,
+): LineWrapOptions | undefined {
+  const { maxChars, maxWidth, maxLines, lineBalance, lineOverflow, lineBreak } =
+    mergedOptions
+  if (
+    maxChars === undefined &&
+    maxWidth === undefined &&
+    maxLines === undefined
+  ) {
+    return undefined
+  }
+
+  return {
+    maxChars,
+    maxWidth,
+    maxLines,
+    balance: lineBalance,
+    overflow: lineOverflow,
+    lineBreak,
+  }
+}
+
+/**
+ * Build the long cue splitting limits from the --split-lines and
+ * --split-duration options
+ * @returns Limits, or undefined if none is set
+ */
+export function buildSplitOptions(
+  mergedOptions: CliOptions,
+): CueSplitOptions | undefined {
+  const { splitLines, splitDuration } = mergedOptions
+  if (splitLines === undefined && splitDuration === undefined) {
+    return undefined
+  }
+
+  return { maxLines: splitLines, maxDuration: splitDuration }
+}
+
+/**
+ * Build the short cue merging limits from the --merge-gap option, with the
+ * line and reading speed limits of --max-chars, --max-lines and --max-cps
+ * @returns Limits, or undefined if cues are not merged
+ */
+export function buildMergeOptions(
+  mergedOptions: CliOptions,
+): CueMergeOptions | undefined {
+  const { mergeGap, maxChars, maxLines, maxCps } = mergedOptions
+  if (mergeGap === undefined) {
+    return undefined
+  }
+
+  return { maxGap: mergeGap, maxChars, maxLines, maxCps }
+}
+
+/**
+ * Build the word regrouping limits of transcription JSON input from the
+ * --regroup and --regroup-pause options, with the line limits of --max-chars
+ * and --max-lines
+ * @returns Limits, or undefined if words are not regrouped
+ */
+export function buildRegroupOptions(
+  mergedOptions: CliOptions,
+): WordGroupingOptions | undefined {
+  const { regroup, regroupPause, maxChars, maxLines } = mergedOptions
+  if (!regroup) {
+    return undefined
+  }
+
+  return { maxChars, maxLines, maxPause: regroupPause }
+}
+
+/**
+ * Log label and level of the messages of each conversion pass
+ */
+const REPORT_LABELS: Record<ConversionStep, [string, 'info' | 'warn']> = {
+  timing: ['⚠️  Timing:', 'warn'],
+  merge: ['🔗 Merge:', 'info'],
+  split: ['✂️  Split:', 'info'],
+  wrap: ['⚠️  Lines:', 'warn'],
+  cleanup: ['🔧 Timing:', 'info'],
+  overlap: ['⚠️  Overlap:', 'warn'],
+  quantize: ['⚠️  Timing:', 'warn'],
+}
+
+/**
+ * Log a message of the conversion: a merged, split or retimed cue, or a line
+ * overflow, overlap or frame rounding warning
+ */
+function logConversionReport(report: ConversionReport): void {
+  const [label, level] = REPORT_LABELS[report.step]
+  logger[level](label, report.message)
+}
+
 /**
  * Show applied options that differ from defaults
  */
@@ -165,6 +474,11 @@ export function showAppliedOptions(mergedOptions: CliOptions): void {
     shownOptions.push(`title: ${mergedOptions.title}`)
   if (mergedOptions.fps !== DEFAULT_CONFIG.fps)
     shownOptions.push(`fps: ${mergedOptions.fps}`)
+  if (mergedOptions.dropFrame) shownOptions.push('drop-frame: true')
+  if (mergedOptions.startTimecode)
+    shownOptions.push(`start timecode: ${mergedOptions.startTimecode}`)
+  if (mergedOptions.srtZeroTimecode !== undefined)
+    shownOptions.push(`srt zero: ${mergedOptions.srtZeroTimecode}`)
   if (mergedOptions.width !== DEFAULT_CONFIG.width)
     shownOptions.push(`width: ${mergedOptions.width}`)
   if (mergedOptions.height !== DEFAULT_CONFIG.height)
@@ -186,6 +500,68 @@ export function showAppliedOptions(mergedOptions: CliOptions): void {
   }
   if (mergedOptions.formatVersion !== DEFAULT_CONFIG.formatVersion)
     shownOptions.push(`format: ${mergedOptions.formatVersion}`)
+  if (mergedOptions.placement !== DEFAULT_CONFIG.placement) {
+    const { placement } = mergedOptions
+    shownOptions.push(
+      `placement: ${typeof placement === 'string' ? placement : `${placement.x},${placement.y}`}`,
+    )
+  }
+  if (mergedOptions.stripTags) shownOptions.push('strip tags: true')
+  if (mergedOptions.outputMode !== DEFAULT_CONFIG.outputMode) {
+    shownOptions.push(
+      `output: ${mergedOptions.outputMode} (${mergedOptions.captionFormat}.${mergedOptions.captionLanguage})`,
+    )
+  }
+
+  if (mergedOptions.overlap !== DEFAULT_CONFIG.overlap)
+    shownOptions.push(`overlap: ${mergedOptions.overlap}`)
+  if (mergedOptions.storyline !== DEFAULT_CONFIG.storyline)
+    shownOptions.push(`storyline: ${mergedOptions.storyline}`)
+  if (mergedOptions.quantize !== DEFAULT_CONFIG.quantize)
+    shownOptions.push(`quantize: ${mergedOptions.quantize}`)
+  if (mergedOptions.video) shownOptions.push(`video: ${mergedOptions.video}`)
+  if (mergedOptions.retime)
+    shownOptions.push(
+      `retime: ${mergedOptions.retime.from} to ${mergedOptions.retime.to} fps`,
+    )
+  if (mergedOptions.scale !== undefined && mergedOptions.scale !== 1)
+    shownOptions.push(`scale: ${mergedOptions.scale}`)
+  if (mergedOptions.shift) shownOptions.push(`shift: ${mergedOptions.shift}ms`)
+  if (mergedOptions.sync)
+    shownOptions.push(
+      `sync: ${mergedOptions.sync.map((point) => `cue ${point.cue} at ${point.timeMs}ms`).join(', ')}`,
+    )
+  if (mergedOptions.minDuration !== undefined)
+    shownOptions.push(`min duration: ${mergedOptions.minDuration}ms`)
+  if (mergedOptions.maxDuration !== undefined)
+    shownOptions.push(`max duration: ${mergedOptions.maxDuration}ms`)
+  if (mergedOptions.minGap !== undefined)
+    shownOptions.push(
+      `min gap: ${mergedOptions.minGap}ms (${mergedOptions.gapMode ?? 'close'})`,
+    )
+  if (mergedOptions.maxCps !== undefined)
+    shownOptions.push(`max cps: ${mergedOptions.maxCps}`)
+  if (mergedOptions.maxChars !== undefined)
+    shownOptions.push(`max chars: ${mergedOptions.maxChars}`)
+  if (mergedOptions.maxWidth !== undefined)
+    shownOptions.push(`max width: ${mergedOptions.maxWidth}px`)
+  if (mergedOptions.maxLines !== undefined)
+    shownOptions.push(`max lines: ${mergedOptions.maxLines}`)
+  if (mergedOptions.lineBalance !== undefined)
+    shownOptions.push(`line balance: ${mergedOptions.lineBalance}`)
+  if (mergedOptions.lineOverflow !== undefined)
+    shownOptions.push(`line overflow: ${mergedOptions.lineOverflow}`)
+  if (mergedOptions.lineBreak !== undefined)
+    shownOptions.push(`line break: ${mergedOptions.lineBreak}`)
+  if (mergedOptions.splitLines !== undefined)
+    shownOptions.push(`split lines: ${mergedOptions.splitLines}`)
+  if (mergedOptions.splitDuration !== undefined)
+    shownOptions.push(`split duration: ${mergedOptions.splitDuration}ms`)
+  if (mergedOptions.mergeGap !== undefined)
+    shownOptions.push(`merge gap: ${mergedOptions.mergeGap}ms`)
+  if (mergedOptions.regroup) shownOptions.push('regroup: true')
+  if (mergedOptions.regroupPause !== undefined)
+    shownOptions.push(`regroup pause: ${mergedOptions.regroupPause}ms`)
 
   if (shownOptions.length > 0) {
     logger.debug('⚙️  Applied options:', shownOptions.join(', '))
@@ -196,22 +572,26 @@ export function showAppliedOptions(mergedOptions: CliOptions): void {
  * Core CLI processing function
  */
 export function processCliCommand(
-  input: string,
+  input: string | string[],
   options: CliCommandOptions,
 ): CliResult {
   try {
-    logger.info('📖 Reading:', input)
+    const inputs = Array.isArray(input) ? input : [input]
+    logger.info('📖 Reading:', inputs.join(', '))
 
     // Load config file
     const config = loadConfigFile(options.config)
 
-    // Read SRT file
-    const srtContent = readSrtFile(input)
+    // Read SRT files
+    const srtContents = inputs.map((inputPath) => readSrtFile(inputPath))
 
     // Merge config: CLI options > config file > defaults
     const cliOptions: CliOptions = {
       title: options.title,
       fps: options.fps,
+      dropFrame: options.dropFrame,
+      startTimecode: options.startTimecode,
+      srtZeroTimecode: options.srtZeroTimecode,
       width: options.width,
       height: options.height,
       font: options.font,
@@ -222,6 +602,37 @@ export function processCliCommand(
       strokeColor: options.strokeColor,
       strokeWidth: options.strokeWidth,
       formatVersion: options.formatVersion,
+      placement: options.placement,
+      stripTags: options.stripTags,
+      outputMode: options.outputMode,
+      captionFormat: options.captionFormat,
+      captionLanguage: options.captionLanguage,
+      overlap: options.overlap,
+      storyline: options.storyline,
+      quantize: options.quantize,
+      video: options.video,
+      videoDuration: options.videoDuration,
+      videoFps: options.videoFps,
+      shift: options.shift,
+      scale: options.scale,
+      retime: options.retime,
+      sync: options.sync,
+      minDuration: options.minDuration,
+      maxDuration: options.maxDuration,
+      minGap: options.minGap,
+      gapMode: options.gapMode,
+      maxCps: options.maxCps,
+      maxChars: options.maxChars,
+      maxWidth: options.maxWidth,
+      maxLines: options.maxLines,
+      lineBalance: options.lineBalance,
+      lineOverflow: options.lineOverflow,
+      lineBreak: options.lineBreak,
+      splitLines: options.splitLines,
+      splitDuration: options.splitDuration,
+      mergeGap: options.mergeGap,
+      regroup: options.regroup,
+      regroupPause: options.regroupPause,
     }
 
     const mergedOptions = mergeConfig(cliOptions, config)
@@ -230,6 +641,9 @@ export function processCliCommand(
     const conversionOptions: Srt2FcpxOptions = {
       titleName: mergedOptions.title,
       frameRate: mergedOptions.fps,
+      dropFrame: mergedOptions.dropFrame,
+      startTimecode: mergedOptions.startTimecode,
+      srtZeroTimecode: mergedOptions.srtZeroTimecode,
       width: mergedOptions.width,
       height: mergedOptions.height,
       fontFamily: mergedOptions.font,
@@ -240,13 +654,54 @@ export function processCliCommand(
       strokeColor: mergedOptions.strokeColor,
       strokeWidth: mergedOptions.strokeWidth,
       formatVersion: mergedOptions.formatVersion,
+      placement: mergedOptions.placement,
+      stripTags: mergedOptions.stripTags,
+      outputMode: mergedOptions.outputMode,
+      captionFormat: mergedOptions.captionFormat,
+      captionLanguage: mergedOptions.captionLanguage,
+      overlap: mergedOptions.overlap,
+      storyline: mergedOptions.storyline,
+      quantize: mergedOptions.quantize,
+      videoAsset: buildVideoAsset(mergedOptions),
+      shift: mergedOptions.shift,
+      scale: mergedOptions.scale,
+      retime: mergedOptions.retime,
+      sync: mergedOptions.sync as [SyncPoint, SyncPoint] | undefined,
+      cleanup: buildCleanupOptions(mergedOptions),
+      wrap: buildWrapOptions(mergedOptions),
+      split: buildSplitOptions(mergedOptions),
+      merge: buildMergeOptions(mergedOptions),
+      onReport: logConversionReport,
     }
 
-    // Convert
-    const fcpxml = convertSrtToFcpxml(srtContent, conversionOptions)
+    // Parse each input with the parser matching its extension
+    const parsedCues = inputs.map((inputPath, trackIndex) => {
+      const parseResult = parseSubtitleFile(
+        srtContents[trackIndex],
+        inputPath,
+        mergedOptions.height,
+        buildRegroupOptions(mergedOptions),
+      )
+      for (const parseError of parseResult.errors) {
+        logger.warn('⚠️  Warning:', parseError)
+      }
+      return parseResult.cues
+    })
+
+    const tracks: CueTrack[] = parsedCues.map((cues, trackIndex) => ({
+      cues,
+      options: buildTrackOptions(trackIndex, options, config),
+    }))
+
+    // Convert: a single input keeps the plain cue list
+    const fcpxml = convertCuesToFcpxml(
+      tracks.length === 1 ? tracks[0].cues : tracks,
+      conversionOptions,
+    )
 
-    // Determine output file
-    const outputFile = options.output || `${basename(input, '.srt')}.fcpxml`
+    // Determine output file (named after the first input)
+    const outputFile =
+      options.output || `${basename(inputs[0], extname(inputs[0]))}.fcpxml`
 
     // Write output
     writeOutputFile(fcpxml, outputFile)
@@ -271,3 +726,100 @@ export function processCliCommand(
     }
   }
 }
+
+/**
+ * Reverse CLI processing function: FCPXML titles and captions back to SRT
+ */
+export function processReverseCommand(
+  input: string,
+  options: ReverseCommandOptions,
+): CliResult {
+  try {
+    logger.info('📖 Reading:', input)
+
+    const parseResult = parseFcpxml(readSrtFile(input))
+    for (const parseError of parseResult.errors) {
+      logger.warn('⚠️  Warning:', parseError)
+    }
+    if (parseResult.cues.length === 0) {
+      throw new Error('No titles or captions found in input')
+    }
+
+    // Determine output file
+    const outputFile =
+      options.output || `${basename(input, extname(input))}.srt`
+
+    writeOutputFile(serializeSrt(parseResult.cues), outputFile, ['.srt'])
+
+    logger.success('✅ Converted successfully!')
+    logger.info('📝 Output:', outputFile)
+
+    return {
+      success: true,
+      outputFile,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error('❌ Error:', errorMessage)
+
+    return {
+      success: false,
+      error: errorMessage,
+    }
+  }
+}
+
+/**
+ * Rewrite an SRT file in canonical form and report the fixes
+ * @param input Input SRT file path
+ * @param options Command options
+ * @returns Result of the operation
+ */
+export function processNormalizeCommand(
+  input: string,
+  options: NormalizeCommandOptions,
+): CliResult {
+  try {
+    logger.info('📖 Reading:', input)
+
+    const result = normalizeSrt(readSrtFile(input), {
+      lineEnding: options.crlf ? 'crlf' : 'lf',
+      bom: options.bom,
+    })
+    for (const parseError of result.errors) {
+      logger.warn('⚠️  Warning:', parseError)
+    }
+    if (!result.output) {
+      throw new Error('No valid SRT cues found in input')
+    }
+
+    // Determine output file
+    const outputFile =
+      options.output || `${basename(input, extname(input))}.normalized.srt`
+
+    writeOutputFile(result.output, outputFile, ['.srt'])
+
+    for (const fix of result.fixes) {
+      logger.info('🔧 Fixed:', fix)
+    }
+    logger.success(
+      result.fixes.length > 0
+        ? '✅ Normalized successfully!'
+        : '✅ Already in canonical form',
+    )
+    logger.info('📝 Output:', outputFile)
+
+    return {
+      success: true,
+      outputFile,
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    logger.error('❌ Error:', errorMessage)
+
+    return {
+      success: false,
+      error: errorMessage,
+    }
+  }
+}
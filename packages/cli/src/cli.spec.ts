@@ -1,8 +1,14 @@
 import { existsSync, readFileSync, writeFileSync } from 'node:fs'
 import { tmpdir } from 'node:os'
 import { join } from 'node:path'
+import type { ConversionReport } from '@srt2fcpx/core'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
-import { type CliCommandOptions, processCliCommand } from './cli-core'
+import {
+  type CliCommandOptions,
+  processCliCommand,
+  processNormalizeCommand,
+  processReverseCommand,
+} from './cli-core'
 import { setQuiet } from './logger'
 
 // Mock logger
@@ -24,9 +30,24 @@ const mockExistsSync = vi.mocked(existsSync)
 const mockReadFileSync = vi.mocked(readFileSync)
 const mockWriteFileSync = vi.mocked(writeFileSync)
 
-// Mock the core conversion function
+// Mock the core conversion and parser functions
 vi.mock('@srt2fcpx/core', () => ({
-  convertSrtToFcpxml: vi.fn().mockReturnValue('<fcpxml>test</fcpxml>'),
+  convertCuesToFcpxml: vi.fn().mockReturnValue('<fcpxml>test</fcpxml>'),
+  normalizeSrt: vi.fn().mockReturnValue({
+    output: '1\n00:00:01,000 --> 00:00:02,000\nHi\n',
+    fixes: [],
+    errors: [],
+  }),
+  parseAss: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  parseFcpxml: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  parseScc: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  parseSrt: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  parseTtml: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  parseVtt: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  parseWhisper: vi.fn().mockReturnValue({ cues: [], errors: [] }),
+  serializeSrt: vi
+    .fn()
+    .mockReturnValue('1\n00:00:01,000 --> 00:00:02,000\nHi\n'),
 }))
 
 describe('CLI Integration Tests', () => {
@@ -71,7 +92,14 @@ Test subtitle
     bg: '#00000000',
     strokeColor: '#000000FF',
     strokeWidth: 0,
-    formatVersion: '1.8',
+    formatVersion: '1.13',
+    placement: 'middle',
+    outputMode: 'titles',
+    captionFormat: 'ITT',
+    captionLanguage: 'en',
+    overlap: 'lanes',
+    storyline: 'gap',
+    quantize: 'floor',
   }
 
   beforeEach(async () => {
@@ -87,14 +115,25 @@ Test subtitle
     mockWriteFileSync.mockImplementation(() => {})
 
     // Reset conversion function to normal behavior
-    const { convertSrtToFcpxml } = await import('@srt2fcpx/core')
-    vi.mocked(convertSrtToFcpxml).mockReturnValue('<fcpxml>test</fcpxml>')
+    const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+    vi.mocked(convertCuesToFcpxml).mockReturnValue('<fcpxml>test</fcpxml>')
   })
 
   afterEach(() => {
     vi.restoreAllMocks()
   })
 
+  /**
+   * Make the next conversion report a message of one of its passes
+   */
+  const reportOnce = async (report: ConversionReport) => {
+    const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+    vi.mocked(convertCuesToFcpxml).mockImplementationOnce((_, options) => {
+      options?.onReport?.(report)
+      return '<fcpxml>test</fcpxml>'
+    })
+  }
+
   describe('Basic functionality', () => {
     it('should successfully convert SRT file with default options', () => {
       const result = processCliCommand(testSrtPath, defaultOptions)
@@ -134,6 +173,744 @@ Test subtitle
     })
   })
 
+  describe('Input formats', () => {
+    it('should parse .srt input with the SRT parser', async () => {
+      const { parseSrt, parseVtt } = await import('@srt2fcpx/core')
+
+      const result = processCliCommand(testSrtPath, defaultOptions)
+
+      expect(result.success).toBe(true)
+      expect(parseSrt).toHaveBeenCalledWith(mockSrtContent)
+      expect(parseVtt).not.toHaveBeenCalled()
+    })
+
+    it('should parse .vtt input with the WebVTT parser', async () => {
+      const { parseSrt, parseVtt } = await import('@srt2fcpx/core')
+
+      const result = processCliCommand(join(tempDir, 'web.vtt'), defaultOptions)
+
+      expect(result.success).toBe(true)
+      expect(result.outputFile).toBe('web.fcpxml')
+      expect(parseVtt).toHaveBeenCalledWith(mockSrtContent)
+      expect(parseSrt).not.toHaveBeenCalled()
+    })
+
+    it('should parse .ass and .ssa input with the ASS parser', async () => {
+      const { parseAss, parseSrt } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'styled.ass'), defaultOptions)
+      processCliCommand(join(tempDir, 'legacy.ssa'), defaultOptions)
+
+      expect(parseAss).toHaveBeenCalledTimes(2)
+      expect(parseAss).toHaveBeenCalledWith(mockSrtContent, {
+        height: defaultOptions.height,
+      })
+      expect(parseSrt).not.toHaveBeenCalled()
+    })
+
+    it('should parse .scc input with the SCC parser', async () => {
+      const { parseScc, parseSrt } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'broadcast.scc'), defaultOptions)
+
+      expect(parseScc).toHaveBeenCalledWith(mockSrtContent)
+      expect(parseSrt).not.toHaveBeenCalled()
+    })
+
+    it('should parse .json input with the Whisper parser', async () => {
+      const { parseSrt, parseWhisper } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'transcript.json'), defaultOptions)
+
+      expect(parseWhisper).toHaveBeenCalledWith(mockSrtContent, {
+        regroup: undefined,
+      })
+      expect(parseSrt).not.toHaveBeenCalled()
+    })
+
+    it('should regroup words with the line limits and pause', async () => {
+      const { parseWhisper } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'transcript.json'), {
+        ...defaultOptions,
+        regroup: true,
+        regroupPause: 700,
+        maxChars: 32,
+      })
+
+      expect(parseWhisper).toHaveBeenCalledWith(mockSrtContent, {
+        regroup: { maxChars: 32, maxLines: undefined, maxPause: 700 },
+      })
+    })
+
+    it('should parse .ttml, .dfxp and .xml input with the TTML parser', async () => {
+      const { parseSrt, parseTtml } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'netflix.ttml'), defaultOptions)
+      processCliCommand(join(tempDir, 'legacy.dfxp'), defaultOptions)
+      processCliCommand(join(tempDir, 'imsc1.xml'), defaultOptions)
+
+      expect(parseTtml).toHaveBeenCalledTimes(3)
+      expect(parseTtml).toHaveBeenCalledWith(mockSrtContent)
+      expect(parseSrt).not.toHaveBeenCalled()
+    })
+
+    it('should match extensions case-insensitively', async () => {
+      const { parseVtt } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'WEB.VTT'), defaultOptions)
+
+      expect(parseVtt).toHaveBeenCalled()
+    })
+
+    it('should fall back to the SRT parser for unknown extensions', async () => {
+      const { parseSrt } = await import('@srt2fcpx/core')
+
+      processCliCommand(join(tempDir, 'subtitles.txt'), defaultOptions)
+
+      expect(parseSrt).toHaveBeenCalled()
+    })
+
+    it('should pass parsed cues to the converter', async () => {
+      const core = await import('@srt2fcpx/core')
+      const cues = [{ index: 1, startMs: 1000, endMs: 2000, text: 'Hello' }]
+      vi.mocked(core.parseSrt).mockReturnValueOnce({ cues, errors: [] })
+
+      processCliCommand(testSrtPath, defaultOptions)
+
+      expect(core.convertCuesToFcpxml).toHaveBeenCalledWith(
+        cues,
+        expect.any(Object),
+      )
+    })
+
+    it('should log recoverable parse errors as warnings', async () => {
+      const core = await import('@srt2fcpx/core')
+      const { logger } = await import('./logger')
+      vi.mocked(core.parseSrt).mockReturnValueOnce({
+        cues: [],
+        errors: ['Invalid index: x'],
+      })
+
+      processCliCommand(testSrtPath, defaultOptions)
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠️  Warning:',
+        'Invalid index: x',
+      )
+    })
+  })
+
+  describe('Timecode options', () => {
+    it('should pass drop-frame option to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options = { ...defaultOptions, fps: 29.97, dropFrame: true }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ frameRate: 29.97, dropFrame: true }),
+      )
+    })
+    it('should pass start timecode options to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options = {
+        ...defaultOptions,
+        startTimecode: '01:00:00:00',
+        srtZeroTimecode: 0,
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          startTimecode: '01:00:00:00',
+          srtZeroTimecode: 0,
+        }),
+      )
+    })
+  })
+
+  describe('Text options', () => {
+    it('should pass the placement option to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        placement: { x: '50%', y: 900 },
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ placement: { x: '50%', y: 900 } }),
+      )
+    })
+
+    it('should pass the strip tags option to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options = { ...defaultOptions, stripTags: true }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ stripTags: true }),
+      )
+    })
+  })
+
+  describe('Caption options', () => {
+    it('should pass caption output options to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        outputMode: 'captions',
+        captionFormat: 'CEA608',
+        captionLanguage: 'fr',
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          outputMode: 'captions',
+          captionFormat: 'CEA608',
+          captionLanguage: 'fr',
+        }),
+      )
+    })
+  })
+
+  describe('Storyline options', () => {
+    it('should pass the storyline option to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        storyline: 'titles',
+      }
+
+      processCliCommand(testSrtPath, options)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ storyline: 'titles' }),
+      )
+    })
+  })
+
+  describe('Video options', () => {
+    it('should pass the referenced video to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        video: 'interview.mov',
+        videoDuration: 60000,
+        videoFps: 25,
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          videoAsset: {
+            path: 'interview.mov',
+            duration: 60000,
+            frameRate: 25,
+          },
+        }),
+      )
+    })
+
+    it('should not reference a video by default', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+
+      processCliCommand(testSrtPath, defaultOptions)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ videoAsset: undefined }),
+      )
+    })
+
+    it('should require the video duration', () => {
+      const result = processCliCommand(testSrtPath, {
+        ...defaultOptions,
+        video: 'interview.mov',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('--video-duration is required with --video')
+    })
+  })
+
+  describe('Timing options', () => {
+    it('should pass the timing options to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        retime: { from: 25, to: 23.976 },
+        scale: 1.001,
+        shift: -1500,
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          retime: { from: 25, to: 23.976 },
+          scale: 1.001,
+          shift: -1500,
+          sync: undefined,
+        }),
+      )
+    })
+
+    it('should apply sync points from the config file', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const sync = [
+        { cue: 1, timeMs: 5000 },
+        { cue: 2, timeMs: 9000 },
+      ]
+      mockReadFileSync.mockImplementation(
+        (path: string | Buffer | URL | number) =>
+          String(path).includes('.srt2fcpxrc.json')
+            ? JSON.stringify({ sync })
+            : mockSrtContent,
+      )
+
+      processCliCommand(testSrtPath, {
+        ...defaultOptions,
+        config: testConfigPath,
+      })
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ sync }),
+      )
+    })
+  })
+
+  describe('Short cue merging options', () => {
+    it('should not merge cues by default', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+
+      processCliCommand(testSrtPath, { ...defaultOptions, maxChars: 42 })
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ merge: undefined }),
+      )
+    })
+
+    it('should merge with the line and reading speed limits', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        mergeGap: 200,
+        maxChars: 42,
+        maxCps: 17,
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          merge: {
+            maxGap: 200,
+            maxChars: 42,
+            maxLines: undefined,
+            maxCps: 17,
+          },
+        }),
+      )
+    })
+
+    it('should log each merged cue', async () => {
+      const { logger } = await import('./logger')
+      await reportOnce({
+        step: 'merge',
+        track: 1,
+        message: 'Cues 1, 2 and 3 merged into cue 1',
+      })
+
+      processCliCommand(testSrtPath, { ...defaultOptions, mergeGap: 0 })
+
+      expect(logger.info).toHaveBeenCalledWith(
+        '🔗 Merge:',
+        'Cues 1, 2 and 3 merged into cue 1',
+      )
+    })
+  })
+
+  describe('Long cue splitting options', () => {
+    it('should not split cues by default', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+
+      processCliCommand(testSrtPath, defaultOptions)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ split: undefined }),
+      )
+    })
+
+    it('should pass the cue limits to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        splitLines: 2,
+        splitDuration: 6000,
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          split: { maxLines: 2, maxDuration: 6000 },
+        }),
+      )
+    })
+
+    it('should log each split cue', async () => {
+      const { logger } = await import('./logger')
+      await reportOnce({
+        step: 'split',
+        track: 1,
+        message: 'Cue 3 lasts 8000ms (max 5000ms): split into 2 cues',
+      })
+
+      processCliCommand(testSrtPath, { ...defaultOptions, splitDuration: 5000 })
+
+      expect(logger.info).toHaveBeenCalledWith(
+        '✂️  Split:',
+        'Cue 3 lasts 8000ms (max 5000ms): split into 2 cues',
+      )
+    })
+  })
+
+  describe('Line wrapping options', () => {
+    it('should not wrap lines by default', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+
+      processCliCommand(testSrtPath, defaultOptions)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ wrap: undefined }),
+      )
+    })
+
+    it('should pass the line limits to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        maxChars: 42,
+        lineBalance: 'greedy',
+        lineOverflow: 'split',
+        lineBreak: 'cjk',
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          wrap: {
+            maxChars: 42,
+            maxWidth: undefined,
+            maxLines: undefined,
+            balance: 'greedy',
+            overflow: 'split',
+            lineBreak: 'cjk',
+          },
+        }),
+      )
+    })
+
+    it('should log each line overflow as a warning', async () => {
+      const { logger } = await import('./logger')
+      await reportOnce({
+        step: 'wrap',
+        track: 1,
+        message: 'Cue 4 has 3 lines (max 2)',
+      })
+
+      processCliCommand(testSrtPath, { ...defaultOptions, maxChars: 42 })
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠️  Lines:',
+        'Cue 4 has 3 lines (max 2)',
+      )
+    })
+  })
+
+  describe('Timing cleanup options', () => {
+    it('should not clean up cue timing by default', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+
+      processCliCommand(testSrtPath, defaultOptions)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ cleanup: undefined }),
+      )
+    })
+
+    it('should pass the cleanup limits to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        minDuration: 1000,
+        minGap: 80,
+        gapMode: 'enforce',
+        maxCps: 17,
+      }
+
+      const result = processCliCommand(testSrtPath, options)
+
+      expect(result.success).toBe(true)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({
+          cleanup: {
+            minDuration: 1000,
+            maxDuration: undefined,
+            minGap: 80,
+            gapMode: 'enforce',
+            maxCps: 17,
+          },
+        }),
+      )
+    })
+
+    it('should log each timing adjustment', async () => {
+      const { logger } = await import('./logger')
+      await reportOnce({
+        step: 'cleanup',
+        track: 1,
+        message:
+          'Cue 1: extended end from 00:00:01,200 to 00:00:02,000 (minimum duration 1000ms)',
+      })
+
+      processCliCommand(testSrtPath, { ...defaultOptions, minDuration: 1000 })
+
+      expect(logger.info).toHaveBeenCalledWith(
+        '🔧 Timing:',
+        'Cue 1: extended end from 00:00:01,200 to 00:00:02,000 (minimum duration 1000ms)',
+      )
+    })
+
+    it('should fail on invalid cleanup limits', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      vi.mocked(convertCuesToFcpxml).mockImplementationOnce(() => {
+        throw new Error('Invalid maximum CPS: 0')
+      })
+
+      const result = processCliCommand(testSrtPath, {
+        ...defaultOptions,
+        maxCps: 0,
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid maximum CPS: 0')
+    })
+  })
+
+  describe('Overlap options', () => {
+    it('should pass the overlap option to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = { ...defaultOptions, overlap: 'trim' }
+
+      processCliCommand(testSrtPath, options)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ overlap: 'trim' }),
+      )
+    })
+
+    it('should log each overlap decision as a warning', async () => {
+      const { logger } = await import('./logger')
+      await reportOnce({
+        step: 'overlap',
+        track: 1,
+        message: 'Cue 2 overlaps cue 1: moved to lane 2',
+      })
+
+      const result = processCliCommand(testSrtPath, defaultOptions)
+
+      expect(result.success).toBe(true)
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠️  Overlap:',
+        'Cue 2 overlaps cue 1: moved to lane 2',
+      )
+    })
+
+    it('should fail when overlaps are rejected', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      vi.mocked(convertCuesToFcpxml).mockImplementationOnce(() => {
+        throw new Error('Overlapping cues: cue 2 overlaps cue 1')
+      })
+
+      const result = processCliCommand(testSrtPath, {
+        ...defaultOptions,
+        overlap: 'reject',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Overlapping cues: cue 2 overlaps cue 1')
+    })
+  })
+
+  describe('Quantize options', () => {
+    it('should pass the quantize mode to the converter', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+
+      processCliCommand(testSrtPath, { ...defaultOptions, quantize: 'snap' })
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ quantize: 'snap' }),
+      )
+    })
+
+    it('should warn about cues collapsing to zero frames', async () => {
+      const { logger } = await import('./logger')
+      await reportOnce({
+        step: 'quantize',
+        track: 1,
+        message: 'Cue 1 collapses to zero frames: extended to one frame',
+      })
+
+      const result = processCliCommand(testSrtPath, defaultOptions)
+
+      expect(result.success).toBe(true)
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠️  Timing:',
+        'Cue 1 collapses to zero frames: extended to one frame',
+      )
+    })
+  })
+
+  describe('Multiple tracks', () => {
+    const englishPath = join(tempDir, 'movie.en.srt')
+    const japanesePath = join(tempDir, 'movie.ja.vtt')
+
+    it('should convert several inputs as separate tracks', async () => {
+      const { convertCuesToFcpxml, parseSrt, parseVtt } = await import(
+        '@srt2fcpx/core'
+      )
+
+      const result = processCliCommand(
+        [englishPath, japanesePath],
+        defaultOptions,
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.outputFile).toBe('movie.en.fcpxml')
+      expect(parseSrt).toHaveBeenCalledTimes(1)
+      expect(parseVtt).toHaveBeenCalledTimes(1)
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        [
+          { cues: [], options: {} },
+          { cues: [], options: {} },
+        ],
+        expect.any(Object),
+      )
+    })
+
+    it('should pass per-track placement and language flags', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        trackPlacement: ['bottom', 'top'],
+        trackLanguage: ['en', 'ja'],
+      }
+
+      processCliCommand([englishPath, japanesePath], options)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        [
+          { cues: [], options: { placement: 'bottom', captionLanguage: 'en' } },
+          { cues: [], options: { placement: 'top', captionLanguage: 'ja' } },
+        ],
+        expect.any(Object),
+      )
+    })
+
+    it('should apply config file track entries under the track flags', async () => {
+      const { convertCuesToFcpxml } = await import('@srt2fcpx/core')
+      mockReadFileSync.mockImplementation(
+        (path: string | Buffer | URL | number) => {
+          if (String(path).includes('.srt2fcpxrc.json')) {
+            return JSON.stringify({
+              tracks: [
+                { font: 'Arial', placement: 'top' },
+                { font: 'Hiragino Sans', size: 60, color: '#FFFF00FF' },
+              ],
+            })
+          }
+          return mockSrtContent
+        },
+      )
+      const options: CliCommandOptions = {
+        ...defaultOptions,
+        config: testConfigPath,
+        trackPlacement: ['bottom'],
+      }
+
+      processCliCommand([englishPath, japanesePath], options)
+
+      expect(convertCuesToFcpxml).toHaveBeenCalledWith(
+        [
+          { cues: [], options: { fontFamily: 'Arial', placement: 'bottom' } },
+          {
+            cues: [],
+            options: {
+              fontFamily: 'Hiragino Sans',
+              fontSize: 60,
+              textColor: '#FFFF00FF',
+            },
+          },
+        ],
+        expect.any(Object),
+      )
+    })
+
+    it('should fail when any input is missing', () => {
+      mockExistsSync.mockImplementation(
+        (path: string | Buffer | URL | number) =>
+          !String(path).includes('.ja.'),
+      )
+
+      const result = processCliCommand(
+        [englishPath, japanesePath],
+        defaultOptions,
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toContain('movie.ja.vtt')
+    })
+  })
+
   describe('Config file handling', () => {
     beforeEach(() => {
       // Mock config file reading
@@ -262,6 +1039,140 @@ Test subtitle
     })
   })
 
+  describe('Reverse command', () => {
+    const fcpxmlPath = join(tempDir, 'edited.fcpxml')
+    const cue = { index: 1, startMs: 1000, endMs: 2000, text: 'Hi' }
+
+    it('should write the titles of an FCPXML file as SRT', async () => {
+      const core = await import('@srt2fcpx/core')
+      vi.mocked(core.parseFcpxml).mockReturnValueOnce({
+        cues: [cue],
+        errors: [],
+      })
+
+      const result = processReverseCommand(fcpxmlPath, {})
+
+      expect(result).toEqual({ success: true, outputFile: 'edited.srt' })
+      expect(core.parseFcpxml).toHaveBeenCalledWith(mockSrtContent)
+      expect(core.serializeSrt).toHaveBeenCalledWith([cue])
+      expect(mockWriteFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('edited.srt'),
+        '1\n00:00:01,000 --> 00:00:02,000\nHi\n',
+        'utf-8',
+      )
+    })
+
+    it('should use custom output file and log warnings', async () => {
+      const core = await import('@srt2fcpx/core')
+      const { logger } = await import('./logger')
+      vi.mocked(core.parseFcpxml).mockReturnValueOnce({
+        cues: [cue],
+        errors: ['Skipping empty <title> at 00:00:05,000'],
+      })
+
+      const result = processReverseCommand(fcpxmlPath, {
+        output: 'fixed.srt',
+      })
+
+      expect(result.outputFile).toBe('fixed.srt')
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠️  Warning:',
+        'Skipping empty <title> at 00:00:05,000',
+      )
+    })
+
+    it('should fail without titles or captions', () => {
+      const result = processReverseCommand(fcpxmlPath, {})
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('No titles or captions found in input')
+      expect(mockWriteFileSync).not.toHaveBeenCalled()
+    })
+
+    it('should only write .srt output files', async () => {
+      const core = await import('@srt2fcpx/core')
+      vi.mocked(core.parseFcpxml).mockReturnValueOnce({
+        cues: [cue],
+        errors: [],
+      })
+
+      const result = processReverseCommand(fcpxmlPath, {
+        output: 'fixed.fcpxml',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe(
+        'Invalid file extension: .fcpxml. Allowed extensions: .srt',
+      )
+    })
+  })
+
+  describe('Normalize command', () => {
+    const srtPath = join(tempDir, 'messy.srt')
+
+    it('should write the normalized SRT and report the fixes', async () => {
+      const core = await import('@srt2fcpx/core')
+      const { logger } = await import('./logger')
+      vi.mocked(core.normalizeSrt).mockReturnValueOnce({
+        output: '1\n00:00:01,000 --> 00:00:02,000\nHi\n',
+        fixes: ['Renumbered 1 cue'],
+        errors: ['Invalid index: x'],
+      })
+
+      const result = processNormalizeCommand(srtPath, {})
+
+      expect(result).toEqual({
+        success: true,
+        outputFile: 'messy.normalized.srt',
+      })
+      expect(core.normalizeSrt).toHaveBeenCalledWith(mockSrtContent, {
+        lineEnding: 'lf',
+        bom: undefined,
+      })
+      expect(mockWriteFileSync).toHaveBeenCalledWith(
+        expect.stringContaining('messy.normalized.srt'),
+        '1\n00:00:01,000 --> 00:00:02,000\nHi\n',
+        'utf-8',
+      )
+      expect(logger.info).toHaveBeenCalledWith('🔧 Fixed:', 'Renumbered 1 cue')
+      expect(logger.warn).toHaveBeenCalledWith(
+        '⚠️  Warning:',
+        'Invalid index: x',
+      )
+    })
+
+    it('should pass line ending and BOM options', async () => {
+      const core = await import('@srt2fcpx/core')
+
+      const result = processNormalizeCommand(srtPath, {
+        output: 'messy.srt',
+        crlf: true,
+        bom: true,
+      })
+
+      expect(result.outputFile).toBe('messy.srt')
+      expect(core.normalizeSrt).toHaveBeenCalledWith(mockSrtContent, {
+        lineEnding: 'crlf',
+        bom: true,
+      })
+    })
+
+    it('should fail without valid cues', async () => {
+      const core = await import('@srt2fcpx/core')
+      vi.mocked(core.normalizeSrt).mockReturnValueOnce({
+        output: '',
+        fixes: [],
+        errors: [],
+      })
+
+      const result = processNormalizeCommand(srtPath, {})
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('No valid SRT cues found in input')
+      expect(mockWriteFileSync).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Error handling', () => {
     it('should handle missing input file', () => {
       mockExistsSync.mockReturnValue(false)
@@ -297,7 +1208,7 @@ Test subtitle
     it('should handle conversion errors gracefully', async () => {
       // Import and mock the conversion function
       const core = await import('@srt2fcpx/core')
-      vi.mocked(core.convertSrtToFcpxml).mockImplementation(() => {
+      vi.mocked(core.convertCuesToFcpxml).mockImplementation(() => {
         throw new Error('Invalid SRT format')
       })
 
@@ -1,20 +1,101 @@
 import { readFileSync } from 'node:fs'
+import type { FrameRateConversion, Placement, SyncPoint } from '@srt2fcpx/core'
 import { program } from 'commander'
-import { type CliCommandOptions, processCliCommand } from './cli-core'
+import {
+  type CliCommandOptions,
+  type NormalizeCommandOptions,
+  processCliCommand,
+  processNormalizeCommand,
+  processReverseCommand,
+  type ReverseCommandOptions,
+} from './cli-core'
 import { setQuiet } from './logger'
 
 const packageJson = JSON.parse(
   readFileSync(new URL('../package.json', import.meta.url), 'utf-8'),
 )
 
+/**
+ * Parse a timecode flag: plain digits are milliseconds, anything else SMPTE
+ */
+function parseTimecodeOption(val: string): string | number {
+  return /^\d+$/.test(val) ? parseInt(val, 10) : val
+}
+
+/**
+ * Parse a placement flag: a preset name or "x,y" in pixels or percent
+ */
+function parsePlacementOption(val: string): Placement {
+  const coordinates = val.split(',').map((value) => value.trim())
+  if (coordinates.length !== 2) {
+    return val as Placement
+  }
+  const [x, y] = coordinates.map((value) =>
+    /^-?\d+(?:\.\d+)?$/.test(value) ? parseFloat(value) : value,
+  )
+  return { x, y }
+}
+
+/**
+ * Parse a frame rate conversion flag: "from:to" (e.g., "25:23.976")
+ */
+function parseRetimeOption(val: string): FrameRateConversion {
+  const [from, to] = val.split(':').map((rate) => parseFloat(rate))
+  return { from, to: to ?? Number.NaN }
+}
+
+/**
+ * Parse a sync point flag: "cue=time" with the time in milliseconds or as
+ * an SRT timecode (e.g., "12=00:01:02,500")
+ */
+function parseSyncOption(val: string): SyncPoint {
+  const [cue, time = ''] = val.split('=')
+  const timecode = time.match(/^(\d+):(\d{2}):(\d{2})[,.](\d{3})$/)
+  const timeMs = timecode
+    ? parseInt(timecode[1], 10) * 3600000 +
+      parseInt(timecode[2], 10) * 60000 +
+      parseInt(timecode[3], 10) * 1000 +
+      parseInt(timecode[4], 10)
+    : /^-?\d+$/.test(time)
+      ? parseInt(time, 10)
+      : Number.NaN
+  return { cue: parseInt(cue, 10), timeMs }
+}
+
+/**
+ * Collect a repeatable flag into a list (e.g., one value per input track)
+ */
+function collectOption<T>(parse: (val: string) => T) {
+  return (val: string, previous: T[] = []): T[] => [...previous, parse(val)]
+}
+
 program
   .name('srt2fcpx')
   .description('Convert SRT subtitles to Final Cut Pro XML format')
   .version(packageJson.version)
-  .argument('<input>', 'Input SRT file')
-  .option('-o, --output <file>', 'Output FCPXML file (default: <input>.fcpxml)')
+  // Options after "reverse" belong to the reverse command
+  .enablePositionalOptions()
+  .argument(
+    '<inputs...>',
+    'Input subtitle files (.srt, .vtt, .ass, .ssa, .scc, .ttml, .dfxp, .xml or Whisper .json); several files become stacked lanes',
+  )
+  .option(
+    '-o, --output <file>',
+    'Output FCPXML file (default: <first input>.fcpxml)',
+  )
   .option('-t, --title <name>', 'Project title', 'Converted from SRT')
   .option('-f, --fps <number>', 'Frame rate', (val) => parseFloat(val), 24)
+  .option('--drop-frame', 'Use drop-frame timecode (29.97/59.94 only)', false)
+  .option(
+    '--start-timecode <tc>',
+    'Sequence start timecode (HH:MM:SS:FF or milliseconds)',
+    parseTimecodeOption,
+  )
+  .option(
+    '--srt-zero-timecode <tc>',
+    'Timecode that SRT time zero maps to (default: start timecode)',
+    parseTimecodeOption,
+  )
   .option('--width <number>', 'Video width', (val) => parseInt(val, 10), 1920)
   .option('--height <number>', 'Video height', (val) => parseInt(val, 10), 1080)
   .option('--font <name>', 'Font family', 'Helvetica')
@@ -37,17 +118,216 @@ program
     (val) => parseInt(val, 10),
     0,
   )
-  .option('--format-version <version>', 'FCPXML format version', '1.8')
+  .option('--format-version <version>', 'FCPXML format version', '1.13')
+  .option(
+    '--placement <placement>',
+    'Title position: middle, top, bottom or "x,y" in pixels or percent',
+    parsePlacementOption,
+    'middle',
+  )
+  .option(
+    '--strip-tags',
+    'Strip <b>, <i>, <u> and <font> tags instead of styling text runs',
+  )
+  .option(
+    '--output-mode <mode>',
+    'Emit Basic Title clips or native captions (titles, captions)',
+    'titles',
+  )
+  .option(
+    '--caption-format <format>',
+    'Caption format in captions mode (ITT, SRT, CEA608)',
+    'ITT',
+  )
+  .option(
+    '--caption-language <lang>',
+    'Caption language in captions mode (e.g., en, ja, pt-BR)',
+    'en',
+  )
+  .option(
+    '--overlap <mode>',
+    'Overlapping cues: move to extra lanes, trim, merge or reject (lanes, trim, merge, reject)',
+    'lanes',
+  )
+  .option(
+    '--storyline <type>',
+    'Primary storyline: a gap clip with connected titles, or titles in the spine (gap, titles)',
+    'gap',
+  )
+  .option(
+    '--quantize <mode>',
+    'Rounding of cue start and end times to frames (floor, nearest, ceil, snap)',
+    'floor',
+  )
+  .option('--video <file>', 'Video file to connect the subtitles to')
+  .option(
+    '--video-duration <ms>',
+    'Duration of the --video file in milliseconds',
+    (val) => parseInt(val, 10),
+  )
+  .option(
+    '--video-fps <number>',
+    'Frame rate of the --video file (default: --fps)',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--retime <from:to>',
+    'Convert cue times between frame rates (e.g., 25:23.976)',
+    parseRetimeOption,
+  )
+  .option('--scale <factor>', 'Multiply cue times by a factor', (val) =>
+    parseFloat(val),
+  )
+  .option(
+    '--shift <ms>',
+    'Move cues by milliseconds (negative moves them earlier)',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--sync <cue=time>',
+    'Sync to two reference cues, repeat twice (e.g., --sync 1=00:00:05,000)',
+    collectOption(parseSyncOption),
+  )
+  .option(
+    '--min-duration <ms>',
+    'Minimum cue duration in milliseconds (extends shorter cues)',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--max-duration <ms>',
+    'Maximum cue duration in milliseconds (trims longer cues)',
+    (val) => parseFloat(val),
+  )
+  .option('--min-gap <ms>', 'Minimum gap between cues in milliseconds', (val) =>
+    parseFloat(val),
+  )
+  .option(
+    '--gap-mode <mode>',
+    'Gaps shorter than --min-gap: close them or widen them (close, enforce)',
+  )
+  .option(
+    '--max-cps <number>',
+    'Maximum reading speed in characters per second (extends faster cues)',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--max-chars <number>',
+    'Maximum characters per line (breaks longer lines)',
+    (val) => parseInt(val, 10),
+  )
+  .option(
+    '--max-width <px>',
+    'Maximum line width in pixels, estimated from the font size',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--max-lines <number>',
+    'Maximum lines per cue when wrapping (default: 2)',
+    (val) => parseInt(val, 10),
+  )
+  .option(
+    '--line-balance <mode>',
+    'Breaking of long lines (bottom-heavy, top-heavy, greedy)',
+  )
+  .option(
+    '--line-overflow <mode>',
+    'Cues with more than --max-lines lines: report or split them (report, split)',
+  )
+  .option(
+    '--line-break <rule>',
+    'Line breaking rules: at spaces, or also between CJK characters with kinsoku (western, cjk)',
+  )
+  .option(
+    '--regroup',
+    'Regroup the words of .json transcripts into cues of --max-chars and --max-lines',
+  )
+  .option(
+    '--regroup-pause <ms>',
+    'Longest pause between words of one cue when regrouping (default: 500)',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--merge-gap <ms>',
+    'Merge cues up to milliseconds apart while the text fits --max-chars, --max-lines and --max-cps',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--split-lines <number>',
+    'Maximum lines per cue (splits longer cues at sentence or clause ends)',
+    (val) => parseInt(val, 10),
+  )
+  .option(
+    '--split-duration <ms>',
+    'Maximum cue duration in milliseconds (splits longer cues at sentence or clause ends)',
+    (val) => parseFloat(val),
+  )
+  .option(
+    '--track-placement <placement>',
+    'Placement of each input track, repeat once per input',
+    collectOption(parsePlacementOption),
+  )
+  .option(
+    '--track-language <lang>',
+    'Caption language of each input track, repeat once per input',
+    collectOption((val) => val),
+  )
   .option('--config <file>', 'Path to config file (overrides auto-discovery)')
   .option('-q, --quiet', 'Suppress all output except errors')
-  .action((input, options) => {
+  .action((inputs, options) => {
     // Set quiet mode before any logging
     if (options.quiet) {
       setQuiet(true)
     }
 
     // Process the CLI command using the extracted core logic
-    const result = processCliCommand(input, options as CliCommandOptions)
+    const result = processCliCommand(inputs, options as CliCommandOptions)
+
+    if (!result.success) {
+      process.exit(1)
+    }
+  })
+
+program
+  .command('reverse')
+  .description('Convert FCPXML titles and captions back to SRT')
+  .argument('<input>', 'Input FCPXML file (.fcpxml or .xml)')
+  .option('-o, --output <file>', 'Output SRT file (default: <input>.srt)')
+  .option('-q, --quiet', 'Suppress all output except errors')
+  .action((input, options) => {
+    if (options.quiet) {
+      setQuiet(true)
+    }
+
+    const result = processReverseCommand(
+      input,
+      options as ReverseCommandOptions,
+    )
+
+    if (!result.success) {
+      process.exit(1)
+    }
+  })
+
+program
+  .command('normalize')
+  .description('Rewrite an SRT file in clean canonical form')
+  .argument('<input>', 'Input SRT file')
+  .option(
+    '-o, --output <file>',
+    'Output SRT file, may be the input file (default: <input>.normalized.srt)',
+  )
+  .option('--crlf', 'Write CRLF (Windows) line endings instead of LF')
+  .option('--bom', 'Start the file with a UTF-8 byte order mark')
+  .option('-q, --quiet', 'Suppress all output except errors')
+  .action((input, options) => {
+    if (options.quiet) {
+      setQuiet(true)
+    }
+
+    const result = processNormalizeCommand(
+      input,
+      options as NormalizeCommandOptions,
+    )
 
     if (!result.success) {
       process.exit(1)
@@ -23,6 +23,13 @@ describe('Config merging', () => {
     strokeColor: DEFAULT_CONFIG.strokeColor,
     strokeWidth: DEFAULT_CONFIG.strokeWidth,
     formatVersion: DEFAULT_CONFIG.formatVersion,
+    placement: DEFAULT_CONFIG.placement,
+    outputMode: DEFAULT_CONFIG.outputMode,
+    captionFormat: DEFAULT_CONFIG.captionFormat,
+    captionLanguage: DEFAULT_CONFIG.captionLanguage,
+    overlap: DEFAULT_CONFIG.overlap,
+    storyline: DEFAULT_CONFIG.storyline,
+    quantize: DEFAULT_CONFIG.quantize,
     ...overrides,
   })
 
@@ -100,7 +107,40 @@ describe('Config merging', () => {
         bg: '#00FF00FF',
         strokeColor: '#0000FFFF',
         strokeWidth: 5,
-        formatVersion: '1.13',
+        formatVersion: '1.11',
+        placement: { x: '50%', y: 900 },
+        outputMode: 'captions',
+        captionFormat: 'SRT',
+        captionLanguage: 'ja',
+        overlap: 'merge',
+        storyline: 'titles',
+        quantize: 'snap',
+        video: 'interview.mov',
+        videoDuration: 60000,
+        videoFps: 25,
+        shift: -500,
+        scale: 1.001,
+        retime: { from: 25, to: 23.976 },
+        sync: [
+          { cue: 1, timeMs: 5000 },
+          { cue: 250, timeMs: 4803200 },
+        ],
+        minDuration: 833,
+        maxDuration: 7000,
+        minGap: 83,
+        gapMode: 'enforce',
+        maxCps: 17,
+        maxChars: 42,
+        maxWidth: 1600,
+        maxLines: 3,
+        lineBalance: 'top-heavy',
+        lineOverflow: 'split',
+        lineBreak: 'cjk',
+        splitLines: 2,
+        splitDuration: 6000,
+        mergeGap: 250,
+        regroup: true,
+        regroupPause: 700,
       }
 
       const result = mergeConfig(cliOptions, configFile)
@@ -110,6 +150,55 @@ describe('Config merging', () => {
   })
 
   describe('Special cases', () => {
+    it('should apply timecode options from config file', () => {
+      const cliOptions = createCliOptions()
+      const configFile: ConfigFile = {
+        startTimecode: '01:00:00:00',
+        srtZeroTimecode: 0,
+      }
+
+      const result = mergeConfig(cliOptions, configFile)
+
+      expect(result.startTimecode).toBe('01:00:00:00')
+      expect(result.srtZeroTimecode).toBe(0)
+    })
+
+    it('should keep timecode options from CLI over config file', () => {
+      const cliOptions = createCliOptions({ startTimecode: '10:00:00:00' })
+      const configFile: ConfigFile = { startTimecode: '01:00:00:00' }
+
+      const result = mergeConfig(cliOptions, configFile)
+
+      expect(result.startTimecode).toBe('10:00:00:00')
+    })
+
+    it('should apply dropFrame from config file when flag is not passed', () => {
+      const cliOptions = createCliOptions({ fps: 29.97 })
+      const configFile: ConfigFile = { dropFrame: true }
+
+      const result = mergeConfig(cliOptions, configFile)
+
+      expect(result.dropFrame).toBe(true)
+    })
+
+    it('should apply stripTags from config file when flag is not passed', () => {
+      const cliOptions = createCliOptions()
+      const configFile: ConfigFile = { stripTags: true }
+
+      const result = mergeConfig(cliOptions, configFile)
+
+      expect(result.stripTags).toBe(true)
+    })
+
+    it('should keep dropFrame from CLI over config file', () => {
+      const cliOptions = createCliOptions({ dropFrame: true })
+      const configFile: ConfigFile = { dropFrame: false }
+
+      const result = mergeConfig(cliOptions, configFile)
+
+      expect(result.dropFrame).toBe(true)
+    })
+
     it('should handle strokeWidth = 0 from config file', () => {
       const cliOptions = createCliOptions({ strokeWidth: 5 }) // Non-default
       const configFile: ConfigFile = {
@@ -216,7 +305,7 @@ describe('Config merging', () => {
         bg: '#00FF00FF',
         strokeColor: '#0000FFFF',
         strokeWidth: 10,
-        formatVersion: '1.13',
+        formatVersion: '1.11',
       })
       const configFile: ConfigFile = {
         title: 'Config Title',
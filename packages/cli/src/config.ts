@@ -1,9 +1,27 @@
+import type {
+  CaptionFormat,
+  FrameRateConversion,
+  GapMode,
+  LineBalance,
+  LineBreakRule,
+  LineOverflow,
+  OutputMode,
+  OverlapMode,
+  Placement,
+  QuantizeMode,
+  Storyline,
+  SyncPoint,
+} from '@srt2fcpx/core'
+
 /**
  * Configuration file interface
  */
 export interface ConfigFile {
   title?: string
   fps?: number
+  dropFrame?: boolean
+  startTimecode?: string | number
+  srtZeroTimecode?: string | number
   width?: number
   height?: number
   font?: string
@@ -14,6 +32,53 @@ export interface ConfigFile {
   strokeColor?: string
   strokeWidth?: number
   formatVersion?: string
+  placement?: Placement
+  stripTags?: boolean
+  outputMode?: OutputMode
+  captionFormat?: CaptionFormat
+  captionLanguage?: string
+  overlap?: OverlapMode
+  storyline?: Storyline
+  quantize?: QuantizeMode
+  video?: string
+  videoDuration?: number
+  videoFps?: number
+  shift?: number
+  scale?: number
+  retime?: FrameRateConversion
+  sync?: SyncPoint[]
+  minDuration?: number
+  maxDuration?: number
+  minGap?: number
+  gapMode?: GapMode
+  maxCps?: number
+  maxChars?: number
+  maxWidth?: number
+  maxLines?: number
+  lineBalance?: LineBalance
+  lineOverflow?: LineOverflow
+  lineBreak?: LineBreakRule
+  splitLines?: number
+  splitDuration?: number
+  mergeGap?: number
+  regroup?: boolean
+  regroupPause?: number
+  tracks?: TrackConfig[]
+}
+
+/**
+ * Per-track overrides in a config file, one entry per input file
+ */
+export interface TrackConfig {
+  font?: string
+  size?: number
+  face?: string
+  color?: string
+  bg?: string
+  strokeColor?: string
+  strokeWidth?: number
+  placement?: Placement
+  captionLanguage?: string
 }
 
 /**
@@ -22,6 +87,9 @@ export interface ConfigFile {
 export interface CliOptions {
   title: string
   fps: number
+  dropFrame?: boolean
+  startTimecode?: string | number
+  srtZeroTimecode?: string | number
   width: number
   height: number
   font: string
@@ -32,6 +100,37 @@ export interface CliOptions {
   strokeColor: string
   strokeWidth: number
   formatVersion: string
+  placement: Placement
+  stripTags?: boolean
+  outputMode: OutputMode
+  captionFormat: CaptionFormat
+  captionLanguage: string
+  overlap: OverlapMode
+  storyline: Storyline
+  quantize: QuantizeMode
+  video?: string
+  videoDuration?: number
+  videoFps?: number
+  shift?: number
+  scale?: number
+  retime?: FrameRateConversion
+  sync?: SyncPoint[]
+  minDuration?: number
+  maxDuration?: number
+  minGap?: number
+  gapMode?: GapMode
+  maxCps?: number
+  maxChars?: number
+  maxWidth?: number
+  maxLines?: number
+  lineBalance?: LineBalance
+  lineOverflow?: LineOverflow
+  lineBreak?: LineBreakRule
+  splitLines?: number
+  splitDuration?: number
+  mergeGap?: number
+  regroup?: boolean
+  regroupPause?: number
 }
 
 /**
@@ -40,6 +139,9 @@ export interface CliOptions {
 export const DEFAULT_CONFIG = {
   title: 'Converted from SRT',
   fps: 24,
+  dropFrame: false,
+  startTimecode: 0,
+  srtZeroTimecode: undefined, // No default: follows startTimecode
   width: 1920,
   height: 1080,
   font: 'Helvetica',
@@ -49,7 +151,38 @@ export const DEFAULT_CONFIG = {
   bg: '#00000000',
   strokeColor: '#000000FF',
   strokeWidth: 0,
-  formatVersion: '1.8',
+  formatVersion: '1.13',
+  placement: 'middle',
+  stripTags: false,
+  outputMode: 'titles',
+  captionFormat: 'ITT',
+  captionLanguage: 'en',
+  overlap: 'lanes',
+  storyline: 'gap',
+  quantize: 'floor',
+  video: undefined, // No default: titles connect to a gap clip
+  videoDuration: undefined,
+  videoFps: undefined, // No default: follows fps
+  shift: 0,
+  scale: 1,
+  retime: undefined,
+  sync: undefined,
+  minDuration: undefined, // No default: cleanup limits are off
+  maxDuration: undefined,
+  minGap: undefined,
+  gapMode: undefined, // No default: closes short gaps
+  maxCps: undefined,
+  maxChars: undefined, // No default: lines are not wrapped
+  maxWidth: undefined,
+  maxLines: undefined, // No default: 2 lines when wrapping
+  lineBalance: undefined,
+  lineOverflow: undefined,
+  lineBreak: undefined, // No default: breaks only at spaces
+  splitLines: undefined, // No default: cues are not split
+  splitDuration: undefined,
+  mergeGap: undefined, // No default: cues are not merged
+  regroup: false,
+  regroupPause: undefined, // No default: 500ms when regrouping
 } as const
 
 /**
@@ -69,6 +202,9 @@ export function mergeConfig(
   const mergedOptions = {
     title: cliOptions.title,
     fps: cliOptions.fps,
+    dropFrame: cliOptions.dropFrame,
+    startTimecode: cliOptions.startTimecode,
+    srtZeroTimecode: cliOptions.srtZeroTimecode,
     width: cliOptions.width,
     height: cliOptions.height,
     font: cliOptions.font,
@@ -79,29 +215,63 @@ export function mergeConfig(
     strokeColor: cliOptions.strokeColor,
     strokeWidth: cliOptions.strokeWidth,
     formatVersion: cliOptions.formatVersion,
+    placement: cliOptions.placement,
+    stripTags: cliOptions.stripTags,
+    outputMode: cliOptions.outputMode,
+    captionFormat: cliOptions.captionFormat,
+    captionLanguage: cliOptions.captionLanguage,
+    overlap: cliOptions.overlap,
+    storyline: cliOptions.storyline,
+    quantize: cliOptions.quantize,
+    video: cliOptions.video,
+    videoDuration: cliOptions.videoDuration,
+    videoFps: cliOptions.videoFps,
+    shift: cliOptions.shift,
+    scale: cliOptions.scale,
+    retime: cliOptions.retime,
+    sync: cliOptions.sync,
+    minDuration: cliOptions.minDuration,
+    maxDuration: cliOptions.maxDuration,
+    minGap: cliOptions.minGap,
+    gapMode: cliOptions.gapMode,
+    maxCps: cliOptions.maxCps,
+    maxChars: cliOptions.maxChars,
+    maxWidth: cliOptions.maxWidth,
+    maxLines: cliOptions.maxLines,
+    lineBalance: cliOptions.lineBalance,
+    lineOverflow: cliOptions.lineOverflow,
+    lineBreak: cliOptions.lineBreak,
+    splitLines: cliOptions.splitLines,
+    splitDuration: cliOptions.splitDuration,
+    mergeGap: cliOptions.mergeGap,
+    regroup: cliOptions.regroup,
+    regroupPause: cliOptions.regroupPause,
   }
 
   // Apply config file values if CLI options are at their defaults
   if (configFile) {
-    // Special handling for strokeWidth (check for !== undefined)
-    const specialCases = new Set(['strokeWidth'])
+    // Special handling for values where 0 is meaningful (check for !== undefined)
+    const specialCases = new Set([
+      'strokeWidth',
+      'startTimecode',
+      'srtZeroTimecode',
+    ])
 
     for (const [key, defaultValue] of Object.entries(defaults)) {
       const configKey = key as keyof ConfigFile
       const configValue = configFile[configKey]
       const mergedKey = key as keyof typeof mergedOptions
+      // Optional CLI flags that were not passed count as defaults
+      const currentValue = mergedOptions[mergedKey] ?? defaultValue
 
       // Special case for strokeWidth: check !== undefined instead of truthy
       if (specialCases.has(key)) {
-        if (
-          mergedOptions[mergedKey] === defaultValue &&
-          configValue !== undefined
-        ) {
+        if (currentValue === defaultValue && configValue !== undefined) {
           ;(mergedOptions as Record<string, unknown>)[mergedKey] = configValue
         }
       } else {
         // Standard case: check if config value is truthy
-        if (mergedOptions[mergedKey] === defaultValue && configValue) {
+        if (currentValue === defaultValue && configValue) {
           ;(mergedOptions as Record<string, unknown>)[mergedKey] = configValue
         }
       }
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest'
+import { parseAss } from './parser'
+
+const header = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,60,&H00FFFFFF,&H000000FF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,3,0,2,10,10,10,1
+Style: Sign,Georgia,40,&H0000FFFF,&H000000FF,&H00000000,&H00000000,-1,-1,0,0,100,100,0,0,1,0,0,8,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`
+
+describe('ASS Parser', () => {
+  describe('parseAss', () => {
+    it('should parse dialogue events', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,Hello, world
+Dialogue: 0,0:00:04.00,0:00:06.00,Default,,0,0,0,,First line\\NSecond line`
+
+      const result = parseAss(ass)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toHaveLength(2)
+      expect(result.cues[0]).toMatchObject({
+        index: 1,
+        startMs: 1000,
+        endMs: 3500,
+        text: 'Hello, world',
+      })
+      expect(result.cues[1].text).toBe('First line\nSecond line')
+    })
+
+    it('should map named styles to cue styles', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Default style
+Dialogue: 0,0:00:03.00,0:00:04.00,Sign,,0,0,0,,Sign style`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].style).toEqual({
+        fontFamily: 'Arial',
+        fontSize: 60,
+        textColor: '#FFFFFFFF',
+        strokeColor: '#000000FF',
+        strokeWidth: -3,
+        alignment: 'center',
+      })
+      expect(result.cues[0].settings).toEqual({ line: '100%' })
+      expect(result.cues[1].style).toEqual({
+        fontFamily: 'Georgia',
+        fontSize: 40,
+        textColor: '#FFFF00FF',
+        bold: true,
+        italic: true,
+        alignment: 'center',
+      })
+      expect(result.cues[1].settings).toEqual({ line: '0%' })
+    })
+
+    it('should scale font sizes to the output height', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Scaled`
+
+      const result = parseAss(ass, { height: 2160 })
+
+      expect(result.cues[0].style?.fontSize).toBe(120)
+      expect(result.cues[0].style?.strokeWidth).toBe(-6)
+    })
+
+    it('should convert colors with alpha', () => {
+      const ass = `[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour
+Style: Default,Arial,20,&H80336699
+
+[Events]
+Format: Start, End, Style, Text
+Dialogue: 0:00:01.00,0:00:02.00,Default,Half transparent`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].style?.textColor).toBe('#9966337F')
+    })
+
+    it('should turn override tags into styled runs', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Plain {\\b1}bold{\\b0} and {\\i1\\c&H0000FF&}red italic{\\r} reset`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].text).toBe('Plain bold and red italic reset')
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Plain ' },
+        { text: 'bold', style: { bold: true } },
+        { text: ' and ', style: { bold: false } },
+        {
+          text: 'red italic',
+          style: { bold: false, italic: true, textColor: '#FF0000FF' },
+        },
+        { text: ' reset' },
+      ])
+    })
+
+    it('should apply font, size and outline overrides', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\fnCourier New\\fs30\\bord1\\3c&H00FF00&}Styled`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].runs).toEqual([
+        {
+          text: 'Styled',
+          style: {
+            fontFamily: 'Courier New',
+            fontSize: 30,
+            strokeWidth: -1,
+            strokeColor: '#00FF00FF',
+          },
+        },
+      ])
+    })
+
+    it('should switch named styles with \\r', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Normal {\\rSign}sign`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].runs?.[1]).toEqual({
+        text: 'sign',
+        style: {
+          fontFamily: 'Georgia',
+          fontSize: 40,
+          textColor: '#FFFF00FF',
+          bold: true,
+          italic: true,
+        },
+      })
+    })
+
+    it('should use \\an and legacy \\a for alignment', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\an7}Top left
+Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,{\\a11}Middle right`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].style?.alignment).toBe('left')
+      expect(result.cues[0].settings).toEqual({ line: '0%' })
+      expect(result.cues[1].style?.alignment).toBe('right')
+      expect(result.cues[1].settings).toEqual({ line: '50%' })
+    })
+
+    it('should handle soft breaks, hard spaces and drawings', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Soft\\nbreak\\hhere{\\p1}m 0 0 l 10 10{\\p0}`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].text).toBe('Soft break\u00A0here')
+    })
+
+    it('should ignore animated transforms', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\t(0,500,\\fs80)\\i1}Italic`
+
+      const result = parseAss(ass)
+
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Italic', style: { italic: true } },
+      ])
+    })
+
+    it('should parse SSA v4 styles', () => {
+      const ssa = `[Script Info]
+ScriptType: v4.00
+
+[V4 Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding
+Style: *Default,Tahoma,24,16777215,65535,0,0,-1,0,1,2,0,6,30,30,10,0,0
+
+[Events]
+Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: Marked=0,0:00:01.00,0:00:02.00,*Default,,0,0,0,,SSA line`
+
+      const result = parseAss(ssa)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues[0].text).toBe('SSA line')
+      expect(result.cues[0].style).toMatchObject({
+        fontFamily: 'Tahoma',
+        textColor: '#FFFFFFFF',
+        bold: true,
+        alignment: 'center',
+      })
+      expect(result.cues[0].settings).toEqual({ line: '0%' })
+    })
+
+    it('should handle BOM, CRLF and comments', () => {
+      const ass = `\uFEFF${header}; a comment\r\nComment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Hidden\r\nDialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,Shown\r\n`
+
+      const result = parseAss(ass)
+
+      expect(result.cues).toHaveLength(1)
+      expect(result.cues[0].text).toBe('Shown')
+    })
+
+    it('should fall back to Default for unknown styles', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Missing,,0,0,0,,Text`
+
+      const result = parseAss(ass)
+
+      expect(result.errors).toContain('Unknown style in cue 1: Missing')
+      expect(result.cues[0].style?.fontFamily).toBe('Arial')
+    })
+
+    it('should report invalid timestamps', () => {
+      const ass = `${header}Dialogue: 0,00:00:01,0:00:02.00,Default,,0,0,0,,Bad
+Dialogue: 0,0:00:05.00,0:00:02.00,Default,,0,0,0,,Backwards`
+
+      const result = parseAss(ass)
+
+      expect(result.cues).toHaveLength(0)
+      expect(result.errors[0]).toContain('Invalid timecode format')
+      expect(result.errors[1]).toContain('End time must be after start time')
+    })
+
+    it('should report a missing [Events] section', () => {
+      const result = parseAss('[Script Info]\nTitle: Empty')
+
+      expect(result.cues).toHaveLength(0)
+      expect(result.errors).toContain('Missing [Events] section')
+    })
+
+    it('should record empty cue text as an error', () => {
+      const ass = `${header}Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\an8}`
+
+      const result = parseAss(ass)
+
+      expect(result.cues).toHaveLength(1)
+      expect(result.errors).toContain('Empty text in cue 1')
+    })
+  })
+})
@@ -0,0 +1,611 @@
+import { numpadToSettings, numpadToTextAlignment } from '~/cue/alignment'
+import { appendRun } from '~/cue/runs'
+import type { CueStyle, CueTextRun, SrtCue, SrtParseResult } from '~/types'
+
+/**
+ * Options for parsing ASS/SSA files
+ */
+export interface AssParseOptions {
+  /**
+   * Output frame height in pixels. When set, font sizes and outline widths are
+   * scaled from the script's PlayResY to this height.
+   */
+  height?: number
+}
+
+/**
+ * A named style from the [V4+ Styles] or [V4 Styles] section
+ */
+interface AssStyle {
+  /** Text style mapped to FCPXML attributes */
+  style: CueStyle
+
+  /** Numpad alignment (1-9) */
+  alignment: number
+}
+
+/**
+ * Default field order of [V4+ Styles] when the Format line is missing
+ */
+const DEFAULT_STYLE_FORMAT = [
+  'name',
+  'fontname',
+  'fontsize',
+  'primarycolour',
+  'secondarycolour',
+  'outlinecolour',
+  'backcolour',
+  'bold',
+  'italic',
+  'underline',
+  'strikeout',
+  'scalex',
+  'scaley',
+  'spacing',
+  'angle',
+  'borderstyle',
+  'outline',
+  'shadow',
+  'alignment',
+  'marginl',
+  'marginr',
+  'marginv',
+  'encoding',
+]
+
+/**
+ * Default field order of [Events] when the Format line is missing
+ */
+const DEFAULT_EVENT_FORMAT = [
+  'layer',
+  'start',
+  'end',
+  'style',
+  'name',
+  'marginl',
+  'marginr',
+  'marginv',
+  'effect',
+  'text',
+]
+
+/**
+ * Parse Advanced SubStation Alpha (.ass) or SubStation Alpha (.ssa) content
+ *
+ * Dialogue events become cues. Each cue carries its named style as
+ * `cue.style`, and override tags (\an, \b, \i, \u, \c, \3c, \bord, \fn, \fs,
+ * \r) become styled `cue.runs` for the spans they cover.
+ *
+ * @param source ASS/SSA file content as string
+ * @param options Parse options
+ * @returns Parsed cues and any errors encountered
+ */
+export function parseAss(
+  source: string,
+  options: AssParseOptions = {},
+): SrtParseResult {
+  const cues: SrtCue[] = []
+  const errors: string[] = []
+
+  const styles = new Map<string, AssStyle>()
+  const scriptInfo = new Map<string, string>()
+  let section = ''
+  let isLegacy = false
+  let styleFormat = DEFAULT_STYLE_FORMAT
+  let eventFormat = DEFAULT_EVENT_FORMAT
+
+  const lines = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .split('\n')
+
+  // Font sizes and outlines are relative to the script resolution
+  const getScale = () => {
+    if (!options.height) {
+      return 1
+    }
+    const playResX = Number(scriptInfo.get('playresx'))
+    const playResY =
+      Number(scriptInfo.get('playresy')) ||
+      (playResX ? (playResX * 3) / 4 : 288)
+    return options.height / playResY
+  }
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim()
+
+    if (!line || line.startsWith(';')) {
+      continue
+    }
+
+    const sectionMatch = line.match(/^\[(.+)\]$/)
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase()
+      isLegacy = section === 'v4 styles'
+      continue
+    }
+
+    const separatorIndex = line.indexOf(':')
+    if (separatorIndex === -1) {
+      continue
+    }
+
+    const key = line.substring(0, separatorIndex).trim().toLowerCase()
+    const value = line.substring(separatorIndex + 1).trim()
+
+    if (section === 'script info') {
+      scriptInfo.set(key, value)
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') {
+        styleFormat = splitFormat(value)
+      } else if (key === 'style') {
+        const fields = splitFields(value, styleFormat.length)
+        const name = normalizeStyleName(fields[styleFormat.indexOf('name')])
+        styles.set(
+          name,
+          parseStyle(fields, styleFormat, isLegacy, getScale(), errors),
+        )
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = splitFormat(value)
+      } else if (key === 'dialogue') {
+        const index = cues.length + 1
+        const cue = parseDialogue(
+          value,
+          index,
+          eventFormat,
+          styles,
+          scriptInfo.get('wrapstyle') === '2',
+          getScale(),
+          errors,
+        )
+        if (cue) {
+          cues.push(cue)
+        }
+      }
+    }
+  }
+
+  if (cues.length === 0 && !lines.some((l) => /^\[events\]$/i.test(l.trim()))) {
+    errors.push('Missing [Events] section')
+  }
+
+  return { cues, errors }
+}
+
+/**
+ * Split a Format line into lower-case field names
+ */
+function splitFormat(value: string): string[] {
+  return value.split(',').map((field) => field.trim().toLowerCase())
+}
+
+/**
+ * Split a comma-separated line into a fixed number of fields
+ * (the last field keeps any remaining commas, e.g., dialogue text)
+ */
+function splitFields(value: string, count: number): string[] {
+  const fields: string[] = []
+  let rest = value
+
+  for (let i = 0; i < count - 1; i++) {
+    const commaIndex = rest.indexOf(',')
+    if (commaIndex === -1) {
+      break
+    }
+    fields.push(rest.substring(0, commaIndex).trim())
+    rest = rest.substring(commaIndex + 1)
+  }
+
+  fields.push(count === fields.length + 1 ? rest : rest.trim())
+  return fields
+}
+
+/**
+ * Style names are case-sensitive; "*Default" is an alias of "Default"
+ */
+function normalizeStyleName(name: string | undefined): string {
+  return (name ?? '').trim().replace(/^\*/, '')
+}
+
+/**
+ * Parse a Style line into FCPXML style attributes
+ */
+function parseStyle(
+  fields: string[],
+  format: string[],
+  isLegacy: boolean,
+  scale: number,
+  errors: string[],
+): AssStyle {
+  const field = (name: string) => {
+    const index = format.indexOf(name)
+    return index === -1 ? undefined : fields[index]
+  }
+
+  const style: CueStyle = {}
+
+  const fontName = field('fontname')
+  if (fontName) {
+    style.fontFamily = fontName
+  }
+
+  const fontSize = Number(field('fontsize'))
+  if (fontSize > 0) {
+    style.fontSize = roundSize(fontSize * scale)
+  }
+
+  const primaryColor = parseAssColor(field('primarycolour'))
+  if (primaryColor) {
+    style.textColor = primaryColor
+  }
+
+  // SSA calls the outline colour "TertiaryColour"
+  const outlineColor = parseAssColor(
+    field('outlinecolour') ?? field('tertiarycolour'),
+  )
+  const outline = Number(field('outline'))
+  const borderStyle = Number(field('borderstyle') ?? 1)
+  if (outlineColor && outline > 0 && borderStyle !== 3) {
+    style.strokeColor = outlineColor
+    // Negative stroke width draws the outline around filled text in FCP
+    style.strokeWidth = -roundSize(outline * scale)
+  }
+
+  if (isAssTrue(field('bold'))) {
+    style.bold = true
+  }
+  if (isAssTrue(field('italic'))) {
+    style.italic = true
+  }
+  if (isAssTrue(field('underline'))) {
+    style.underline = true
+  }
+
+  const rawAlignment = Number(field('alignment') ?? 2)
+  let alignment = isLegacy ? legacyToNumpad(rawAlignment) : rawAlignment
+  if (!(alignment >= 1 && alignment <= 9)) {
+    errors.push(`Invalid alignment in style ${field('name')}: ${rawAlignment}`)
+    alignment = 2
+  }
+  style.alignment = numpadToTextAlignment(alignment)
+
+  return { style, alignment }
+}
+
+/**
+ * Parse a Dialogue line into a cue
+ * @returns The cue, or undefined if the line is invalid
+ */
+function parseDialogue(
+  value: string,
+  index: number,
+  format: string[],
+  styles: Map<string, AssStyle>,
+  keepSoftBreaks: boolean,
+  scale: number,
+  errors: string[],
+): SrtCue | undefined {
+  const fields = splitFields(value, format.length)
+  const field = (name: string) => {
+    const fieldIndex = format.indexOf(name)
+    return fieldIndex === -1 ? undefined : fields[fieldIndex]
+  }
+
+  const startMs = parseAssTime(field('start'))
+  const endMs = parseAssTime(field('end'))
+
+  if (startMs === undefined || endMs === undefined) {
+    errors.push(`Invalid timecode format: ${value.substring(0, 50)}`)
+    return undefined
+  }
+
+  if (endMs <= startMs) {
+    errors.push(
+      `End time must be after start time in cue ${index}: ${field('start')} --> ${field('end')}`,
+    )
+    return undefined
+  }
+
+  const styleName = normalizeStyleName(field('style'))
+  let assStyle = styles.get(styleName)
+  if (!assStyle) {
+    if (styles.size > 0) {
+      errors.push(`Unknown style in cue ${index}: ${styleName}`)
+    }
+    assStyle = styles.get('Default') ?? { style: {}, alignment: 2 }
+  }
+
+  const { runs, alignment } = parseOverrideTags(
+    field('text') ?? '',
+    assStyle.alignment,
+    styles,
+    keepSoftBreaks,
+    scale,
+  )
+  const text = runs.map((run) => run.text).join('')
+
+  if (!text) {
+    errors.push(`Empty text in cue ${index}`)
+  }
+
+  const cue: SrtCue = { index, startMs, endMs, text, runs }
+
+  const style: CueStyle = {
+    ...assStyle.style,
+    alignment: numpadToTextAlignment(alignment),
+  }
+  cue.style = style
+
+  cue.settings = numpadToSettings(alignment)
+
+  return cue
+}
+
+/**
+ * Split dialogue text into styled runs by interpreting override tags
+ * @returns Runs (styles relative to the cue style) and the cue alignment
+ */
+function parseOverrideTags(
+  text: string,
+  styleAlignment: number,
+  styles: Map<string, AssStyle>,
+  keepSoftBreaks: boolean,
+  scale: number,
+): { runs: CueTextRun[]; alignment: number } {
+  const runs: CueTextRun[] = []
+  let current: CueStyle = {}
+  let alignment: number | undefined
+  let drawing = false
+
+  const pushText = (segment: string) => {
+    if (!segment || drawing) {
+      return
+    }
+    const plain = segment
+      .replace(/\\N/g, '\n')
+      .replace(/\\n/g, keepSoftBreaks ? '\n' : ' ')
+      .replace(/\\h/g, '\u00A0')
+    appendRun(runs, plain, current)
+  }
+
+  const blockRegex = /\{([^}]*)\}/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null = blockRegex.exec(text)
+
+  while (match !== null) {
+    pushText(text.substring(lastIndex, match.index))
+    lastIndex = match.index + match[0].length
+
+    // Animated transforms (\t(...)) are not supported
+    const block = match[1].replace(/\\t\([^)]*\)/g, '')
+
+    for (const segment of block.split('\\').slice(1)) {
+      const tag = parseTag(segment)
+      if (!tag) {
+        continue
+      }
+      const { name, value } = tag
+
+      switch (name) {
+        case 'an':
+          alignment ??= Number(value) || undefined
+          break
+        case 'a':
+          alignment ??= legacyToNumpad(Number(value)) || undefined
+          break
+        case 'b':
+          current = withFlag(current, 'bold', value)
+          break
+        case 'i':
+          current = withFlag(current, 'italic', value)
+          break
+        case 'u':
+          current = withFlag(current, 'underline', value)
+          break
+        case 'c':
+        case '1c': {
+          const color = parseAssColor(value)
+          current = withValue(current, 'textColor', color)
+          break
+        }
+        case '3c': {
+          const color = parseAssColor(value)
+          current = withValue(current, 'strokeColor', color)
+          break
+        }
+        case 'bord': {
+          const width = Number(value)
+          current = withValue(
+            current,
+            'strokeWidth',
+            value && Number.isFinite(width)
+              ? -roundSize(width * scale)
+              : undefined,
+          )
+          break
+        }
+        case 'fn':
+          current = withValue(current, 'fontFamily', value || undefined)
+          break
+        case 'fs': {
+          const size = Number(value)
+          current = withValue(
+            current,
+            'fontSize',
+            size > 0 ? roundSize(size * scale) : undefined,
+          )
+          break
+        }
+        case 'r':
+          // Reset to the line style, or switch to another named style
+          current = value
+            ? { ...styles.get(normalizeStyleName(value))?.style }
+            : {}
+          delete current.alignment
+          break
+        case 'p':
+          drawing = Number(value) > 0
+          break
+      }
+    }
+
+    match = blockRegex.exec(text)
+  }
+
+  pushText(text.substring(lastIndex))
+
+  // Trim surrounding whitespace of the whole text
+  if (runs.length > 0) {
+    runs[0].text = runs[0].text.replace(/^\s+/, '')
+    const last = runs[runs.length - 1]
+    last.text = last.text.replace(/\s+$/, '')
+  }
+
+  return {
+    runs: runs.filter((run) => run.text),
+    alignment:
+      alignment && alignment >= 1 && alignment <= 9
+        ? alignment
+        : styleAlignment,
+  }
+}
+
+/**
+ * Split an override tag into name and value (e.g., "fs40" -> fs, 40)
+ */
+function parseTag(segment: string): { name: string; value: string } | null {
+  const trimmed = segment.trim()
+
+  // \fn and \r take free-form names as their value
+  if (trimmed.startsWith('fn')) {
+    return { name: 'fn', value: trimmed.substring(2).trim() }
+  }
+  if (trimmed.startsWith('r')) {
+    return { name: 'r', value: trimmed.substring(1).trim() }
+  }
+
+  const match = trimmed.match(/^(\d?[a-z]+)(.*)$/i)
+  if (!match) {
+    return null
+  }
+
+  return { name: match[1].toLowerCase(), value: match[2].trim() }
+}
+
+/**
+ * Set or clear a boolean style flag from a tag value ("1"/"0" or weight)
+ */
+function withFlag(
+  style: CueStyle,
+  key: 'bold' | 'italic' | 'underline',
+  value: string,
+): CueStyle {
+  // An empty value resets the flag to the line style
+  if (value === '') {
+    const { [key]: _removed, ...rest } = style
+    return rest
+  }
+  const number = Number(value)
+  return { ...style, [key]: number === 1 || number >= 500 }
+}
+
+/**
+ * Set a style value, or reset it to the line style when undefined
+ */
+function withValue<K extends keyof CueStyle>(
+  style: CueStyle,
+  key: K,
+  value: CueStyle[K] | undefined,
+): CueStyle {
+  if (value === undefined) {
+    const { [key]: _removed, ...rest } = style
+    return rest
+  }
+  return { ...style, [key]: value }
+}
+
+/**
+ * Parse an ASS timestamp (H:MM:SS.cc) to milliseconds
+ */
+function parseAssTime(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})[.:](\d{1,3})$/)
+  if (!match) {
+    return undefined
+  }
+
+  const [, hours, minutes, seconds, fraction] = match
+  // Fraction is centiseconds in ASS, but accept milliseconds as well
+  const milliseconds = parseInt(fraction.padEnd(3, '0'), 10)
+
+  return (
+    parseInt(hours, 10) * 3600000 +
+    parseInt(minutes, 10) * 60000 +
+    parseInt(seconds, 10) * 1000 +
+    milliseconds
+  )
+}
+
+/**
+ * Convert an ASS color (&HAABBGGRR, &HBBGGRR& or SSA decimal) to #RRGGBBAA
+ * ASS alpha is inverted: 00 is opaque, FF is transparent.
+ */
+function parseAssColor(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const trimmed = value.trim()
+  let numeric: number
+
+  const hexMatch = trimmed.match(/^&H([0-9a-f]{1,8})&?$/i)
+  if (hexMatch) {
+    numeric = parseInt(hexMatch[1], 16)
+  } else if (/^-?\d+$/.test(trimmed)) {
+    numeric = Number(trimmed) >>> 0
+  } else {
+    return undefined
+  }
+
+  const hex = numeric.toString(16).padStart(8, '0')
+  const alpha = 255 - parseInt(hex.substring(0, 2), 16)
+  const blue = hex.substring(2, 4)
+  const green = hex.substring(4, 6)
+  const red = hex.substring(6, 8)
+
+  return `#${red}${green}${blue}${alpha.toString(16).padStart(2, '0')}`.toUpperCase()
+}
+
+/**
+ * ASS booleans are -1 (true) or 0 (false)
+ */
+function isAssTrue(value: string | undefined): boolean {
+  return value !== undefined && value !== '' && Number(value) !== 0
+}
+
+/**
+ * Convert legacy SSA alignment (1-3 bottom, +4 top, +8 middle) to numpad
+ */
+function legacyToNumpad(alignment: number): number {
+  const horizontal = alignment & 3
+  const vertical = alignment & 12
+  if (horizontal === 0) {
+    return 0
+  }
+  if (vertical === 4) {
+    return horizontal + 6
+  }
+  if (vertical === 8) {
+    return horizontal + 3
+  }
+  return horizontal
+}
+
+/**
+ * Round scaled sizes to two decimals
+ */
+function roundSize(value: number): number {
+  return Math.round(value * 100) / 100
+}
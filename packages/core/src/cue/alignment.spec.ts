@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import {
+  cueToNumpad,
+  numpadToSettings,
+  numpadToTextAlignment,
+} from './alignment'
+
+describe('Cue alignment', () => {
+  describe('numpadToTextAlignment', () => {
+    it('should map numpad columns to text alignment', () => {
+      expect([1, 2, 3, 4, 5, 6, 7, 8, 9].map(numpadToTextAlignment)).toEqual([
+        'left',
+        'center',
+        'right',
+        'left',
+        'center',
+        'right',
+        'left',
+        'center',
+        'right',
+      ])
+    })
+  })
+
+  describe('numpadToSettings', () => {
+    it('should map numpad rows to line settings', () => {
+      expect(numpadToSettings(2)).toEqual({ line: '100%' })
+      expect(numpadToSettings(5)).toEqual({ line: '50%' })
+      expect(numpadToSettings(9)).toEqual({ line: '0%' })
+    })
+  })
+
+  describe('cueToNumpad', () => {
+    const cue = { index: 1, startMs: 0, endMs: 1000, text: 'Text' }
+
+    it('should invert numpadToSettings and numpadToTextAlignment', () => {
+      for (let alignment = 1; alignment <= 9; alignment++) {
+        expect(
+          cueToNumpad({
+            ...cue,
+            style: { alignment: numpadToTextAlignment(alignment) },
+            settings: numpadToSettings(alignment),
+          }),
+        ).toBe(alignment)
+      }
+    })
+
+    it('should return undefined for cues without alignment', () => {
+      expect(cueToNumpad(cue)).toBeUndefined()
+      expect(cueToNumpad({ ...cue, settings: { line: '0%' } })).toBe(8)
+      // The bottom row without a text alignment is the default
+      expect(
+        cueToNumpad({ ...cue, settings: { line: '100%' } }),
+      ).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,43 @@
+import type { CueSettings, SrtCue } from '~/types'
+
+/**
+ * Horizontal text alignment of a numpad alignment (1-9, as in {\an1}-{\an9})
+ */
+export function numpadToTextAlignment(
+  alignment: number,
+): 'left' | 'center' | 'right' {
+  const column = (alignment - 1) % 3
+  return column === 0 ? 'left' : column === 2 ? 'right' : 'center'
+}
+
+/**
+ * Vertical position of a numpad alignment as cue settings
+ * (the bottom row is kept too, so that it overrides the title placement)
+ */
+export function numpadToSettings(alignment: number): CueSettings {
+  if (alignment >= 7) {
+    return { line: '0%' }
+  }
+  if (alignment >= 4) {
+    return { line: '50%' }
+  }
+  return { line: '100%' }
+}
+
+/**
+ * Numpad alignment (1-9) of a cue's text alignment and vertical position
+ * @returns undefined if the cue has neither, or only the bottom row (the
+ * default bottom center)
+ */
+export function cueToNumpad(cue: SrtCue): number | undefined {
+  const alignment = cue.style?.alignment
+  const line = cue.settings?.line
+  // Bottom ('100%') and any other line are the bottom row
+  const row = line === '0%' ? 6 : line === '50%' ? 3 : 0
+  if (!alignment && row === 0) {
+    return undefined
+  }
+
+  const column = alignment === 'left' ? 1 : alignment === 'right' ? 3 : 2
+  return row + column
+}
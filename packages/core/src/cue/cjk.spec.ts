@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { canBreakBetween, findCjkBreaks, isWideCharacter } from './cjk'
+
+describe('CJK Line Breaking', () => {
+  describe('isWideCharacter', () => {
+    it('should detect full-width characters', () => {
+      expect(isWideCharacter('あ')).toBe(true)
+      expect(isWideCharacter('漢')).toBe(true)
+      expect(isWideCharacter('한')).toBe(true)
+      expect(isWideCharacter('。')).toBe(true)
+      expect(isWideCharacter('Ａ')).toBe(true)
+      expect(isWideCharacter('a')).toBe(false)
+      expect(isWideCharacter('é')).toBe(false)
+      expect(isWideCharacter('ｱ')).toBe(false)
+    })
+  })
+
+  describe('canBreakBetween', () => {
+    it('should break next to full-width characters', () => {
+      expect(canBreakBetween('日', '本')).toBe(true)
+      expect(canBreakBetween('は', 'F')).toBe(true)
+      expect(canBreakBetween('o', 'で')).toBe(true)
+    })
+
+    it('should not break inside words in Latin script', () => {
+      expect(canBreakBetween('a', 'b')).toBe(false)
+      expect(canBreakBetween('1', '2')).toBe(false)
+    })
+
+    it('should not start a line with prohibited characters', () => {
+      for (const char of [
+        '。',
+        '、',
+        '」',
+        '）',
+        'ー',
+        'っ',
+        'ャ',
+        '！',
+        '…',
+      ]) {
+        expect(canBreakBetween('あ', char)).toBe(false)
+      }
+    })
+
+    it('should not end a line with opening brackets', () => {
+      for (const char of ['「', '（', '『', '【']) {
+        expect(canBreakBetween(char, 'あ')).toBe(false)
+      }
+    })
+  })
+
+  describe('findCjkBreaks', () => {
+    it('should find the offsets between breakable characters', () => {
+      expect(findCjkBreaks('今日は', false)).toEqual([1, 2])
+      expect(findCjkBreaks('「はい」。', false)).toEqual([2])
+      expect(findCjkBreaks('私はJohnです', false)).toEqual([1, 2, 6, 7])
+    })
+
+    it('should count characters outside the basic plane once', () => {
+      expect(findCjkBreaks('𠮷野家', false)).toEqual([2, 3])
+    })
+
+    it('should keep closing tags on the line and move opening tags', () => {
+      expect(findCjkBreaks('<i>今</i><b>日</b>', true)).toEqual([8])
+      expect(findCjkBreaks('今&amp;日', true)).toEqual([1, 6])
+    })
+  })
+})
@@ -0,0 +1,112 @@
+/**
+ * Code point ranges of full-width characters: Hangul Jamo, CJK symbols and
+ * punctuation, kana, CJK ideographs, Yi, Hangul syllables, compatibility
+ * ideographs, vertical and full-width forms, emoji and supplementary
+ * ideographs
+ */
+const WIDE_RANGES: [number, number][] = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe30, 0xfe4f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x1f300, 0x1f64f],
+  [0x1f900, 0x1f9ff],
+  [0x20000, 0x3fffd],
+]
+
+/**
+ * Characters that must not start a line (kinsoku shori): closing brackets
+ * and quotes, punctuation, prolonged sound and iteration marks, and small
+ * kana
+ */
+const NO_LINE_START = new Set(
+  Array.from(
+    ')]}）］｝〕〉》」』】〙〗〟’”｠»' +
+      '、。，．,.:;：；!?！？‼⁇⁈⁉・…‥' +
+      'ー〜～゠–ヽヾゝゞ々〻' +
+      'ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶ' +
+      'ㇰㇱㇲㇳㇴㇵㇶㇷㇸㇹㇺㇻㇼㇽㇾㇿ%％',
+  ),
+)
+
+/**
+ * Characters that must not end a line (kinsoku shori): opening brackets and
+ * quotes
+ */
+const NO_LINE_END = new Set(Array.from('([{（［｛〔〈《「『【〘〖〝‘“｟«'))
+
+/**
+ * Check if a character is full-width (CJK, kana, Hangul, full-width forms
+ * or emoji)
+ */
+export function isWideCharacter(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0
+  return WIDE_RANGES.some(([from, to]) => code >= from && code <= to)
+}
+
+/**
+ * Check if a line may break between two characters
+ *
+ * Lines break next to full-width characters, but never between two other
+ * characters (so words in Latin script stay whole), before a character that
+ * must not start a line, or after one that must not end a line.
+ */
+export function canBreakBetween(before: string, after: string): boolean {
+  if (!isWideCharacter(before) && !isWideCharacter(after)) {
+    return false
+  }
+  return !NO_LINE_START.has(after) && !NO_LINE_END.has(before)
+}
+
+/**
+ * Find the offsets where a word without spaces may break
+ * @param tagged Whether the word has SRT formatting tags: closing tags stay
+ * at the end of a line and other tags move to the start of the next
+ * @returns Offsets in the word, in ascending order
+ */
+export function findCjkBreaks(word: string, tagged: boolean): number[] {
+  const tokens = tagged
+    ? (word.match(/<[^>]*>|&#?\w+;|[\s\S]/gu) ?? [])
+    : Array.from(word)
+
+  const breaks: number[] = []
+  let offset = 0
+  let previous: string | undefined
+  let breakOffset: number | undefined
+  let opened = false
+  for (const token of tokens) {
+    const isTag = tagged && token.length > 1 && token.startsWith('<')
+    if (isTag) {
+      // Keep closing tags with the previous character
+      if (token.startsWith('</') && !opened) {
+        breakOffset = offset + token.length
+      } else {
+        opened = true
+      }
+      offset += token.length
+      continue
+    }
+
+    // Entities are narrow characters
+    const char = token.length > 1 && token.startsWith('&') ? '&' : token
+    if (
+      breakOffset !== undefined &&
+      previous !== undefined &&
+      canBreakBetween(previous, char)
+    ) {
+      breaks.push(breakOffset)
+    }
+    offset += token.length
+    previous = char
+    breakOffset = offset
+    opened = false
+  }
+  return breaks
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { cleanupCueTiming } from './cleanup'
+
+/**
+ * Create a cue from milliseconds
+ */
+function cue(
+  index: number,
+  startMs: number,
+  endMs: number,
+  text = 'Hi',
+): SrtCue {
+  return { index, startMs, endMs, text }
+}
+
+/**
+ * Start and end times of cleaned up cues
+ */
+function timeRanges(result: ReturnType<typeof cleanupCueTiming>): number[][] {
+  return result.cues.map((c) => [c.startMs, c.endMs])
+}
+
+describe('Cue Timing Cleanup', () => {
+  describe('cleanupCueTiming', () => {
+    it('should leave cues unchanged without limits', () => {
+      const cues = [cue(1, 0, 100), cue(2, 120, 200)]
+      const result = cleanupCueTiming(cues, {})
+
+      expect(timeRanges(result)).toEqual([
+        [0, 100],
+        [120, 200],
+      ])
+      expect(result.adjustments).toEqual([])
+    })
+
+    it('should not modify the input cues', () => {
+      const cues = [cue(1, 0, 100)]
+      cleanupCueTiming(cues, { minDuration: 1000 })
+
+      expect(cues[0].endMs).toBe(100)
+    })
+
+    it('should sort cues by start time', () => {
+      const result = cleanupCueTiming([cue(2, 2000, 3000), cue(1, 0, 1000)], {})
+
+      expect(result.cues.map((c) => c.index)).toEqual([1, 2])
+    })
+
+    it('should extend short cues to the minimum duration', () => {
+      const result = cleanupCueTiming([cue(1, 1000, 1200)], {
+        minDuration: 1000,
+      })
+
+      expect(timeRanges(result)).toEqual([[1000, 2000]])
+      expect(result.adjustments).toEqual([
+        'Cue 1: extended end from 00:00:01,200 to 00:00:02,000 (minimum duration 1000ms)',
+      ])
+    })
+
+    it('should not extend a cue past the next start', () => {
+      const result = cleanupCueTiming([cue(1, 0, 200), cue(2, 600, 2000)], {
+        minDuration: 1000,
+      })
+
+      expect(timeRanges(result)).toEqual([
+        [0, 600],
+        [600, 2000],
+      ])
+      expect(result.adjustments).toEqual([
+        'Cue 1: extended end from 00:00:00,200 to 00:00:00,600 (minimum duration 1000ms)',
+        'Cue 1: still shorter than 1000ms (minimum duration 1000ms): cue 2 starts at 00:00:00,600',
+      ])
+    })
+
+    it('should trim cues longer than the maximum duration', () => {
+      const result = cleanupCueTiming([cue(1, 0, 10000)], {
+        maxDuration: 7000,
+      })
+
+      expect(timeRanges(result)).toEqual([[0, 7000]])
+      expect(result.adjustments).toEqual([
+        'Cue 1: trimmed end from 00:00:10,000 to 00:00:07,000 (maximum duration 7000ms)',
+      ])
+    })
+
+    it('should extend cues read faster than the maximum CPS', () => {
+      // 40 characters at 20 CPS need 2 seconds; tags and line breaks are
+      // not counted
+      const text = '<i>Twenty characters!!!</i>\ntwenty characters!!!'
+      const result = cleanupCueTiming([cue(1, 0, 1000, text)], { maxCps: 20 })
+
+      expect(timeRanges(result)).toEqual([[0, 2000]])
+      expect(result.adjustments).toEqual([
+        'Cue 1: extended end from 00:00:01,000 to 00:00:02,000 (40 characters at 20 CPS)',
+      ])
+    })
+
+    it('should not extend past the maximum duration', () => {
+      const result = cleanupCueTiming([cue(1, 0, 1000, 'x'.repeat(100))], {
+        maxCps: 10,
+        maxDuration: 5000,
+      })
+
+      expect(timeRanges(result)).toEqual([[0, 5000]])
+    })
+
+    it('should close gaps shorter than the minimum gap', () => {
+      const result = cleanupCueTiming(
+        [cue(1, 0, 1000), cue(2, 1080, 2000), cue(3, 2500, 3000)],
+        { minGap: 200 },
+      )
+
+      expect(timeRanges(result)).toEqual([
+        [0, 1080],
+        [1080, 2000],
+        [2500, 3000],
+      ])
+      expect(result.adjustments).toEqual([
+        'Cue 1: extended end from 00:00:01,000 to 00:00:01,080 (closed 80ms gap to cue 2)',
+      ])
+    })
+
+    it('should widen gaps to the minimum gap when enforced', () => {
+      const result = cleanupCueTiming(
+        [cue(1, 0, 1000), cue(2, 1000, 2000), cue(3, 2050, 3000)],
+        { minGap: 80, gapMode: 'enforce' },
+      )
+
+      expect(timeRanges(result)).toEqual([
+        [0, 920],
+        [1000, 1970],
+        [2050, 3000],
+      ])
+      expect(result.adjustments).toEqual([
+        'Cue 1: trimmed end from 00:00:01,000 to 00:00:00,920 (minimum gap 80ms to cue 2)',
+        'Cue 2: trimmed end from 00:00:02,000 to 00:00:01,970 (minimum gap 80ms to cue 3)',
+      ])
+    })
+
+    it('should keep the enforced gap when extending short cues', () => {
+      const result = cleanupCueTiming([cue(1, 0, 200), cue(2, 1000, 2000)], {
+        minDuration: 1000,
+        minGap: 80,
+        gapMode: 'enforce',
+      })
+
+      expect(timeRanges(result)[0]).toEqual([0, 920])
+    })
+
+    it('should report gaps that cannot be enforced', () => {
+      const result = cleanupCueTiming([cue(1, 0, 1000), cue(2, 50, 2000)], {
+        minGap: 80,
+        gapMode: 'enforce',
+      })
+
+      expect(timeRanges(result)[0]).toEqual([0, 1000])
+      expect(result.adjustments).toEqual([
+        'Cue 1: cannot keep a 80ms gap to cue 2 without removing it',
+      ])
+    })
+
+    it('should reject invalid limits', () => {
+      expect(() => cleanupCueTiming([], { minDuration: -1 })).toThrow(
+        'Invalid minimum duration: -1',
+      )
+      expect(() => cleanupCueTiming([], { maxDuration: 0 })).toThrow(
+        'Invalid maximum duration: 0',
+      )
+      expect(() => cleanupCueTiming([], { maxCps: Number.NaN })).toThrow(
+        'Invalid maximum CPS: NaN',
+      )
+      expect(() =>
+        cleanupCueTiming([], { gapMode: 'wide' as 'close' }),
+      ).toThrow('Invalid gap mode: wide')
+      expect(() =>
+        cleanupCueTiming([], { minDuration: 2000, maxDuration: 1000 }),
+      ).toThrow(
+        'Minimum duration 2000ms is longer than maximum duration 1000ms',
+      )
+    })
+  })
+})
@@ -0,0 +1,159 @@
+import { formatSrtTimecode, stripHtmlTags } from '~/srt/parser'
+import type { SrtCue, TimingCleanupOptions } from '~/types'
+
+/**
+ * Result of cleaning up cue timing
+ */
+export interface TimingCleanupResult {
+  /** Cues sorted by start time, with new end times */
+  cues: SrtCue[]
+
+  /** One message per moved cue end, or per limit that could not be met */
+  adjustments: string[]
+}
+
+/**
+ * Check that a limit is a finite number, above zero unless zero is allowed
+ * @throws {Error} If the limit is invalid
+ */
+function validateLimit(
+  name: string,
+  value: number | undefined,
+  allowZero: boolean,
+): void {
+  if (
+    value !== undefined &&
+    (!Number.isFinite(value) || value < 0 || (value === 0 && !allowZero))
+  ) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+}
+
+/**
+ * Number of characters read on screen: tags and line breaks are not counted
+ */
+function countReadingCharacters(text: string): number {
+  return Array.from(stripHtmlTags(text).replace(/\r?\n/g, '')).length
+}
+
+/**
+ * Extend or trim cue ends to meet duration, gap and reading speed limits
+ *
+ * Cues only ever end earlier or later; start times are never moved. Short
+ * cues, and cues read faster than maxCps, are extended up to the next cue's
+ * start (less minGap when gaps are enforced), so no overlap is created. With
+ * gapMode "close", gaps shorter than minGap are closed by extending the
+ * earlier cue to the next start; with "enforce", the earlier cue is trimmed
+ * to leave minGap. When a limit cannot be met without an overlap, the cue is
+ * left as close to it as possible and the shortfall is reported.
+ *
+ * @param cues Cues of one track
+ * @param options Timing limits (none set: cues are only sorted)
+ * @returns Cues sorted by start time and one message per adjustment
+ * @throws {Error} If a limit or the gap mode is invalid
+ */
+export function cleanupCueTiming(
+  cues: SrtCue[],
+  options: TimingCleanupOptions,
+): TimingCleanupResult {
+  const {
+    minDuration,
+    maxDuration,
+    minGap,
+    gapMode = 'close',
+    maxCps,
+  } = options
+
+  validateLimit('minimum duration', minDuration, true)
+  validateLimit('maximum duration', maxDuration, false)
+  validateLimit('minimum gap', minGap, true)
+  validateLimit('maximum CPS', maxCps, false)
+  if (gapMode !== 'close' && gapMode !== 'enforce') {
+    throw new Error(`Invalid gap mode: ${gapMode}`)
+  }
+  if (
+    minDuration !== undefined &&
+    maxDuration !== undefined &&
+    minDuration > maxDuration
+  ) {
+    throw new Error(
+      `Minimum duration ${minDuration}ms is longer than maximum duration ${maxDuration}ms`,
+    )
+  }
+
+  const sorted = [...cues].sort((a, b) => a.startMs - b.startMs)
+  const adjustments: string[] = []
+
+  const result = sorted.map((original, i): SrtCue => {
+    const cue = { ...original }
+    const next = sorted[i + 1]
+    const setEnd = (endMs: number, reason: string) => {
+      adjustments.push(
+        `Cue ${cue.index}: ${endMs > cue.endMs ? 'extended' : 'trimmed'} end from ${formatSrtTimecode(cue.endMs)} to ${formatSrtTimecode(endMs)} (${reason})`,
+      )
+      cue.endMs = endMs
+    }
+
+    if (maxDuration !== undefined && cue.endMs - cue.startMs > maxDuration) {
+      setEnd(cue.startMs + maxDuration, `maximum duration ${maxDuration}ms`)
+    }
+
+    // Latest end that keeps clear of the next cue (never earlier than now)
+    const gapAfter = gapMode === 'enforce' ? (minGap ?? 0) : 0
+    const latestEnd = next
+      ? Math.max(cue.endMs, next.startMs - gapAfter)
+      : Number.POSITIVE_INFINITY
+
+    const limits: [number, string][] = []
+    if (minDuration !== undefined) {
+      limits.push([minDuration, `minimum duration ${minDuration}ms`])
+    }
+    if (maxCps !== undefined) {
+      const characters = countReadingCharacters(cue.text)
+      limits.push([
+        Math.ceil((characters * 1000) / maxCps),
+        `${characters} characters at ${maxCps} CPS`,
+      ])
+    }
+    for (const [duration, reason] of limits) {
+      const needed = Math.min(duration, maxDuration ?? duration)
+      if (cue.endMs - cue.startMs >= needed) {
+        continue
+      }
+
+      const endMs = Math.min(cue.startMs + needed, latestEnd)
+      if (endMs > cue.endMs) {
+        setEnd(endMs, reason)
+      }
+      if (next && endMs < cue.startMs + needed) {
+        adjustments.push(
+          `Cue ${cue.index}: still shorter than ${needed}ms (${reason}): cue ${next.index} starts at ${formatSrtTimecode(next.startMs)}`,
+        )
+      }
+    }
+
+    if (next && minGap) {
+      const gap = next.startMs - cue.endMs
+      const fitsMaxDuration =
+        maxDuration === undefined || next.startMs - cue.startMs <= maxDuration
+      if (gapMode === 'close' && gap > 0 && gap < minGap && fitsMaxDuration) {
+        setEnd(next.startMs, `closed ${gap}ms gap to cue ${next.index}`)
+      } else if (gapMode === 'enforce' && gap < minGap) {
+        if (next.startMs - minGap > cue.startMs) {
+          setEnd(
+            next.startMs - minGap,
+            `minimum gap ${minGap}ms to cue ${next.index}`,
+          )
+        } else {
+          adjustments.push(
+            `Cue ${cue.index}: cannot keep a ${minGap}ms gap to cue ${next.index} without removing it`,
+          )
+        }
+      }
+    }
+
+    return cue
+  })
+
+  return { cues: result, adjustments }
+}
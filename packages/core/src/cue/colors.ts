@@ -0,0 +1,24 @@
+/**
+ * Named colors (HTML 4 and TTML) as #RRGGBBAA
+ */
+export const NAMED_COLORS: Record<string, string> = {
+  transparent: '#00000000',
+  black: '#000000FF',
+  silver: '#C0C0C0FF',
+  gray: '#808080FF',
+  white: '#FFFFFFFF',
+  maroon: '#800000FF',
+  red: '#FF0000FF',
+  purple: '#800080FF',
+  fuchsia: '#FF00FFFF',
+  magenta: '#FF00FFFF',
+  green: '#008000FF',
+  lime: '#00FF00FF',
+  olive: '#808000FF',
+  yellow: '#FFFF00FF',
+  navy: '#000080FF',
+  blue: '#0000FFFF',
+  teal: '#008080FF',
+  aqua: '#00FFFFFF',
+  cyan: '#00FFFFFF',
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { mergeShortCues } from './merge'
+
+/**
+ * Create a cue from milliseconds
+ */
+function cue(
+  index: number,
+  startMs: number,
+  endMs: number,
+  text: string,
+): SrtCue {
+  return { index, startMs, endMs, text }
+}
+
+/**
+ * Number, timing and text of merged cues
+ */
+function summarize(
+  result: ReturnType<typeof mergeShortCues>,
+): [number, number, number, string][] {
+  return result.cues.map((c) => [c.index, c.startMs, c.endMs, c.text])
+}
+
+/**
+ * Cues of an auto-captioning tool, a few words each
+ */
+const fragments = [
+  cue(1, 0, 400, 'So'),
+  cue(2, 400, 900, 'what do'),
+  cue(3, 900, 1500, 'you want'),
+  cue(4, 1500, 2100, 'to do'),
+  cue(5, 2100, 2800, 'tonight?'),
+  cue(6, 4000, 4500, 'Nothing.'),
+]
+
+describe('Short Cue Merging', () => {
+  describe('mergeShortCues', () => {
+    it('should merge cues without a gap and number them again', () => {
+      const result = mergeShortCues(fragments, {})
+
+      expect(summarize(result)).toEqual([
+        [1, 0, 2800, 'So what do you want to do tonight?'],
+        [2, 4000, 4500, 'Nothing.'],
+      ])
+      expect(result.merges).toEqual(['Cues 1, 2, 3, 4 and 5 merged into cue 1'])
+    })
+
+    it('should start a new line when a line would be too long', () => {
+      const result = mergeShortCues(fragments, { maxChars: 16 })
+
+      expect(summarize(result)).toEqual([
+        [1, 0, 2100, 'So what do\nyou want to do'],
+        [2, 2100, 2800, 'tonight?'],
+        [3, 4000, 4500, 'Nothing.'],
+      ])
+    })
+
+    it('should not merge into more than maxLines lines', () => {
+      const result = mergeShortCues(fragments, { maxChars: 16, maxLines: 1 })
+
+      expect(summarize(result).map(([, , , text]) => text)).toEqual([
+        'So what do',
+        'you want to do',
+        'tonight?',
+        'Nothing.',
+      ])
+      expect(result.merges).toEqual([
+        'Cues 1 and 2 merged into cue 1',
+        'Cues 3 and 4 merged into cue 2',
+      ])
+    })
+
+    it('should merge across gaps up to maxGap', () => {
+      const cues = [cue(1, 0, 1000, 'Wait.'), cue(2, 1500, 2500, 'Listen.')]
+
+      expect(summarize(mergeShortCues(cues, { maxGap: 499 }))).toEqual([
+        [1, 0, 1000, 'Wait.'],
+        [2, 1500, 2500, 'Listen.'],
+      ])
+      expect(summarize(mergeShortCues(cues, { maxGap: 500 }))).toEqual([
+        [1, 0, 2500, 'Wait. Listen.'],
+      ])
+    })
+
+    it('should not merge cues read faster than maxCps', () => {
+      const result = mergeShortCues(
+        [cue(1, 0, 500, 'Quick words'), cue(2, 500, 1000, 'and more')],
+        { maxCps: 20 },
+      )
+
+      // 20 characters in 1 second
+      expect(summarize(result)).toEqual([[1, 0, 1000, 'Quick words and more']])
+      expect(
+        mergeShortCues(
+          [cue(1, 0, 500, 'Quick words'), cue(2, 500, 1000, 'and more!')],
+          { maxCps: 20 },
+        ).cues,
+      ).toHaveLength(2)
+    })
+
+    it('should sort cues and keep the earliest start and latest end', () => {
+      const result = mergeShortCues(
+        [cue(7, 1000, 1500, 'world'), cue(3, 0, 2000, 'Hello')],
+        {},
+      )
+
+      expect(summarize(result)).toEqual([[1, 0, 2000, 'Hello world']])
+      expect(result.merges).toEqual(['Cues 3 and 7 merged into cue 1'])
+    })
+
+    it('should join full-width text without a space', () => {
+      const result = mergeShortCues(
+        [cue(1, 0, 500, '今日は'), cue(2, 500, 1000, 'いい天気')],
+        {},
+      )
+
+      expect(summarize(result)).toEqual([[1, 0, 1000, '今日はいい天気']])
+    })
+
+    it('should merge styled runs', () => {
+      const result = mergeShortCues(
+        [
+          {
+            ...cue(1, 0, 500, 'Loud'),
+            runs: [{ text: 'Loud', style: { bold: true } }],
+          },
+          cue(2, 500, 1000, 'quiet'),
+        ],
+        {},
+      )
+
+      expect(result.cues[0].text).toBe('Loud quiet')
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Loud ', style: { bold: true } },
+        { text: 'quiet' },
+      ])
+    })
+
+    it('should read the tags of a cue merged with styled runs', () => {
+      const result = mergeShortCues(
+        [
+          {
+            ...cue(1, 0, 500, 'Loud'),
+            runs: [{ text: 'Loud', style: { bold: true } }],
+          },
+          cue(2, 500, 1000, '<i>soft</i>'),
+        ],
+        {},
+      )
+
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Loud ', style: { bold: true } },
+        { text: 'soft', style: { italic: true } },
+      ])
+    })
+
+    it('should reject invalid options', () => {
+      expect(() => mergeShortCues([], { maxGap: -1 })).toThrow(
+        'Invalid maximum gap: -1',
+      )
+      expect(() => mergeShortCues([], { maxChars: 0 })).toThrow(
+        'Invalid maximum characters: 0',
+      )
+      expect(() => mergeShortCues([], { maxLines: 1.5 })).toThrow(
+        'Invalid maximum lines: 1.5',
+      )
+      expect(() => mergeShortCues([], { maxCps: Number.NaN })).toThrow(
+        'Invalid maximum CPS: NaN',
+      )
+    })
+  })
+})
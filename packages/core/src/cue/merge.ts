@@ -0,0 +1,166 @@
+import { isWideCharacter } from '~/cue/cjk'
+import { appendRun } from '~/cue/runs'
+import { parseSrtTextRuns, stripHtmlTags } from '~/srt/parser'
+import type { CueMergeOptions, CueTextRun, SrtCue } from '~/types'
+
+/**
+ * Result of merging short cues
+ */
+export interface CueMergeResult {
+  /** Cues sorted by start time with short cues merged, numbered from 1 */
+  cues: SrtCue[]
+
+  /** One message per cue merged from several */
+  merges: string[]
+}
+
+/**
+ * Check that a limit is a finite number, above zero unless zero is allowed
+ * (and whole if required)
+ * @throws {Error} If the limit is invalid
+ */
+function validateLimit(
+  name: string,
+  value: number | undefined,
+  allowZero: boolean,
+  whole = false,
+): void {
+  if (
+    value !== undefined &&
+    (!Number.isFinite(value) ||
+      value < 0 ||
+      (value === 0 && !allowZero) ||
+      (whole && !Number.isInteger(value)))
+  ) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+}
+
+/**
+ * Visible characters of each line of cue text (tags are not counted)
+ */
+function measureLines(text: string): number[] {
+  return stripHtmlTags(text)
+    .split('\n')
+    .map((line) => Array.from(line).length)
+}
+
+/**
+ * Separator between the text of a cue and the text before it: a space if
+ * the text fits on the same line within maxChars, otherwise a line break
+ * (full-width text is joined without a space)
+ */
+function chooseSeparator(
+  before: string,
+  after: string,
+  maxChars?: number,
+): string {
+  const last = Array.from(stripHtmlTags(before)).pop() ?? ''
+  const first = Array.from(stripHtmlTags(after))[0] ?? ''
+  const space = isWideCharacter(last) && isWideCharacter(first) ? '' : ' '
+  const lines = measureLines(before)
+  const joined =
+    lines[lines.length - 1] + space.length + (measureLines(after)[0] ?? 0)
+  return maxChars !== undefined && joined > maxChars ? '\n' : space
+}
+
+/**
+ * Merge a cue into the cue before it (a cue without runs is read as SRT
+ * text when the other has runs)
+ */
+function mergeCue(cue: SrtCue, next: SrtCue, separator: string): SrtCue {
+  const merged: SrtCue = {
+    ...cue,
+    text: `${cue.text}${separator}${next.text}`,
+    endMs: Math.max(cue.endMs, next.endMs),
+  }
+  if (cue.runs || next.runs) {
+    const runs: CueTextRun[] = []
+    for (const run of cue.runs ?? parseSrtTextRuns(cue.text)) {
+      appendRun(runs, run.text, run.style ?? {})
+    }
+    if (separator) {
+      appendRun(runs, separator, runs[runs.length - 1]?.style ?? {})
+    }
+    for (const run of next.runs ?? parseSrtTextRuns(next.text)) {
+      appendRun(runs, run.text, run.style ?? {})
+    }
+    merged.runs = runs
+  }
+  return merged
+}
+
+/**
+ * List cue numbers: "3 and 4", "3, 4 and 5"
+ */
+function formatCueList(indexes: number[]): string {
+  return indexes.length > 1
+    ? `${indexes.slice(0, -1).join(', ')} and ${indexes[indexes.length - 1]}`
+    : `${indexes[0]}`
+}
+
+/**
+ * Merge fragmented short cues into longer ones
+ *
+ * Cues are sorted by start time, and each cue is merged into the one before
+ * it when the gap between them is at most maxGap and the merged text still
+ * fits maxChars, maxLines and maxCps. Merged text continues on the same line
+ * while it fits maxChars and starts a new line otherwise. A merged cue runs
+ * from the earliest start to the latest end and keeps the style and settings
+ * of its first cue, and all cues are numbered again from 1.
+ *
+ * @param cues Cues of one track
+ * @param options Gap and text limits
+ * @returns Merged cues and one message per merged cue
+ * @throws {Error} If a limit is invalid
+ */
+export function mergeShortCues(
+  cues: SrtCue[],
+  options: CueMergeOptions,
+): CueMergeResult {
+  const { maxGap = 0, maxChars, maxLines = 2, maxCps } = options
+  validateLimit('maximum gap', maxGap, true)
+  validateLimit('maximum characters', maxChars, false)
+  validateLimit('maximum lines', maxLines, false, true)
+  validateLimit('maximum CPS', maxCps, false)
+
+  const fits = (cue: SrtCue) => {
+    const lines = measureLines(cue.text)
+    const characters = lines.reduce((sum, count) => sum + count, 0)
+    return (
+      lines.length <= maxLines &&
+      (maxChars === undefined || Math.max(...lines) <= maxChars) &&
+      (maxCps === undefined ||
+        characters * 1000 <= maxCps * (cue.endMs - cue.startMs))
+    )
+  }
+
+  const sorted = [...cues].sort((a, b) => a.startMs - b.startMs)
+  const groups: { cue: SrtCue; indexes: number[] }[] = []
+  for (const cue of sorted) {
+    const group = groups[groups.length - 1]
+    if (group && cue.startMs - group.cue.endMs <= maxGap) {
+      const merged = mergeCue(
+        group.cue,
+        cue,
+        chooseSeparator(group.cue.text, cue.text, maxChars),
+      )
+      if (fits(merged)) {
+        group.cue = merged
+        group.indexes.push(cue.index)
+        continue
+      }
+    }
+    groups.push({ cue, indexes: [cue.index] })
+  }
+
+  const merges: string[] = []
+  const merged = groups.map(({ cue, indexes }, i) => {
+    if (indexes.length > 1) {
+      merges.push(`Cues ${formatCueList(indexes)} merged into cue ${i + 1}`)
+    }
+    return { ...cue, index: i + 1 }
+  })
+
+  return { cues: merged, merges }
+}
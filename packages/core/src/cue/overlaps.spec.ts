@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { resolveOverlaps } from './overlaps'
+
+/**
+ * Create a cue from seconds
+ */
+function cue(
+  index: number,
+  start: number,
+  end: number,
+  text = `Cue ${index}`,
+): SrtCue {
+  return { index, startMs: start * 1000, endMs: end * 1000, text }
+}
+
+describe('Overlap Resolution', () => {
+  describe('resolveOverlaps', () => {
+    const overlapping = [cue(1, 0, 4), cue(2, 2, 6), cue(3, 3, 5), cue(4, 6, 8)]
+
+    it('should sort cues that do not overlap into one lane', () => {
+      const result = resolveOverlaps([cue(2, 3, 4), cue(1, 1, 3)])
+
+      expect(result.lanes).toEqual([[cue(1, 1, 3), cue(2, 3, 4)]])
+      expect(result.decisions).toEqual([])
+    })
+
+    it('should move overlapping cues to the first free lane', () => {
+      const result = resolveOverlaps([...overlapping, cue(5, 4.5, 7)], 'lanes')
+
+      expect(result.lanes.map((lane) => lane.map((c) => c.index))).toEqual([
+        [1, 5],
+        [2, 4],
+        [3],
+      ])
+      expect(result.decisions).toEqual([
+        'Cue 2 overlaps cue 1: moved to lane 2',
+        'Cue 3 overlaps cue 1: moved to lane 3',
+        'Cue 4 overlaps cue 5: moved to lane 2',
+      ])
+    })
+
+    it('should trim each cue to the start of the next cue', () => {
+      const result = resolveOverlaps(
+        [cue(1, 0, 4), cue(2, 2, 6), cue(3, 2, 3), cue(4, 6, 8)],
+        'trim',
+      )
+
+      expect(result.lanes[0].map((c) => [c.index, c.startMs, c.endMs])).toEqual(
+        [
+          [1, 0, 2000],
+          [3, 2000, 3000],
+          [4, 6000, 8000],
+        ],
+      )
+      expect(result.decisions).toEqual([
+        'Cue 1 overlaps cue 2: trimmed end from 00:00:04,000 to 00:00:02,000',
+        'Cue 2 starts together with cue 3: dropped',
+      ])
+    })
+
+    it('should merge chains of overlapping cues', () => {
+      const result = resolveOverlaps(overlapping, 'merge')
+
+      expect(result.lanes).toEqual([
+        [
+          { index: 1, startMs: 0, endMs: 6000, text: 'Cue 1\nCue 2\nCue 3' },
+          cue(4, 6, 8),
+        ],
+      ])
+      expect(result.decisions).toEqual([
+        'Cues 1, 2, 3 overlap: merged into one cue at 00:00:00,000 --> 00:00:06,000',
+      ])
+    })
+
+    it('should keep styled runs when merging', () => {
+      const styled: SrtCue = {
+        ...cue(2, 1, 3, 'Loud'),
+        runs: [{ text: 'Loud', style: { bold: true } }],
+      }
+
+      const result = resolveOverlaps(
+        [cue(1, 0, 2, '<i>Quiet</i>'), styled],
+        'merge',
+      )
+
+      expect(result.lanes[0][0].runs).toEqual([
+        { text: 'Quiet', style: { italic: true } },
+        { text: '\n' },
+        { text: 'Loud', style: { bold: true } },
+      ])
+    })
+
+    it('should reject overlaps with every overlapping cue listed', () => {
+      expect(() => resolveOverlaps(overlapping, 'reject')).toThrow(
+        'Overlapping cues: cue 2 (00:00:02,000 --> 00:00:06,000) overlaps cue 1 (00:00:00,000 --> 00:00:04,000); cue 3 (00:00:03,000 --> 00:00:05,000) overlaps cue 2 (00:00:02,000 --> 00:00:06,000)',
+      )
+      expect(resolveOverlaps([cue(1, 0, 2), cue(2, 2, 3)], 'reject')).toEqual({
+        lanes: [[cue(1, 0, 2), cue(2, 2, 3)]],
+        decisions: [],
+      })
+    })
+
+    it('should throw on an invalid mode', () => {
+      expect(() => resolveOverlaps([], 'stack' as unknown as 'lanes')).toThrow(
+        'Invalid overlap mode: stack',
+      )
+    })
+  })
+})
@@ -0,0 +1,193 @@
+import { formatSrtTimecode, parseSrtTextRuns } from '~/srt/parser'
+import type { CueTextRun, OverlapMode, SrtCue } from '~/types'
+
+/**
+ * Result of resolving overlapping cues
+ */
+export interface OverlapResolution {
+  /**
+   * Cues of each lane sorted by start time; only the "lanes" mode returns
+   * more than one lane, and the first lane is never empty unless there are
+   * no cues
+   */
+  lanes: SrtCue[][]
+
+  /** One message per overlap describing how it was resolved */
+  decisions: string[]
+}
+
+/**
+ * Describe a cue time range for overlap messages
+ */
+function formatRange(cue: SrtCue): string {
+  return `${formatSrtTimecode(cue.startMs)} --> ${formatSrtTimecode(cue.endMs)}`
+}
+
+/**
+ * Put each cue on the first lane that is free at its start time
+ */
+function assignLanes(cues: SrtCue[]): OverlapResolution {
+  const lanes: SrtCue[][] = [[]]
+  const decisions: string[] = []
+
+  for (const cue of cues) {
+    const laneIndex = lanes.findIndex(
+      (lane) => lane.length === 0 || lane[lane.length - 1].endMs <= cue.startMs,
+    )
+    if (laneIndex === 0) {
+      lanes[0].push(cue)
+      continue
+    }
+
+    const blocking = lanes[0][lanes[0].length - 1]
+    if (laneIndex === -1) {
+      lanes.push([cue])
+    } else {
+      lanes[laneIndex].push(cue)
+    }
+    decisions.push(
+      `Cue ${cue.index} overlaps cue ${blocking.index}: moved to lane ${laneIndex === -1 ? lanes.length : laneIndex + 1}`,
+    )
+  }
+
+  return { lanes, decisions }
+}
+
+/**
+ * End each cue where the next cue starts (cues starting together with the
+ * next cue are dropped)
+ */
+function trimOverlaps(cues: SrtCue[]): OverlapResolution {
+  const trimmed: SrtCue[] = []
+  const decisions: string[] = []
+
+  cues.forEach((cue, i) => {
+    const next = cues[i + 1]
+    if (!next || next.startMs >= cue.endMs) {
+      trimmed.push(cue)
+    } else if (next.startMs > cue.startMs) {
+      trimmed.push({ ...cue, endMs: next.startMs })
+      decisions.push(
+        `Cue ${cue.index} overlaps cue ${next.index}: trimmed end from ${formatSrtTimecode(cue.endMs)} to ${formatSrtTimecode(next.startMs)}`,
+      )
+    } else {
+      decisions.push(
+        `Cue ${cue.index} starts together with cue ${next.index}: dropped`,
+      )
+    }
+  })
+
+  return { lanes: [trimmed], decisions }
+}
+
+/**
+ * Join a group of overlapping cues into one cue with one line per cue
+ */
+function mergeCues(group: SrtCue[]): SrtCue {
+  const [first] = group
+  const merged: SrtCue = {
+    ...first,
+    endMs: Math.max(...group.map((cue) => cue.endMs)),
+    text: group.map((cue) => cue.text).join('\n'),
+  }
+
+  // Keep styled runs (other cues are split at their formatting tags)
+  if (group.some((cue) => cue.runs)) {
+    merged.runs = group.flatMap((cue, i): CueTextRun[] => [
+      ...(i > 0 ? [{ text: '\n' }] : []),
+      ...(cue.runs ?? parseSrtTextRuns(cue.text)),
+    ])
+  }
+
+  return merged
+}
+
+/**
+ * Merge chains of overlapping cues into single cues
+ */
+function mergeOverlaps(cues: SrtCue[]): OverlapResolution {
+  const merged: SrtCue[] = []
+  const decisions: string[] = []
+
+  let group: SrtCue[] = []
+  let groupEndMs = 0
+  const flush = () => {
+    if (group.length === 0) {
+      return
+    }
+    const cue = mergeCues(group)
+    merged.push(cue)
+    if (group.length > 1) {
+      decisions.push(
+        `Cues ${group.map((c) => c.index).join(', ')} overlap: merged into one cue at ${formatRange(cue)}`,
+      )
+    }
+  }
+
+  for (const cue of cues) {
+    if (group.length > 0 && cue.startMs < groupEndMs) {
+      group.push(cue)
+      groupEndMs = Math.max(groupEndMs, cue.endMs)
+    } else {
+      flush()
+      group = [cue]
+      groupEndMs = cue.endMs
+    }
+  }
+  flush()
+
+  return { lanes: [merged], decisions }
+}
+
+/**
+ * Throw if any cue starts before an earlier cue ends
+ * @throws {Error} Listing every overlapping cue
+ */
+function rejectOverlaps(cues: SrtCue[]): OverlapResolution {
+  const overlaps: string[] = []
+
+  let latest: SrtCue | undefined
+  for (const cue of cues) {
+    if (latest && cue.startMs < latest.endMs) {
+      overlaps.push(
+        `cue ${cue.index} (${formatRange(cue)}) overlaps cue ${latest.index} (${formatRange(latest)})`,
+      )
+    }
+    if (!latest || cue.endMs > latest.endMs) {
+      latest = cue
+    }
+  }
+
+  if (overlaps.length > 0) {
+    throw new Error(`Overlapping cues: ${overlaps.join('; ')}`)
+  }
+
+  return { lanes: [cues], decisions: [] }
+}
+
+/**
+ * Resolve overlapping cues, which cannot share a lane in FCP
+ * @param cues Subtitle cues in any order
+ * @param mode Move overlapping cues to extra lanes, trim, merge or reject them
+ * @returns Cues per lane (sorted by start time) and one message per overlap
+ * @throws {Error} If the mode is invalid, or overlaps are rejected
+ */
+export function resolveOverlaps(
+  cues: SrtCue[],
+  mode: OverlapMode = 'lanes',
+): OverlapResolution {
+  const sorted = [...cues].sort((a, b) => a.startMs - b.startMs)
+
+  switch (mode) {
+    case 'lanes':
+      return assignLanes(sorted)
+    case 'trim':
+      return trimOverlaps(sorted)
+    case 'merge':
+      return mergeOverlaps(sorted)
+    case 'reject':
+      return rejectOverlaps(sorted)
+    default:
+      throw new Error(`Invalid overlap mode: ${mode}`)
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { quantizeCues } from './quantize'
+
+/**
+ * Create a cue from milliseconds
+ */
+function cue(index: number, startMs: number, endMs: number): SrtCue {
+  return { index, startMs, endMs, text: `Cue ${index}` }
+}
+
+/**
+ * Start and end frames of quantized cues
+ */
+function frameRanges(result: ReturnType<typeof quantizeCues>): number[][] {
+  return result.frames.map((f) => [f.startFrame, f.endFrame])
+}
+
+describe('Cue Quantization', () => {
+  describe('quantizeCues', () => {
+    // At 25 fps a frame lasts 40ms
+    const cues = [cue(1, 1010, 2030), cue(2, 2030, 3050), cue(3, 3070, 4000)]
+
+    it('should floor absolute start and end times by default', () => {
+      const result = quantizeCues(cues, 25)
+
+      expect(frameRanges(result)).toEqual([
+        [25, 50],
+        [50, 76],
+        [76, 100],
+      ])
+      expect(result.frames[0].cue).toBe(cues[0])
+      expect(result.warnings).toEqual([])
+    })
+
+    it('should not lose a frame to a floored duration', () => {
+      // Cue 2 lasts 25.5 frames: a floored duration of 25 frames from frame
+      // 50 would end at frame 75, one frame before cue 3 starts
+      const [, second, third] = quantizeCues(cues, 25).frames
+
+      expect(second.endFrame).toBe(76)
+      expect(third.startFrame).toBe(76)
+    })
+
+    it('should round to the nearest frame', () => {
+      expect(frameRanges(quantizeCues(cues, 25, 'nearest'))).toEqual([
+        [25, 51],
+        [51, 76],
+        [77, 100],
+      ])
+    })
+
+    it('should round up', () => {
+      expect(frameRanges(quantizeCues(cues, 25, 'ceil'))).toEqual([
+        [26, 51],
+        [51, 77],
+        [77, 100],
+      ])
+    })
+
+    it('should snap ends less than a frame before the next start', () => {
+      const result = quantizeCues(cues, 25, 'snap')
+
+      expect(frameRanges(result)).toEqual([
+        [25, 51],
+        [51, 77],
+        [77, 100],
+      ])
+    })
+
+    it('should not snap ends a frame or more before the next start', () => {
+      const result = quantizeCues(
+        [cue(1, 0, 960), cue(2, 1000, 2000)],
+        25,
+        'snap',
+      )
+
+      expect(frameRanges(result)).toEqual([
+        [0, 24],
+        [25, 50],
+      ])
+    })
+
+    it('should extend cues that collapse to zero frames', () => {
+      const result = quantizeCues([cue(1, 1000, 1030)], 25)
+
+      expect(frameRanges(result)).toEqual([[25, 26]])
+      expect(result.warnings).toEqual([
+        'Cue 1 (00:00:01,000 --> 00:00:01,030) collapses to zero frames: extended to one frame',
+      ])
+    })
+
+    it('should drop collapsed cues when the next cue starts on their frame', () => {
+      const result = quantizeCues(
+        [cue(1, 1000, 1010), cue(2, 1020, 2000), cue(3, 2000, 2010)],
+        25,
+      )
+
+      expect(frameRanges(result)).toEqual([
+        [25, 50],
+        [50, 51],
+      ])
+      expect(result.frames.map((frame) => frame.cue.index)).toEqual([2, 3])
+      expect(result.warnings).toEqual([
+        'Cue 1 (00:00:01,000 --> 00:00:01,010) collapses to zero frames: dropped, the next cue starts on its frame',
+        'Cue 3 (00:00:02,000 --> 00:00:02,010) collapses to zero frames: extended to one frame',
+      ])
+    })
+
+    it('should throw on an invalid mode', () => {
+      expect(() =>
+        quantizeCues(cues, 25, 'round' as unknown as 'floor'),
+      ).toThrow('Invalid quantize mode: round')
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import {
+  type FrameRounding,
+  getFrameDuration,
+  millisecondsToFrames,
+} from '~/fcpxml/time'
+import { formatSrtTimecode } from '~/srt/parser'
+import type { QuantizeMode, SrtCue } from '~/types'
+
+/**
+ * A cue with its boundaries in whole frames
+ */
+export interface CueFrames {
+  cue: SrtCue
+
+  /** First frame of the cue, counted from SRT time zero */
+  startFrame: number
+
+  /** Frame after the last frame of the cue */
+  endFrame: number
+}
+
+/**
+ * Result of rounding cue boundaries to frames
+ */
+export interface QuantizeResult {
+  /** Frames of each cue, in the order of the cues (without dropped cues) */
+  frames: CueFrames[]
+
+  /** One message per cue that collapsed to zero frames (extended or dropped) */
+  warnings: string[]
+}
+
+/**
+ * Frame rounding of a quantize mode
+ * @throws {Error} If the mode is invalid
+ */
+function getFrameRounding(mode: QuantizeMode): FrameRounding {
+  switch (mode) {
+    case 'floor':
+    case 'nearest':
+    case 'ceil':
+      return mode
+    case 'snap':
+      return 'nearest'
+    default:
+      throw new Error(`Invalid quantize mode: ${mode}`)
+  }
+}
+
+/**
+ * Round the start and end of each cue to frames
+ *
+ * Start and end are rounded as absolute times, so a cue never gains or loses
+ * a frame from rounding its duration, and cues that meet in time meet on the
+ * same frame. With "snap", an end less than a frame away from the next cue's
+ * start becomes that start, closing one-frame gaps and overlaps. A cue that
+ * would end on its start frame is extended to one frame, or dropped if the
+ * next cue starts on that frame (so cues of the lane never overlap).
+ *
+ * @param cues Cues of one lane, sorted by start time
+ * @param frameRate Timeline frame rate
+ * @param mode Rounding of cue boundaries (default: "floor")
+ * @returns Frames of each cue and one message per collapsed cue
+ * @throws {Error} If the frame rate or mode is invalid
+ */
+export function quantizeCues(
+  cues: SrtCue[],
+  frameRate: number,
+  mode: QuantizeMode = 'floor',
+): QuantizeResult {
+  const rounding = getFrameRounding(mode)
+  const frameDuration = getFrameDuration(frameRate)
+  const frameMs = (1000 * frameDuration.numerator) / frameDuration.denominator
+  const warnings: string[] = []
+
+  const frames = cues.flatMap((cue, i): CueFrames[] => {
+    const next = cues[i + 1]
+    const endMs =
+      mode === 'snap' && next && Math.abs(next.startMs - cue.endMs) < frameMs
+        ? next.startMs
+        : cue.endMs
+
+    const startFrame = millisecondsToFrames(
+      cue.startMs,
+      frameDuration,
+      rounding,
+    )
+    const endFrame = millisecondsToFrames(endMs, frameDuration, rounding)
+    if (endFrame > startFrame) {
+      return [{ cue, startFrame, endFrame }]
+    }
+
+    const collapsed = `Cue ${cue.index} (${formatSrtTimecode(cue.startMs)} --> ${formatSrtTimecode(cue.endMs)}) collapses to zero frames`
+    if (
+      next &&
+      millisecondsToFrames(next.startMs, frameDuration, rounding) <= startFrame
+    ) {
+      warnings.push(`${collapsed}: dropped, the next cue starts on its frame`)
+      return []
+    }
+    warnings.push(`${collapsed}: extended to one frame`)
+    return [{ cue, startFrame, endFrame: startFrame + 1 }]
+  })
+
+  return { frames, warnings }
+}
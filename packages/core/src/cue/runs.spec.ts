@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import type { CueTextRun } from '~/types'
+import { appendRun, isSameStyle } from './runs'
+
+describe('Cue runs', () => {
+  describe('isSameStyle', () => {
+    it('should compare styles by value', () => {
+      expect(isSameStyle({ bold: true }, { bold: true })).toBe(true)
+      expect(isSameStyle({}, {})).toBe(true)
+      expect(isSameStyle({ bold: true }, {})).toBe(false)
+      expect(isSameStyle({ bold: false }, { bold: true })).toBe(false)
+    })
+  })
+
+  describe('appendRun', () => {
+    it('should merge text with the same style', () => {
+      const runs: CueTextRun[] = []
+
+      appendRun(runs, 'Hello ', {})
+      appendRun(runs, 'bold', { bold: true })
+      appendRun(runs, ' text', { bold: true })
+      appendRun(runs, '!', {})
+
+      expect(runs).toEqual([
+        { text: 'Hello ' },
+        { text: 'bold text', style: { bold: true } },
+        { text: '!' },
+      ])
+    })
+
+    it('should copy the style of new runs', () => {
+      const runs: CueTextRun[] = []
+      const style = { italic: true }
+
+      appendRun(runs, 'a', style)
+      style.italic = false
+
+      expect(runs[0].style).toEqual({ italic: true })
+    })
+  })
+})
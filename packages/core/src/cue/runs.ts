@@ -0,0 +1,33 @@
+import type { CueStyle, CueTextRun } from '~/types'
+
+/**
+ * Compare two cue styles
+ */
+export function isSameStyle(a: CueStyle, b: CueStyle): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  for (const key of keys) {
+    if (a[key as keyof CueStyle] !== b[key as keyof CueStyle]) {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Append text to the last run if it has the same style, otherwise start a
+ * new run (runs without overrides have no style)
+ */
+export function appendRun(
+  runs: CueTextRun[],
+  text: string,
+  style: CueStyle,
+): void {
+  const last = runs[runs.length - 1]
+  if (last && isSameStyle(last.style ?? {}, style)) {
+    last.text += text
+  } else {
+    runs.push(
+      Object.keys(style).length > 0 ? { text, style: { ...style } } : { text },
+    )
+  }
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { splitLongCues } from './split'
+
+/**
+ * Create a cue from milliseconds
+ */
+function cue(
+  index: number,
+  startMs: number,
+  endMs: number,
+  text: string,
+): SrtCue {
+  return { index, startMs, endMs, text }
+}
+
+/**
+ * Timing and text of split cues
+ */
+function parts(
+  result: ReturnType<typeof splitLongCues>,
+): [number, number, string][] {
+  return result.cues.map((c) => [c.startMs, c.endMs, c.text])
+}
+
+describe('Long Cue Splitting', () => {
+  describe('splitLongCues', () => {
+    it('should leave cues within the limits unchanged', () => {
+      const cues = [cue(1, 0, 4000, 'Short line\nAnother one')]
+      const result = splitLongCues(cues, { maxLines: 2, maxDuration: 5000 })
+
+      expect(result.cues[0]).toBe(cues[0])
+      expect(result.splits).toEqual([])
+    })
+
+    it('should split long cues at the end of a sentence', () => {
+      const result = splitLongCues(
+        [cue(3, 1000, 9000, 'We should leave now. The storm is coming.')],
+        { maxDuration: 5000 },
+      )
+
+      // 21 and 20 characters share 8 seconds
+      expect(parts(result)).toEqual([
+        [1000, 5098, 'We should leave now.'],
+        [5098, 9000, 'The storm is coming.'],
+      ])
+      expect(result.cues.map((c) => c.index)).toEqual([3, 3])
+      expect(result.splits).toEqual([
+        'Cue 3 lasts 8000ms (max 5000ms): split into 2 cues',
+      ])
+    })
+
+    it('should split at sentence ends, then at clause ends', () => {
+      const sentences = cue(
+        1,
+        0,
+        7100,
+        'First sentence here. Second sentence follows, with a clause. Third one!',
+      )
+
+      // 100ms per character
+      expect(parts(splitLongCues([sentences], { maxDuration: 5000 }))).toEqual([
+        [0, 2100, 'First sentence here.'],
+        [2100, 7100, 'Second sentence follows, with a clause. Third one!'],
+      ])
+      expect(parts(splitLongCues([sentences], { maxDuration: 3000 }))).toEqual([
+        [0, 2100, 'First sentence here.'],
+        [2100, 4600, 'Second sentence follows,'],
+        [4600, 7100, 'with a clause. Third one!'],
+      ])
+    })
+
+    it('should prefer the end of a clause to a space between words', () => {
+      const result = splitLongCues(
+        [cue(1, 0, 10000, 'If you see him again, tell him I said hello')],
+        { maxDuration: 6000 },
+      )
+
+      expect(parts(result).map(([, , text]) => text)).toEqual([
+        'If you see him again,',
+        'tell him I said hello',
+      ])
+    })
+
+    it('should not split off a few words at a natural boundary', () => {
+      const result = splitLongCues(
+        [
+          cue(
+            1,
+            0,
+            10000,
+            'Well, I never thought that we would ever see this place again in our lives',
+          ),
+        ],
+        { maxDuration: 5000 },
+      )
+
+      expect(parts(result).map(([, , text]) => text)).toEqual([
+        'Well, I never thought that',
+        'we would ever see this',
+        'place again in our lives',
+      ])
+    })
+
+    it('should split cues with too many lines, keeping line breaks', () => {
+      const result = splitLongCues(
+        [
+          cue(
+            2,
+            0,
+            10000,
+            'I went to the store\nyesterday and bought\nsome milk. Then I went\nhome for the weekend.',
+          ),
+        ],
+        { maxLines: 2 },
+      )
+
+      expect(parts(result).map(([, , text]) => text)).toEqual([
+        'I went to the store\nyesterday and bought',
+        'some milk. Then I went\nhome for the weekend.',
+      ])
+      expect(result.splits).toEqual([
+        'Cue 2 has 4 lines (max 2): split into 2 cues',
+      ])
+    })
+
+    it('should split Japanese text after sentence punctuation', () => {
+      const result = splitLongCues(
+        [cue(1, 0, 6000, '今日は暑いですね。明日は雨が降るそうです。')],
+        { maxDuration: 4000 },
+      )
+
+      expect(parts(result)).toEqual([
+        [0, 2571, '今日は暑いですね。'],
+        [2571, 6000, '明日は雨が降るそうです。'],
+      ])
+    })
+
+    it('should close and reopen tags across split cues', () => {
+      const result = splitLongCues(
+        [cue(1, 0, 10000, '<i>One two three four, five six seven eight</i>')],
+        { maxDuration: 5000 },
+      )
+
+      expect(parts(result).map(([, , text]) => text)).toEqual([
+        '<i>One two three four,</i>',
+        '<i>five six seven eight</i>',
+      ])
+    })
+
+    it('should split styled runs', () => {
+      const result = splitLongCues(
+        [
+          {
+            ...cue(1, 0, 10000, 'Loud words, quiet ones'),
+            runs: [
+              { text: 'Loud words,', style: { bold: true } },
+              { text: ' quiet ones' },
+            ],
+          },
+        ],
+        { maxDuration: 6000 },
+      )
+
+      expect(result.cues.map((c) => [c.text, c.runs])).toEqual([
+        ['Loud words,', [{ text: 'Loud words,', style: { bold: true } }]],
+        ['quiet ones', [{ text: 'quiet ones' }]],
+      ])
+    })
+
+    it('should report cues that cannot be split within the limits', () => {
+      const cues = [cue(5, 0, 10000, 'Supercalifragilistic')]
+      const result = splitLongCues(cues, { maxDuration: 5000 })
+
+      expect(result.cues[0]).toBe(cues[0])
+      expect(result.splits).toEqual([
+        'Cue 5 lasts 10000ms (max 5000ms): cannot be split within the limits',
+      ])
+    })
+
+    it('should reject invalid options', () => {
+      expect(() => splitLongCues([], { maxLines: 0 })).toThrow(
+        'Invalid maximum lines: 0',
+      )
+      expect(() => splitLongCues([], { maxLines: 1.5 })).toThrow(
+        'Invalid maximum lines: 1.5',
+      )
+      expect(() => splitLongCues([], { maxDuration: -1 })).toThrow(
+        'Invalid maximum duration: -1',
+      )
+    })
+  })
+})
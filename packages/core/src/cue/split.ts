@@ -0,0 +1,364 @@
+import { findCjkBreaks } from '~/cue/cjk'
+import { appendRun } from '~/cue/runs'
+import { closeSplitTags, divideCueTime } from '~/cue/wrap'
+import { stripHtmlTags } from '~/srt/parser'
+import type { CueSplitOptions, CueTextRun, SrtCue } from '~/types'
+
+/**
+ * Result of splitting long cues
+ */
+export interface CueSplitResult {
+  /** Cues with long cues split (the parts of a split cue keep its number) */
+  cues: SrtCue[]
+
+  /** One message per split cue, or per cue that could not be split */
+  splits: string[]
+}
+
+/**
+ * Kind of place where a cue may be split, from the most to the least natural
+ */
+type BoundaryRank = 'sentence' | 'clause' | 'line' | 'word'
+
+/**
+ * Place where a cue may be split, replacing the text [start, end) (the
+ * spaces between two parts, or nothing between two full-width characters)
+ */
+interface Boundary {
+  start: number
+  end: number
+  rank: BoundaryRank
+}
+
+/**
+ * Kinds of boundary from the most to the least natural
+ */
+const RANKS: BoundaryRank[] = ['sentence', 'clause', 'line', 'word']
+
+/**
+ * Cost of splitting at each kind of boundary
+ */
+const RANK_PENALTY: Record<BoundaryRank, number> = {
+  sentence: 0,
+  clause: 0.5,
+  line: 1,
+  word: 2,
+}
+
+/**
+ * Cost of a part per squared difference from the even length (as a fraction
+ * of it), so that a natural boundary is not chosen for a part of a few words
+ */
+const UNEVEN_PENALTY = 4
+
+/**
+ * Punctuation that ends a sentence or a clause
+ */
+const SENTENCE_END = /[.!?…。！？‼⁇⁈⁉]$/u
+const CLAUSE_END = /[,;:、，；：]$/u
+
+/**
+ * Closing quotes and brackets after the punctuation of a sentence or clause
+ */
+const TRAILING_CLOSERS = /["'”’»)\]}）］」』】]+$/u
+
+/**
+ * Check that a limit is a finite number above zero (and whole if required)
+ * @throws {Error} If the limit is invalid
+ */
+function validateLimit(
+  name: string,
+  value: number | undefined,
+  whole: boolean,
+): void {
+  if (
+    value !== undefined &&
+    (!Number.isFinite(value) ||
+      value <= 0 ||
+      (whole && !Number.isInteger(value)))
+  ) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+}
+
+/**
+ * Count the characters of text that share the cue time (tags and line
+ * breaks do not count, but spaces at either end do)
+ */
+function countCharacters(text: string): number {
+  return Array.from(text.replace(/<[^>]*>|\n/g, '')).length
+}
+
+/**
+ * Rank a boundary by the punctuation before it
+ */
+function rankBoundary(before: string, fallback: 'line' | 'word'): BoundaryRank {
+  const text = stripHtmlTags(before).replace(TRAILING_CLOSERS, '')
+  if (SENTENCE_END.test(text)) {
+    return 'sentence'
+  }
+  return CLAUSE_END.test(text) ? 'clause' : fallback
+}
+
+/**
+ * Find the places where cue text may be split: at spaces and line breaks,
+ * and between full-width characters where a line may break
+ * @param tagged Whether the text has SRT formatting tags (spaces inside tags
+ * do not split the text)
+ * @returns Boundaries in ascending order
+ */
+function findBoundaries(source: string, tagged: boolean): Boundary[] {
+  const boundaries: Boundary[] = []
+  const addCharacterBreaks = (word: string, offset: number) => {
+    for (const at of findCjkBreaks(word, tagged)) {
+      const start = offset + at
+      boundaries.push({
+        start,
+        end: start,
+        rank: rankBoundary(source.slice(0, start), 'word'),
+      })
+    }
+  }
+
+  const spaces = tagged ? /[ \t\n\u3000]+(?![^<>]*>)/g : /[ \t\n\u3000]+/g
+  let wordStart = 0
+  for (const match of source.matchAll(spaces)) {
+    const start = match.index ?? 0
+    const end = start + match[0].length
+    addCharacterBreaks(source.slice(wordStart, start), wordStart)
+    if (start > 0 && end < source.length) {
+      boundaries.push({
+        start,
+        end,
+        rank: rankBoundary(
+          source.slice(0, start),
+          match[0].includes('\n') ? 'line' : 'word',
+        ),
+      })
+    }
+    wordStart = end
+  }
+  addCharacterBreaks(source.slice(wordStart), wordStart)
+  return boundaries
+}
+
+/**
+ * Runs of the text [start, end) of all runs
+ */
+function sliceRuns(
+  runs: CueTextRun[],
+  start: number,
+  end: number,
+): CueTextRun[] {
+  const sliced: CueTextRun[] = []
+  let offset = 0
+  for (const run of runs) {
+    const text = run.text.slice(
+      Math.max(0, start - offset),
+      Math.max(0, end - offset),
+    )
+    if (text) {
+      appendRun(sliced, text, run.style ?? {})
+    }
+    offset += run.text.length
+  }
+  return sliced
+}
+
+/**
+ * Choose where to split cue text among the given boundaries: the fewest
+ * parts within the limits, then the most natural boundaries and the most
+ * even parts
+ * @returns Boundaries to split at (none if the text is within the limits),
+ * or undefined if the text cannot be split within the limits
+ */
+function chooseAmong(
+  source: string,
+  boundaries: Boundary[],
+  duration: number,
+  maxLines: number,
+  maxDuration: number,
+): Boundary[] | undefined {
+  const points: Boundary[] = [
+    { start: 0, end: 0, rank: 'sentence' },
+    ...boundaries,
+    { start: source.length, end: source.length, rank: 'sentence' },
+  ]
+  const total = countCharacters(source)
+
+  // A part's time includes the spaces where it is split from the next
+  const characters = (i: number, j: number) =>
+    countCharacters(source.slice(points[i].end, points[j].end))
+  const fits = (i: number, j: number) =>
+    source.slice(points[i].end, points[j].start).split('\n').length <=
+      maxLines &&
+    (total > 0 ? (duration * characters(i, j)) / total : 0) <= maxDuration
+
+  // The longest part that fits at each step gives the fewest parts
+  let fewestParts = 0
+  for (let i = 0; i < points.length - 1; fewestParts++) {
+    let next = i + 1
+    while (next + 1 < points.length && fits(i, next + 1)) {
+      next++
+    }
+    if (!fits(i, next)) {
+      return undefined
+    }
+    i = next
+  }
+  const target = total / fewestParts
+
+  // Fewest parts, then lowest cost, of the text up to each point
+  const best: ({ parts: number; cost: number; previous: number } | null)[] =
+    points.map(() => null)
+  best[0] = { parts: 0, cost: 0, previous: -1 }
+  for (let j = 1; j < points.length; j++) {
+    for (let i = 0; i < j; i++) {
+      const before = best[i]
+      if (!before || !fits(i, j)) {
+        continue
+      }
+
+      const parts = before.parts + 1
+      const cost =
+        before.cost +
+        (target > 0
+          ? UNEVEN_PENALTY * (characters(i, j) / target - 1) ** 2
+          : 0) +
+        (j < points.length - 1 ? RANK_PENALTY[points[j].rank] : 0)
+      const current = best[j]
+      if (
+        !current ||
+        parts < current.parts ||
+        (parts === current.parts && cost < current.cost)
+      ) {
+        best[j] = { parts, cost, previous: i }
+      }
+    }
+  }
+
+  const chosen: Boundary[] = []
+  for (
+    let i = best[points.length - 1]?.previous ?? 0;
+    i > 0;
+    i = best[i]?.previous ?? 0
+  ) {
+    chosen.unshift(points[i])
+  }
+  return chosen
+}
+
+/**
+ * Choose where to split cue text: only at sentence ends if the parts then fit
+ * the limits, otherwise also at clause ends, then at line breaks, and only
+ * then between words
+ * @returns Boundaries to split at, or undefined if the text cannot be split
+ * within the limits
+ */
+function chooseBoundaries(
+  source: string,
+  boundaries: Boundary[],
+  duration: number,
+  maxLines: number,
+  maxDuration: number,
+): Boundary[] | undefined {
+  for (let level = 0; level < RANKS.length; level++) {
+    const allowed = RANKS.slice(0, level + 1)
+    const chosen = chooseAmong(
+      source,
+      boundaries.filter((boundary) => allowed.includes(boundary.rank)),
+      duration,
+      maxLines,
+      maxDuration,
+    )
+    if (chosen) {
+      return chosen
+    }
+  }
+  return undefined
+}
+
+/**
+ * Split cues that have too many lines or last too long into consecutive
+ * cues
+ *
+ * A long cue is split at the ends of sentences if its parts then fit
+ * maxLines and maxDuration, otherwise also at the ends of clauses, then at
+ * line breaks, and only if none of these fit between words (or between
+ * full-width characters). It is split into as few cues as possible at those
+ * boundaries, preferring the most natural ones and parts of even length. Its
+ * time is divided in proportion to the characters of each part. Existing
+ * line breaks within a part are kept.
+ *
+ * @param cues Subtitle cues
+ * @param options Cue limits
+ * @returns Cues with long cues split and one message per long cue
+ * @throws {Error} If a limit is invalid
+ */
+export function splitLongCues(
+  cues: SrtCue[],
+  options: CueSplitOptions,
+): CueSplitResult {
+  const { maxLines = Infinity, maxDuration = Infinity } = options
+  validateLimit('maximum lines', options.maxLines, true)
+  validateLimit('maximum duration', options.maxDuration, false)
+
+  const splits: string[] = []
+  const split = cues.flatMap((cue) => {
+    const source = cue.runs
+      ? cue.runs.map((run) => run.text).join('')
+      : cue.text
+    const lineCount = source.split('\n').length
+    const duration = cue.endMs - cue.startMs
+    const reasons: string[] = []
+    if (lineCount > maxLines) {
+      reasons.push(`has ${lineCount} lines (max ${maxLines})`)
+    }
+    if (duration > maxDuration) {
+      reasons.push(`lasts ${duration}ms (max ${maxDuration}ms)`)
+    }
+    if (reasons.length === 0) {
+      return [cue]
+    }
+
+    const boundaries = chooseBoundaries(
+      source,
+      findBoundaries(source, !cue.runs),
+      duration,
+      maxLines,
+      maxDuration,
+    )
+    if (!boundaries) {
+      splits.push(
+        `Cue ${cue.index} ${reasons.join(' and ')}: cannot be split within the limits`,
+      )
+      return [cue]
+    }
+
+    const ranges = [0, ...boundaries.map((boundary) => boundary.end)].map(
+      (start, i): [number, number] => [
+        start,
+        boundaries[i]?.start ?? source.length,
+      ],
+    )
+    const parts = cue.runs
+      ? ranges.map(([start, end]) => {
+          const runs = sliceRuns(cue.runs ?? [], start, end)
+          return { text: runs.map((run) => run.text).join(''), runs }
+        })
+      : closeSplitTags(
+          ranges.map(([start, end]) => source.slice(start, end)),
+        ).map((text) => ({ text }))
+
+    // Each part's time includes the spaces where it is split from the next
+    const weights = ranges.map(([start], i) =>
+      countCharacters(source.slice(start, ranges[i + 1]?.[0] ?? source.length)),
+    )
+    splits.push(
+      `Cue ${cue.index} ${reasons.join(' and ')}: split into ${parts.length} cues`,
+    )
+    return divideCueTime(cue, parts, weights)
+  })
+
+  return { cues: split, splits }
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import {
+  type CueTimingResult,
+  resolveTimingMap,
+  transformCueTiming,
+} from './timing'
+
+/**
+ * Create a cue from milliseconds
+ */
+function cue(index: number, startMs: number, endMs: number): SrtCue {
+  return { index, startMs, endMs, text: `Cue ${index}` }
+}
+
+/**
+ * Start and end times of transformed cues
+ */
+function times({ cues }: CueTimingResult): number[][] {
+  return cues.map((c) => [c.startMs, c.endMs])
+}
+
+describe('Cue Timing', () => {
+  const cues = [
+    cue(1, 1000, 2000),
+    cue(2, 60000, 62500),
+    cue(3, 120000, 121000),
+  ]
+
+  describe('transformCueTiming', () => {
+    it('should return the same cues without options', () => {
+      expect(transformCueTiming(cues, {})).toEqual({ cues, adjustments: [] })
+      expect(transformCueTiming(cues, { scale: 1, shift: 0 }).cues).toBe(cues)
+    })
+
+    it('should shift cues by a constant offset', () => {
+      expect(times(transformCueTiming(cues, { shift: -500 }))).toEqual([
+        [500, 1500],
+        [59500, 62000],
+        [119500, 120500],
+      ])
+    })
+
+    it('should scale cue times', () => {
+      expect(times(transformCueTiming(cues, { scale: 1.5 }))).toEqual([
+        [1500, 3000],
+        [90000, 93750],
+        [180000, 181500],
+      ])
+    })
+
+    it('should convert 25 fps timing to 23.976 and back', () => {
+      const retimed = transformCueTiming(cues, {
+        retime: { from: 25, to: 23.976 },
+      })
+
+      // Frame 1500 at 25 fps (60s) is frame 1500 at 24000/1001 fps
+      expect(times(retimed)).toEqual([
+        [1043, 2085],
+        [62563, 65169],
+        [125125, 126168],
+      ])
+      expect(
+        times(
+          transformCueTiming(retimed.cues, {
+            retime: { from: 23.976, to: 25 },
+          }),
+        ),
+      ).toEqual(times({ cues, adjustments: [] }))
+    })
+
+    it('should convert 24 fps timing to 23.976', () => {
+      const film = [cue(1, 1000, 2000), cue(2, 60000, 62000)]
+
+      expect(
+        times(transformCueTiming(film, { retime: { from: 24, to: 23.976 } })),
+      ).toEqual([
+        [1001, 2002],
+        [60060, 62062],
+      ])
+    })
+
+    it('should apply retime, scale and shift in order', () => {
+      expect(
+        times(
+          transformCueTiming([cue(1, 1000, 2000)], {
+            retime: { from: 24, to: 23.976 },
+            scale: 2,
+            shift: 1000,
+          }),
+        ),
+      ).toEqual([[3002, 5004]])
+    })
+
+    it('should sync cues to two reference cues', () => {
+      const synced = transformCueTiming(cues, {
+        sync: [
+          { cue: 1, timeMs: 3000 },
+          { cue: 3, timeMs: 241000 },
+        ],
+      })
+
+      expect(times(synced)).toEqual([
+        [3000, 5000],
+        [121000, 126000],
+        [241000, 243000],
+      ])
+    })
+    it('should look up sync reference cues in other cues', () => {
+      const synced = transformCueTiming(
+        [cue(1, 30000, 31000)],
+        {
+          sync: [
+            { cue: 1, timeMs: 0 },
+            { cue: 2, timeMs: 59000 },
+          ],
+        },
+        cues,
+      )
+
+      expect(times(synced)).toEqual([[29000, 30000]])
+    })
+
+    it('should trim cues that start before time zero', () => {
+      const shifted = transformCueTiming([cue(1, 500, 2000)], { shift: -1000 })
+
+      expect(times(shifted)).toEqual([[0, 1000]])
+      expect(shifted.adjustments).toEqual([
+        'Cue 1 (00:00:00,500 --> 00:00:02,000) starts before time zero: start trimmed to 00:00:00,000',
+      ])
+    })
+
+    it('should drop cues that end before time zero', () => {
+      const shifted = transformCueTiming(
+        [cue(1, 200, 800), cue(2, 3000, 4000)],
+        {
+          shift: -1000,
+        },
+      )
+
+      expect(times(shifted)).toEqual([[2000, 3000]])
+      expect(shifted.adjustments).toEqual([
+        'Cue 1 (00:00:00,200 --> 00:00:00,800) moves before time zero: dropped',
+      ])
+    })
+  })
+
+  describe('resolveTimingMap', () => {
+    it('should reject invalid options', () => {
+      expect(() => resolveTimingMap(cues, { scale: 0 })).toThrow(
+        'Invalid scale: 0',
+      )
+      expect(() => resolveTimingMap(cues, { shift: Number.NaN })).toThrow(
+        'Invalid shift: NaN',
+      )
+      expect(() =>
+        resolveTimingMap(cues, { retime: { from: 25, to: -1 } }),
+      ).toThrow('Invalid frame rate: -1')
+    })
+
+    it('should reject invalid sync points', () => {
+      const sync = (first: number, second: number, timeMs = 5000) =>
+        resolveTimingMap(cues, {
+          sync: [
+            { cue: first, timeMs: 0 },
+            { cue: second, timeMs },
+          ],
+        })
+
+      expect(() => sync(1, 9)).toThrow('Sync cue not found: 9')
+      expect(() => sync(1, 2, Number.NaN)).toThrow(
+        'Invalid sync time for cue 2: NaN',
+      )
+      expect(() => sync(2, 2)).toThrow(
+        'Sync cues 2 and 2 start at the same time',
+      )
+      expect(() => sync(1, 2, -5000)).toThrow(
+        'Sync times must keep cues 1 and 2 in order',
+      )
+      expect(() =>
+        resolveTimingMap(cues, {
+          shift: 100,
+          sync: [
+            { cue: 1, timeMs: 0 },
+            { cue: 2, timeMs: 5000 },
+          ],
+        }),
+      ).toThrow('Sync cannot be combined with retime, scale or shift')
+    })
+  })
+})
@@ -0,0 +1,176 @@
+import { getFrameDuration } from '~/fcpxml/time'
+import { formatSrtTimecode } from '~/srt/parser'
+import type { Srt2FcpxOptions, SrtCue } from '~/types'
+
+/**
+ * Options that change cue timing
+ */
+export type CueTimingOptions = Pick<
+  Srt2FcpxOptions,
+  'retime' | 'scale' | 'shift' | 'sync'
+>
+
+/**
+ * Result of changing cue timing
+ */
+export interface CueTimingResult {
+  /** Cues with new start and end times, without cues moved before zero */
+  cues: SrtCue[]
+
+  /** One message per cue trimmed or dropped for moving before time zero */
+  adjustments: string[]
+}
+
+/**
+ * Linear timing map: each time becomes time * factor + offsetMs
+ */
+export interface TimingMap {
+  factor: number
+  offsetMs: number
+}
+
+/**
+ * Ratio of the frame durations of two frame rates (e.g., 25 / 23.976)
+ * @throws {Error} If a frame rate is invalid
+ */
+function getFrameRateFactor(from: number, to: number): number {
+  const source = getFrameDuration(from)
+  const target = getFrameDuration(to)
+  return (
+    (target.numerator * source.denominator) /
+    (target.denominator * source.numerator)
+  )
+}
+
+/**
+ * Find the start time of a sync reference cue
+ * @throws {Error} If no cue has the number
+ */
+function getSyncCueStart(cues: SrtCue[], cueNumber: number): number {
+  const cue = cues.find((c) => c.index === cueNumber)
+  if (!cue) {
+    throw new Error(`Sync cue not found: ${cueNumber}`)
+  }
+  return cue.startMs
+}
+
+/**
+ * Resolve timing options to one linear map
+ *
+ * Without sync, cues are retimed, then scaled, then shifted. With sync, the
+ * map moves both reference cues (looked up by number in `cues`) to their
+ * target times.
+ *
+ * @param cues Cues to look up sync reference cues in
+ * @param options Timing options
+ * @returns Linear map (factor 1 and offset 0 when nothing changes)
+ * @throws {Error} If an option is invalid or sync is combined with another
+ */
+export function resolveTimingMap(
+  cues: SrtCue[],
+  options: CueTimingOptions,
+): TimingMap {
+  const { retime, scale = 1, shift = 0, sync } = options
+
+  if (!Number.isFinite(scale) || scale <= 0) {
+    throw new Error(`Invalid scale: ${scale}`)
+  }
+  if (!Number.isFinite(shift)) {
+    throw new Error(`Invalid shift: ${shift}`)
+  }
+
+  if (sync) {
+    if (retime || scale !== 1 || shift !== 0) {
+      throw new Error('Sync cannot be combined with retime, scale or shift')
+    }
+    if (sync.length !== 2) {
+      throw new Error(`Sync needs two reference cues, got ${sync.length}`)
+    }
+
+    const [first, second] = sync
+    for (const point of sync) {
+      if (!Number.isFinite(point.timeMs)) {
+        throw new Error(
+          `Invalid sync time for cue ${point.cue}: ${point.timeMs}`,
+        )
+      }
+    }
+    const firstStart = getSyncCueStart(cues, first.cue)
+    const secondStart = getSyncCueStart(cues, second.cue)
+    if (firstStart === secondStart) {
+      throw new Error(
+        `Sync cues ${first.cue} and ${second.cue} start at the same time`,
+      )
+    }
+
+    const factor = (second.timeMs - first.timeMs) / (secondStart - firstStart)
+    if (factor <= 0) {
+      throw new Error(
+        `Sync times must keep cues ${first.cue} and ${second.cue} in order`,
+      )
+    }
+    return { factor, offsetMs: first.timeMs - firstStart * factor }
+  }
+
+  const factor =
+    (retime ? getFrameRateFactor(retime.from, retime.to) : 1) * scale
+  return { factor, offsetMs: shift }
+}
+
+/**
+ * Apply a linear timing map to cues (times rounded to milliseconds)
+ *
+ * A cue that moves before time zero starts at zero instead, or is dropped if
+ * it also ends there.
+ *
+ * @returns New cues (or the same cues if the map changes nothing) and one
+ * message per trimmed or dropped cue
+ */
+export function applyTimingMap(
+  cues: SrtCue[],
+  map: TimingMap,
+): CueTimingResult {
+  if (map.factor === 1 && map.offsetMs === 0) {
+    return { cues, adjustments: [] }
+  }
+
+  const toTime = (ms: number) => Math.round(ms * map.factor + map.offsetMs)
+  const adjustments: string[] = []
+  const moved = cues.flatMap((cue): SrtCue[] => {
+    const startMs = toTime(cue.startMs)
+    const endMs = toTime(cue.endMs)
+    if (startMs >= 0) {
+      return [{ ...cue, startMs, endMs }]
+    }
+
+    const original = `Cue ${cue.index} (${formatSrtTimecode(cue.startMs)} --> ${formatSrtTimecode(cue.endMs)})`
+    if (endMs <= 0) {
+      adjustments.push(`${original} moves before time zero: dropped`)
+      return []
+    }
+    adjustments.push(
+      `${original} starts before time zero: start trimmed to ${formatSrtTimecode(0)}`,
+    )
+    return [{ ...cue, startMs: 0, endMs }]
+  })
+  return { cues: moved, adjustments }
+}
+
+/**
+ * Retime, scale and shift cues, or sync them to two reference cues
+ * @param cues Subtitle cues
+ * @param options Timing options
+ * @param referenceCues Cues to look up sync reference cues in, such as the
+ * first of several tracks (default: cues)
+ * @returns Cues with new start and end times (cues moved before time zero
+ * are trimmed to start at zero, or dropped) and one message per trimmed or
+ * dropped cue
+ * @throws {Error} If an option is invalid or a sync reference cue is missing
+ */
+export function transformCueTiming(
+  cues: SrtCue[],
+  options: CueTimingOptions,
+  referenceCues: SrtCue[] = cues,
+): CueTimingResult {
+  return applyTimingMap(cues, resolveTimingMap(referenceCues, options))
+}
@@ -0,0 +1,279 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { estimateTextWidth, wrapCueLines } from './wrap'
+
+/**
+ * Create a cue from milliseconds
+ */
+function cue(
+  index: number,
+  startMs: number,
+  endMs: number,
+  text: string,
+): SrtCue {
+  return { index, startMs, endMs, text }
+}
+
+/**
+ * Text of wrapped cues
+ */
+function texts(result: ReturnType<typeof wrapCueLines>): string[] {
+  return result.cues.map((c) => c.text)
+}
+
+describe('Cue Line Wrapping', () => {
+  describe('estimateTextWidth', () => {
+    it('should count full-width characters as 1em and others as 0.5em', () => {
+      expect(estimateTextWidth('abcd')).toBe(2)
+      expect(estimateTextWidth('日本語')).toBe(3)
+      expect(estimateTextWidth('ＡＢ😀')).toBe(3)
+    })
+  })
+
+  describe('wrapCueLines', () => {
+    it('should leave lines that fit unchanged', () => {
+      const cues = [cue(1, 0, 1000, 'Short line\nAnother one')]
+      const result = wrapCueLines(cues, { maxChars: 20 })
+
+      expect(result.cues[0]).toBe(cues[0])
+      expect(result.overflows).toEqual([])
+    })
+
+    it('should break long lines bottom-heavy by default', () => {
+      const result = wrapCueLines(
+        [cue(1, 0, 1000, 'I never thought we would see this place again')],
+        { maxChars: 30 },
+      )
+
+      expect(texts(result)).toEqual([
+        'I never thought we\nwould see this place again',
+      ])
+    })
+
+    it('should break long lines top-heavy', () => {
+      const result = wrapCueLines(
+        [cue(1, 0, 1000, 'I never thought we would see this place again')],
+        { maxChars: 30, balance: 'top-heavy' },
+      )
+
+      expect(texts(result)).toEqual([
+        'I never thought we would\nsee this place again',
+      ])
+    })
+
+    it('should fill each line with greedy breaking', () => {
+      const result = wrapCueLines(
+        [cue(1, 0, 1000, 'I never thought we would see this place again')],
+        { maxChars: 30, balance: 'greedy' },
+      )
+
+      expect(texts(result)).toEqual([
+        'I never thought we would see\nthis place again',
+      ])
+    })
+
+    it('should keep existing line breaks', () => {
+      const result = wrapCueLines(
+        [cue(1, 0, 1000, '- Where are you going?\n- Home')],
+        { maxChars: 15 },
+      )
+
+      expect(texts(result)).toEqual(['- Where\nare you going?\n- Home'])
+      expect(result.overflows).toEqual(['Cue 1 has 3 lines (max 2)'])
+    })
+
+    it('should not measure or break inside tags', () => {
+      const result = wrapCueLines(
+        [
+          cue(
+            1,
+            0,
+            1000,
+            '<font color="#ffff00">Lorem ipsum</font> <i>dolor sit</i>',
+          ),
+        ],
+        { maxChars: 12 },
+      )
+
+      expect(texts(result)).toEqual([
+        '<font color="#ffff00">Lorem ipsum</font>\n<i>dolor sit</i>',
+      ])
+    })
+
+    it('should estimate line widths from the font size', () => {
+      // 16 narrow characters at 100px are 800px wide
+      const cues = [cue(1, 0, 1000, 'Sixteen chars ok')]
+
+      expect(texts(wrapCueLines(cues, { maxWidth: 800 }, 100))).toEqual([
+        'Sixteen chars ok',
+      ])
+      expect(texts(wrapCueLines(cues, { maxWidth: 799 }, 100))).toEqual([
+        'Sixteen\nchars ok',
+      ])
+      expect(
+        texts(
+          wrapCueLines(
+            [{ ...cues[0], style: { fontSize: 50 } }],
+            { maxWidth: 799 },
+            100,
+          ),
+        ),
+      ).toEqual(['Sixteen chars ok'])
+    })
+
+    it('should wrap styled runs', () => {
+      const result = wrapCueLines(
+        [
+          {
+            ...cue(1, 0, 1000, 'Bold words and plain ones'),
+            runs: [
+              { text: 'Bold words', style: { bold: true } },
+              { text: ' and plain ones' },
+            ],
+          },
+        ],
+        { maxChars: 15 },
+      )
+
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Bold words', style: { bold: true } },
+        { text: '\nand plain ones' },
+      ])
+      expect(result.cues[0].text).toBe('Bold words\nand plain ones')
+    })
+
+    it('should report words longer than a line', () => {
+      const result = wrapCueLines(
+        [cue(3, 0, 1000, 'Supercalifragilistic word')],
+        { maxChars: 10 },
+      )
+
+      expect(texts(result)).toEqual(['Supercalifragilistic\nword'])
+      expect(result.overflows).toEqual([
+        'Cue 3: "Supercalifragilistic" does not fit on one line',
+      ])
+    })
+
+    it('should split cues with too many lines', () => {
+      const result = wrapCueLines(
+        [cue(4, 1000, 4000, 'One line\nTwo line\nLast')],
+        { maxLines: 2, overflow: 'split' },
+      )
+
+      // 16 and 4 characters share 3 seconds
+      expect(result.cues.map((c) => [c.index, c.startMs, c.endMs])).toEqual([
+        [4, 1000, 3400],
+        [4, 3400, 4000],
+      ])
+      expect(texts(result)).toEqual(['One line\nTwo line', 'Last'])
+      expect(result.overflows).toEqual([
+        'Cue 4 has 3 lines (max 2): split into 2 cues',
+      ])
+    })
+
+    it('should close and reopen tags across split cues', () => {
+      const result = wrapCueLines(
+        [cue(1, 0, 2000, '<i>First\nsecond</i> third')],
+        { maxLines: 1, overflow: 'split' },
+      )
+
+      expect(texts(result)).toEqual(['<i>First</i>', '<i>second</i> third'])
+    })
+
+    it('should split styled runs by line', () => {
+      const result = wrapCueLines(
+        [
+          {
+            ...cue(1, 0, 2000, 'Loud\nquiet'),
+            runs: [
+              { text: 'Loud\nqu', style: { bold: true } },
+              { text: 'iet' },
+            ],
+          },
+        ],
+        { maxLines: 1, overflow: 'split' },
+      )
+
+      expect(result.cues.map((c) => c.runs)).toEqual([
+        [{ text: 'Loud', style: { bold: true } }],
+        [{ text: 'qu', style: { bold: true } }, { text: 'iet' }],
+      ])
+    })
+
+    describe('CJK line breaking', () => {
+      it('should break Japanese text between characters', () => {
+        const result = wrapCueLines(
+          [cue(1, 0, 1000, '今日はとても良い天気ですね')],
+          { maxChars: 16, lineBreak: 'cjk' },
+        )
+
+        // 13 full-width characters count as 26
+        expect(texts(result)).toEqual(['今日はとても\n良い天気ですね'])
+      })
+
+      it('should not start a line with closing punctuation', () => {
+        const result = wrapCueLines(
+          [cue(1, 0, 1000, 'あいうえお。かきくけこ')],
+          { maxChars: 12, lineBreak: 'cjk' },
+        )
+
+        // The more even break would start the second line with "。"
+        expect(texts(result)).toEqual(['あいうえお。\nかきくけこ'])
+      })
+
+      it('should keep words in Latin script whole', () => {
+        const result = wrapCueLines(
+          [cue(1, 0, 1000, '今日はFinal Cut Proで編集します')],
+          { maxChars: 20, lineBreak: 'cjk' },
+        )
+
+        expect(texts(result)).toEqual(['今日はFinal Cut\nProで編集します'])
+      })
+
+      it('should break at ideographic spaces', () => {
+        const result = wrapCueLines(
+          [cue(1, 0, 1000, 'そうですか\u3000それは良かった')],
+          { maxChars: 16, lineBreak: 'cjk' },
+        )
+
+        expect(texts(result)).toEqual(['そうですか\nそれは良かった'])
+      })
+
+      it('should keep tags with their characters', () => {
+        const result = wrapCueLines(
+          [cue(1, 0, 1000, '今日は<i>良い天気</i>')],
+          { maxChars: 8, lineBreak: 'cjk' },
+        )
+
+        expect(texts(result)).toEqual(['今日は\n<i>良い天気</i>'])
+      })
+
+      it('should not break between characters by default', () => {
+        const result = wrapCueLines(
+          [cue(1, 0, 1000, '今日はとても良い天気ですね')],
+          { maxChars: 8 },
+        )
+
+        expect(texts(result)).toEqual(['今日はとても良い天気ですね'])
+      })
+    })
+
+    it('should reject invalid options', () => {
+      expect(() => wrapCueLines([], { maxChars: 0 })).toThrow(
+        'Invalid maximum characters: 0',
+      )
+      expect(() => wrapCueLines([], { maxLines: 1.5 })).toThrow(
+        'Invalid maximum lines: 1.5',
+      )
+      expect(() => wrapCueLines([], { balance: 'even' as 'greedy' })).toThrow(
+        'Invalid line balance: even',
+      )
+      expect(() => wrapCueLines([], { overflow: 'drop' as 'split' })).toThrow(
+        'Invalid line overflow: drop',
+      )
+      expect(() => wrapCueLines([], { lineBreak: 'thai' as 'cjk' })).toThrow(
+        'Invalid line break rule: thai',
+      )
+    })
+  })
+})
@@ -0,0 +1,560 @@
+import { findCjkBreaks, isWideCharacter } from '~/cue/cjk'
+import { appendRun } from '~/cue/runs'
+import { stripHtmlTags } from '~/srt/parser'
+import {
+  type CueTextRun,
+  DEFAULT_OPTIONS,
+  type LineBalance,
+  type LineBreakRule,
+  type LineWrapOptions,
+  type SrtCue,
+} from '~/types'
+
+/**
+ * Result of wrapping cue text
+ */
+export interface LineWrapResult {
+  /** Cues with wrapped text (the parts of a split cue keep its number) */
+  cues: SrtCue[]
+
+  /** One message per cue with too many lines or a word too long for a line */
+  overflows: string[]
+}
+
+/**
+ * Part of a line between two places where the line may break
+ */
+interface Segment {
+  /** Text of the segment, with any tags */
+  text: string
+
+  /** Offset of the segment in the line */
+  offset: number
+
+  /** Space before the segment, removed if the line breaks there ("" if none) */
+  separator: string
+}
+
+/**
+ * Line break replacing a separator (of length 0 for a break between
+ * characters)
+ */
+interface BreakPoint {
+  offset: number
+  length: number
+}
+
+/**
+ * Segments [start, end) of a line
+ */
+type LineRange = [start: number, end: number]
+
+/**
+ * Measure of segments [start, end), as a fraction of the tightest line limit
+ * (above 1: too long)
+ */
+type LineMeasure = (start: number, end: number) => number
+
+/**
+ * Width of a character that is not full-width, in em
+ */
+const NARROW_WIDTH = 0.5
+
+/**
+ * Formatting tags that are closed and reopened when a cue is split
+ */
+const FORMATTING_TAG = /<(\/?)(b|i|u|font)\b[^>]*>/gi
+
+/**
+ * Estimate the width of text in em: full-width characters are 1em wide and
+ * other characters 0.5em
+ */
+export function estimateTextWidth(text: string): number {
+  let width = 0
+  for (const char of text) {
+    width += isWideCharacter(char) ? 1 : NARROW_WIDTH
+  }
+  return width
+}
+
+/**
+ * Check that a limit is a finite number above zero (and whole if required)
+ * @throws {Error} If the limit is invalid
+ */
+function validateLimit(
+  name: string,
+  value: number | undefined,
+  whole: boolean,
+): void {
+  if (
+    value !== undefined &&
+    (!Number.isFinite(value) ||
+      value <= 0 ||
+      (whole && !Number.isInteger(value)))
+  ) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+}
+
+/**
+ * Count the characters of text toward maxChars (full-width characters count
+ * twice with CJK line breaking)
+ */
+function countCharacters(text: string, lineBreak: LineBreakRule): number {
+  let count = 0
+  for (const char of text) {
+    count += lineBreak === 'cjk' && isWideCharacter(char) ? 2 : 1
+  }
+  return count
+}
+
+/**
+ * Split a line into segments at spaces and, with CJK line breaking, at the
+ * places between characters where kinsoku shori allows a break
+ * @param tagged Whether the line has SRT formatting tags (spaces inside tags
+ * do not split the line)
+ */
+function splitSegments(
+  line: string,
+  lineBreak: LineBreakRule,
+  tagged: boolean,
+): Segment[] {
+  const spaces = lineBreak === 'cjk' ? '[ \u3000]' : ' '
+  const pattern = new RegExp(tagged ? `${spaces}(?![^<>]*>)` : spaces, 'g')
+
+  const segments: Segment[] = []
+  let offset = 0
+  let separator = ''
+  const addWord = (end: number) => {
+    const word = line.slice(offset, end)
+    const breaks = lineBreak === 'cjk' ? findCjkBreaks(word, tagged) : []
+    let start = 0
+    for (const position of [...breaks, word.length]) {
+      segments.push({
+        text: word.slice(start, position),
+        offset: offset + start,
+        separator: start === 0 ? separator : '',
+      })
+      start = position
+    }
+  }
+
+  for (const match of line.matchAll(pattern)) {
+    addWord(match.index)
+    offset = match.index + match[0].length
+    separator = match[0]
+  }
+  addWord(line.length)
+  return segments
+}
+
+/**
+ * Create the line measure of segments against the character and width limits
+ * @param visible Visible text of each segment
+ */
+function createLineMeasure(
+  segments: Segment[],
+  visible: string[],
+  options: LineWrapOptions,
+  lineBreak: LineBreakRule,
+  fontSize: number,
+): LineMeasure {
+  // Running totals of segments and of the separators before them
+  const chars = [0]
+  const widths = [0]
+  const separatorChars = [0]
+  const separatorWidths = [0]
+  segments.forEach((segment, i) => {
+    chars.push(chars[i] + countCharacters(visible[i], lineBreak))
+    widths.push(widths[i] + estimateTextWidth(visible[i]))
+    separatorChars.push(
+      separatorChars[i] + countCharacters(segment.separator, lineBreak),
+    )
+    separatorWidths.push(
+      separatorWidths[i] + estimateTextWidth(segment.separator),
+    )
+  })
+
+  return (start, end) => {
+    // A line keeps the separators between its segments
+    const lineChars =
+      chars[end] -
+      chars[start] +
+      separatorChars[end] -
+      separatorChars[start + 1]
+    const lineWidth =
+      (widths[end] -
+        widths[start] +
+        separatorWidths[end] -
+        separatorWidths[start + 1]) *
+      fontSize
+    return Math.max(
+      options.maxChars ? lineChars / options.maxChars : 0,
+      options.maxWidth ? lineWidth / options.maxWidth : 0,
+    )
+  }
+}
+
+/**
+ * Fill lines with as many words as fit the limit, from the first line or
+ * from the last (a word too long for a line gets a line of its own)
+ */
+function fillLines(
+  count: number,
+  measure: LineMeasure,
+  limit: number,
+  fromBottom: boolean,
+): LineRange[] {
+  const lines: LineRange[] = []
+  if (fromBottom) {
+    let end = count
+    for (let start = count - 2; start >= 0; start--) {
+      if (measure(start, end) > limit) {
+        lines.unshift([start + 1, end])
+        end = start + 1
+      }
+    }
+    lines.unshift([0, end])
+  } else {
+    let start = 0
+    for (let end = 2; end <= count; end++) {
+      if (measure(start, end) > limit) {
+        lines.push([start, end - 1])
+        start = end - 1
+      }
+    }
+    lines.push([start, count])
+  }
+  return lines
+}
+
+/**
+ * Check if each line is no longer than the next (or the previous)
+ */
+function isTapered(
+  lines: LineRange[],
+  measure: LineMeasure,
+  growing: boolean,
+): boolean {
+  return lines.every((line, i) => {
+    const next = lines[i + 1]
+    if (!next) {
+      return true
+    }
+    const current = measure(...line)
+    const following = measure(...next)
+    return growing ? current <= following : current >= following
+  })
+}
+
+/**
+ * Break words into as few lines as fit the limits
+ *
+ * Balanced lines are as even as possible while each line is no longer than
+ * the next (bottom-heavy, a pyramid) or the previous (top-heavy). When no
+ * such break fits the limits, the most even break is used.
+ */
+function breakWords(
+  count: number,
+  measure: LineMeasure,
+  balance: LineBalance,
+): LineRange[] {
+  const greedy = fillLines(count, measure, 1, false)
+  if (greedy.length === 1 || balance === 'greedy') {
+    return greedy
+  }
+
+  const limits = new Set<number>()
+  for (let start = 0; start < count; start++) {
+    for (let end = start + 1; end <= count; end++) {
+      limits.add(measure(start, end))
+    }
+  }
+  // Lines longer than the limits are only allowed for words too long for one
+  const longest = Math.max(
+    1,
+    ...greedy.map(([start, end]) => measure(start, end)),
+  )
+  const fromBottom = balance === 'bottom-heavy'
+  let even: LineRange[] | undefined
+  for (const limit of [...limits].sort((a, b) => a - b)) {
+    if (limit > longest) {
+      break
+    }
+    const lines = fillLines(count, measure, limit, fromBottom)
+    if (lines.length > greedy.length) {
+      continue
+    }
+    even ??= lines
+    if (isTapered(lines, measure, fromBottom)) {
+      return lines
+    }
+  }
+  return even ?? greedy
+}
+
+/**
+ * Find the line breaks of one line of text
+ * @param tagged Whether the text has SRT formatting tags (tags are not
+ * measured)
+ * @returns Line breaks by offset in the line, and the segments too long for a
+ * line
+ */
+function wrapLine(
+  line: string,
+  options: LineWrapOptions,
+  balance: LineBalance,
+  lineBreak: LineBreakRule,
+  fontSize: number,
+  tagged: boolean,
+): { breaks: BreakPoint[]; tooLong: string[] } {
+  const segments = splitSegments(line, lineBreak, tagged)
+  const visible = segments.map((segment) =>
+    tagged ? stripHtmlTags(segment.text) : segment.text,
+  )
+  const measure = createLineMeasure(
+    segments,
+    visible,
+    options,
+    lineBreak,
+    fontSize,
+  )
+
+  const breaks = breakWords(segments.length, measure, balance)
+    .slice(1)
+    .map(([start]): BreakPoint => {
+      const { offset, separator } = segments[start]
+      return { offset: offset - separator.length, length: separator.length }
+    })
+  const tooLong = visible.filter((_, i) => measure(i, i + 1) > 1)
+  return { breaks, tooLong }
+}
+
+/**
+ * Insert line breaks into runs, each replacing its separator
+ * @param breaks Line breaks by offset in the text of all runs
+ */
+function applyBreakPoints(
+  runs: CueTextRun[],
+  breaks: BreakPoint[],
+): CueTextRun[] {
+  let start = 0
+  return runs.map((run) => {
+    const end = start + run.text.length
+    let text = run.text
+    const inRun = breaks.filter(
+      (point) => point.offset >= start && point.offset < end,
+    )
+    for (const point of inRun.reverse()) {
+      const at = point.offset - start
+      text = `${text.slice(0, at)}\n${text.slice(at + point.length)}`
+    }
+    start = end
+    return { ...run, text }
+  })
+}
+
+/**
+ * Split runs into the runs of each line (line breaks removed)
+ */
+function splitRunLines(runs: CueTextRun[]): CueTextRun[][] {
+  const lines: CueTextRun[][] = [[]]
+  for (const run of runs) {
+    run.text.split('\n').forEach((part, i) => {
+      if (i > 0) {
+        lines.push([])
+      }
+      if (part) {
+        appendRun(lines[lines.length - 1], part, run.style ?? {})
+      }
+    })
+  }
+  return lines
+}
+
+/**
+ * Close the formatting tags left open at the end of each part of split text
+ * and reopen them at the start of the next part
+ */
+export function closeSplitTags(parts: string[]): string[] {
+  let carried: string[] = []
+  return parts.map((part) => {
+    const text = carried.join('') + part
+    const open: { name: string; tag: string }[] = []
+    for (const match of text.matchAll(FORMATTING_TAG)) {
+      const name = match[2].toLowerCase()
+      if (!match[1]) {
+        open.push({ name, tag: match[0] })
+        continue
+      }
+      const openIndex = open.map((tag) => tag.name).lastIndexOf(name)
+      if (openIndex >= 0) {
+        open.splice(openIndex, 1)
+      }
+    }
+
+    carried = open.map((tag) => tag.tag)
+    return `${text}${open
+      .reverse()
+      .map((tag) => `</${tag.name}>`)
+      .join('')}`
+  })
+}
+
+/**
+ * Split a cue into consecutive cues of at most maxLines lines, dividing its
+ * time in proportion to the characters of each part
+ */
+function splitCueLines(cue: SrtCue, maxLines: number): SrtCue[] {
+  const groupLines = <T>(lines: T[]): T[][] =>
+    Array.from({ length: Math.ceil(lines.length / maxLines) }, (_, i) =>
+      lines.slice(i * maxLines, (i + 1) * maxLines),
+    )
+
+  let parts: Pick<SrtCue, 'text' | 'runs'>[]
+  if (cue.runs) {
+    parts = groupLines(splitRunLines(cue.runs)).map((lines) => {
+      const runs: CueTextRun[] = []
+      lines.forEach((line, i) => {
+        if (i > 0) {
+          appendRun(runs, '\n', runs[runs.length - 1]?.style ?? {})
+        }
+        for (const run of line) {
+          appendRun(runs, run.text, run.style ?? {})
+        }
+      })
+      return { text: runs.map((run) => run.text).join(''), runs }
+    })
+  } else {
+    parts = closeSplitTags(
+      groupLines(cue.text.split('\n')).map((lines) => lines.join('\n')),
+    ).map((text) => ({ text }))
+  }
+
+  return divideCueTime(cue, parts)
+}
+
+/**
+ * Turn the parts of a split cue into consecutive cues, dividing its time in
+ * proportion to the characters of each part (parts without characters share
+ * the time evenly)
+ * @param characters Characters of each part (default: counted in its text)
+ */
+export function divideCueTime(
+  cue: SrtCue,
+  parts: Pick<SrtCue, 'text' | 'runs'>[],
+  characters: number[] = parts.map(
+    (part) => Array.from(stripHtmlTags(part.text).replace(/\n/g, '')).length,
+  ),
+): SrtCue[] {
+  const weights = characters.some((count) => count > 0)
+    ? characters
+    : parts.map(() => 1)
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  const duration = cue.endMs - cue.startMs
+
+  let elapsed = 0
+  return parts.map((part, i) => {
+    const startMs = cue.startMs + Math.round((duration * elapsed) / total)
+    elapsed += weights[i]
+    const endMs = cue.startMs + Math.round((duration * elapsed) / total)
+    return { ...cue, ...part, startMs, endMs }
+  })
+}
+
+/**
+ * Break cue lines that are longer than the line limits
+ *
+ * Existing line breaks are kept, and each line that is too long is broken at
+ * spaces into as few lines as fit maxChars and maxWidth. With the default
+ * "bottom-heavy" balance, the lines of a broken line are as even as possible
+ * with the longer lines at the bottom. A cue with more than maxLines lines is
+ * reported, or split into consecutive cues whose time is divided in
+ * proportion to their characters.
+ *
+ * @param cues Subtitle cues
+ * @param options Line limits
+ * @param fontSize Font size used to estimate line widths, unless a cue has
+ * its own (default: 72)
+ * @returns Wrapped cues and one message per overflowing cue
+ * @throws {Error} If a limit, the balance or the overflow handling is invalid
+ */
+export function wrapCueLines(
+  cues: SrtCue[],
+  options: LineWrapOptions,
+  fontSize: number = DEFAULT_OPTIONS.fontSize,
+): LineWrapResult {
+  const {
+    maxLines = 2,
+    balance = 'bottom-heavy',
+    overflow = 'report',
+    lineBreak = 'western',
+  } = options
+
+  validateLimit('maximum characters', options.maxChars, false)
+  validateLimit('maximum width', options.maxWidth, false)
+  validateLimit('maximum lines', maxLines, true)
+  if (!['bottom-heavy', 'top-heavy', 'greedy'].includes(balance)) {
+    throw new Error(`Invalid line balance: ${balance}`)
+  }
+  if (overflow !== 'report' && overflow !== 'split') {
+    throw new Error(`Invalid line overflow: ${overflow}`)
+  }
+  if (lineBreak !== 'western' && lineBreak !== 'cjk') {
+    throw new Error(`Invalid line break rule: ${lineBreak}`)
+  }
+
+  const overflows: string[] = []
+  const wrapped = cues.flatMap((cue) => {
+    const source = cue.runs
+      ? cue.runs.map((run) => run.text).join('')
+      : cue.text
+    const breaks: BreakPoint[] = []
+    let lineOffset = 0
+    for (const line of source.split('\n')) {
+      const result = wrapLine(
+        line,
+        options,
+        balance,
+        lineBreak,
+        cue.style?.fontSize ?? fontSize,
+        !cue.runs,
+      )
+      for (const point of result.breaks) {
+        breaks.push({ ...point, offset: lineOffset + point.offset })
+      }
+      for (const segment of result.tooLong) {
+        overflows.push(
+          `Cue ${cue.index}: "${segment}" does not fit on one line`,
+        )
+      }
+      lineOffset += line.length + 1
+    }
+
+    const runs = applyBreakPoints(cue.runs ?? [{ text: source }], breaks)
+    const text = runs.map((run) => run.text).join('')
+    let wrappedCue = cue
+    if (breaks.length > 0) {
+      wrappedCue = cue.runs ? { ...cue, text, runs } : { ...cue, text }
+    }
+
+    const lineCount = text.split('\n').length
+    if (lineCount <= maxLines) {
+      return [wrappedCue]
+    }
+    if (overflow === 'report') {
+      overflows.push(
+        `Cue ${cue.index} has ${lineCount} lines (max ${maxLines})`,
+      )
+      return [wrappedCue]
+    }
+
+    const parts = splitCueLines(wrappedCue, maxLines)
+    overflows.push(
+      `Cue ${cue.index} has ${lineCount} lines (max ${maxLines}): split into ${parts.length} cues`,
+    )
+    return parts
+  })
+
+  return { cues: wrapped, overflows }
+}
@@ -1,6 +1,16 @@
 import { describe, expect, it } from 'vitest'
-import { DEFAULT_OPTIONS, type SrtCue } from '~/types'
-import { buildFcpxml } from './builder'
+import { parseSrt } from '~/srt/parser'
+import {
+  type CaptionFormat,
+  type ConversionReport,
+  DEFAULT_OPTIONS,
+  type OutputMode,
+  type Placement,
+  type Srt2FcpxOptions,
+  type SrtCue,
+} from '~/types'
+import { parseVtt } from '~/vtt/parser'
+import { buildFcpxml, buildFcpxmlFromTemplate } from './builder'
 
 describe('FCPXML Builder', () => {
   describe('buildFcpxml', () => {
@@ -153,6 +163,48 @@ describe('FCPXML Builder', () => {
       expect(xml).not.toContain('<i>')
     })
 
+    it('should style text runs from SRT formatting tags', () => {
+      const xml = buildFcpxml([
+        {
+          index: 1,
+          startMs: 1000,
+          endMs: 3000,
+          text: '<b>Bold</b> and <font color="#FF0000">red</font>',
+        },
+      ])
+
+      expect(xml).toContain('<text-style ref="ts1-1">Bold</text-style>')
+      expect(xml).toContain('<text-style ref="ts1-2"> and </text-style>')
+      expect(xml).toContain('<text-style ref="ts1-3">red</text-style>')
+      expect(xml).toMatch(
+        /<text-style-def id="ts1-1">\n\s*<text-style [^>]* bold="1"\/>/,
+      )
+      expect(xml).toMatch(
+        /<text-style-def id="ts1-3">\n\s*<text-style [^>]*fontColor="1 0 0 1"/,
+      )
+      expect(xml).toContain('name="Basic Title: Bold and red"')
+    })
+
+    it('should strip tags into a single run with stripTags', () => {
+      const xml = buildFcpxml(
+        [
+          {
+            index: 1,
+            startMs: 1000,
+            endMs: 3000,
+            text: '<b>Bold</b> and <i>italic</i> text',
+          },
+        ],
+        { stripTags: true },
+      )
+
+      expect(xml).toContain(
+        '<text-style ref="ts1">Bold and italic text</text-style>',
+      )
+      expect(xml).not.toContain('bold="1"')
+      expect(xml).not.toContain('italic="1"')
+    })
+
     it('should handle multi-line text', () => {
       const cues: SrtCue[] = [
         {
@@ -335,12 +387,92 @@ describe('FCPXML Builder', () => {
       expect(xml).toContain('tcStart="0s"')
     })
 
+    it('should set tcStart from start timecode', () => {
+      const xml = buildFcpxml(basicCues, { startTimecode: '01:00:00:00' })
+
+      expect(xml).toContain('tcStart="86400/24s"')
+      // SRT time zero maps to the sequence start by default
+      expect(xml).toContain('offset="86424/24s"')
+      expect(xml).toContain('start="86424/24s"')
+      // Sequence duration is measured from tcStart
+      expect(xml).toContain('<sequence format="r1" duration="144/24s"')
+    })
+
+    it('should accept start timecode in milliseconds', () => {
+      const xml = buildFcpxml(basicCues, { startTimecode: 3600000 })
+
+      expect(xml).toContain('tcStart="86400/24s"')
+    })
+
+    it('should map SRT time zero independently of tcStart', () => {
+      const cues: SrtCue[] = [
+        {
+          index: 1,
+          startMs: 3605000, // 01:00:05,000 from a 1-hour-start master
+          endMs: 3607000,
+          text: 'Master subtitle',
+        },
+      ]
+
+      const xml = buildFcpxml(cues, {
+        startTimecode: '01:00:00:00',
+        srtZeroTimecode: '00:00:00:00',
+      })
+
+      expect(xml).toContain('tcStart="86400/24s"')
+      expect(xml).toContain('offset="86520/24s"')
+      expect(xml).toContain('<sequence format="r1" duration="168/24s"')
+    })
+
+    it('should reject cues before the sequence start', () => {
+      expect(() =>
+        buildFcpxml(basicCues, {
+          startTimecode: '01:00:00:00',
+          srtZeroTimecode: 0,
+        }),
+      ).toThrow('Cue 1 starts before the sequence start timecode')
+    })
+
+    it('should count start timecode in drop-frame', () => {
+      const xml = buildFcpxml(basicCues, {
+        frameRate: 29.97,
+        dropFrame: true,
+        startTimecode: '01:00:00;00',
+      })
+
+      // 107892 frames * 1001
+      expect(xml).toContain('tcStart="107999892/30000s"')
+    })
+
     it('should set tcFormat to NDF', () => {
       const xml = buildFcpxml(basicCues)
 
       expect(xml).toContain('tcFormat="NDF"')
     })
 
+    it('should set tcFormat to DF for drop-frame sequences', () => {
+      const cues: SrtCue[] = [
+        {
+          index: 1,
+          startMs: 600000, // 00:10:00,000 wall-clock
+          endMs: 602000,
+          text: 'Ten minutes',
+        },
+      ]
+
+      const xml = buildFcpxml(cues, { frameRate: 29.97, dropFrame: true })
+
+      expect(xml).toContain('tcFormat="DF"')
+      // 17982 frames, which is exactly 00:10:00;00 in drop-frame timecode
+      expect(xml).toContain('offset="17999982/30000s"')
+    })
+
+    it('should reject drop-frame for non-NTSC frame rates', () => {
+      expect(() =>
+        buildFcpxml(basicCues, { frameRate: 25, dropFrame: true }),
+      ).toThrow('Drop-frame timecode requires a 29.97 or 59.94 frame rate')
+    })
+
     it('should apply custom format version', () => {
       const xml = buildFcpxml(basicCues, { formatVersion: '1.9' })
 
@@ -386,6 +518,33 @@ describe('FCPXML Builder', () => {
       expect(xml60).toContain('duration="60/60s"')
     })
 
+    it('should use rational frame durations for NTSC frame rates', () => {
+      const cues: SrtCue[] = [
+        {
+          index: 1,
+          startMs: 1000,
+          endMs: 4000,
+          text: 'Test',
+        },
+      ]
+
+      const xml2398 = buildFcpxml(cues, { frameRate: 23.976 })
+      expect(xml2398).toContain('frameDuration="1001/24000s"')
+      expect(xml2398).toContain('FFVideoFormat1080p2398')
+      expect(xml2398).toContain('offset="23023/24000s"') // 23 frames
+      expect(xml2398).toContain('duration="72072/24000s"') // frames 23 to 95
+      expect(xml2398).not.toContain('23.976')
+
+      const xml2997 = buildFcpxml(cues, { frameRate: 29.97 })
+      expect(xml2997).toContain('frameDuration="1001/30000s"')
+      expect(xml2997).toContain('FFVideoFormat1080p2997')
+      expect(xml2997).toContain('offset="29029/30000s"') // 29 frames
+
+      const xml5994 = buildFcpxml(cues, { frameRate: 59.94 })
+      expect(xml5994).toContain('frameDuration="1001/60000s"')
+      expect(xml5994).toContain('FFVideoFormat1080p5994')
+    })
+
     it('should merge custom options with defaults', () => {
       const xml = buildFcpxml(basicCues, {
         titleName: 'Custom',
@@ -411,6 +570,1015 @@ describe('FCPXML Builder', () => {
       // Alpha channel: 0x40 = 64/255 ≈ 0.251
       expect(xml).toContain('backgroundColor="0 0 0 0.2')
     })
+
+    it('should emit captions on a gap clip in captions mode', () => {
+      const xml = buildFcpxml(basicCues, {
+        outputMode: 'captions',
+        captionFormat: 'CEA608',
+      })
+
+      expect(xml).toContain(
+        '            <gap name="Gap" offset="0s" start="0s" duration="144/24s">',
+      )
+      expect(xml).toContain(
+        [
+          '              <caption lane="1" offset="24/24s" name="First subtitle" start="24/24s" duration="48/24s" role="CEA-608?captionFormat=608.en">',
+          '                <text display-style="pop-on">',
+          '                  <text-style ref="ts1">First subtitle</text-style>',
+          '                </text>',
+        ].join('\n'),
+      )
+      expect(xml).not.toContain('<title')
+    })
+  })
+
+  describe('buildFcpxmlFromTemplate', () => {
+    const cues: SrtCue[] = [
+      {
+        index: 1,
+        startMs: 1000,
+        endMs: 3000,
+        text: 'Template subtitle',
+      },
+    ]
+
+    it('should apply default options to the template', () => {
+      const xml = buildFcpxmlFromTemplate(cues)
+
+      expect(xml).toContain(
+        `<fcpxml version="${DEFAULT_OPTIONS.formatVersion}">`,
+      )
+      expect(xml).toContain('name="FFVideoFormat1080p24"')
+      expect(xml).toContain('frameDuration="1/24s"')
+      expect(xml).toContain(`<event name="${DEFAULT_OPTIONS.titleName}"`)
+      expect(xml).toContain('font="Helvetica"')
+      expect(xml).toContain('fontSize="72"')
+      expect(xml).toContain('fontFace="Regular"')
+      expect(xml).not.toContain('strokeWidth=')
+    })
+
+    it('should replace the template text-style with style options', () => {
+      const xml = buildFcpxmlFromTemplate(cues, {
+        fontFamily: 'Arial',
+        fontSize: 48,
+        fontFace: 'Bold',
+        textColor: '#FF0000FF',
+        backgroundColor: '#00FF00FF',
+        strokeColor: '#0000FFFF',
+        strokeWidth: 3,
+      })
+
+      expect(xml).toContain(
+        '<text-style font="Arial" fontSize="48" fontFace="Bold" fontColor="1 0 0 1" backgroundColor="0 1 0 1" alignment="center" strokeColor="0 0 1 1" strokeWidth="3"/>',
+      )
+      expect(xml).not.toContain('Hiragino Sans')
+      expect(xml).not.toContain('{TEXT_STYLE_ATTRIBUTES}')
+    })
+
+    it('should apply format, resolution and version options', () => {
+      const xml = buildFcpxmlFromTemplate(cues, {
+        frameRate: 30,
+        width: 3840,
+        height: 2160,
+        formatVersion: '1.11',
+      })
+
+      expect(xml).toContain('<fcpxml version="1.11">')
+      expect(xml).toContain(
+        '<format id="r1" name="FFVideoFormat2160p30" frameDuration="1/30s" width="3840" height="2160"',
+      )
+    })
+
+    it('should use rational times for NTSC frame rates', () => {
+      const xml = buildFcpxmlFromTemplate(cues, { frameRate: 29.97 })
+
+      expect(xml).toContain(
+        'name="FFVideoFormat1080p2997" frameDuration="1001/30000s"',
+      )
+      expect(xml).toContain('offset="29029/30000s"')
+      expect(xml).toContain('duration="60060/30000s"') // frames 29 to 89
+      expect(xml).not.toContain('100/2400s')
+    })
+
+    it('should apply drop-frame timecode format', () => {
+      expect(buildFcpxmlFromTemplate(cues)).toContain('tcFormat="NDF"')
+      expect(
+        buildFcpxmlFromTemplate(cues, { frameRate: 59.94, dropFrame: true }),
+      ).toContain('tcFormat="DF"')
+    })
+
+    it('should apply start timecode', () => {
+      const xml = buildFcpxmlFromTemplate(cues, {
+        startTimecode: '01:00:00:00',
+      })
+
+      expect(xml).toContain('tcStart="86400/24s"')
+      expect(xml).toContain('offset="86424/24s"')
+    })
+
+    it('should apply and escape the title name', () => {
+      const xml = buildFcpxmlFromTemplate(cues, {
+        titleName: 'Project <Test> & "$1"',
+      })
+
+      expect(xml).toContain(
+        '<event name="Project &lt;Test&gt; &amp; &quot;$1&quot;"',
+      )
+      expect(xml).toContain(
+        '<project name="Project &lt;Test&gt; &amp; &quot;$1&quot;"',
+      )
+    })
+
+    it('should keep FCP-specific template nodes', () => {
+      const xml = buildFcpxmlFromTemplate(cues, { fontFamily: 'Arial' })
+
+      expect(xml).toContain('<param name="Flatten"')
+      expect(xml).toContain('<param name="Wrap Mode"')
+      expect(xml).toContain('<adjust-colorConform')
+      expect(xml).toContain('colorSpace="1-1-1 (Rec. 709)"')
+    })
+
+    it('should not leave unreplaced placeholders', () => {
+      const xml = buildFcpxmlFromTemplate(cues)
+
+      expect(xml).not.toMatch(/{[A-Z_]+}/)
+    })
+ 
+    it('should apply cue styles over style options', () => {
+      const xml = buildFcpxmlFromTemplate(
+        [
+          {
+            index: 1,
+            startMs: 1000,
+            endMs: 2000,
+            text: 'Styled',
+            style: {
+              fontFamily: 'Georgia',
+              textColor: '#FFFF00FF',
+              strokeColor: '#000000FF',
+              strokeWidth: -2,
+              italic: true,
+              alignment: 'left',
+            },
+          },
+        ],
+        { fontFamily: 'Arial', fontSize: 48 },
+      )
+
+      expect(xml).toContain(
+        '<text-style font="Georgia" fontSize="48" fontFace="Regular" fontColor="1 1 0 1" backgroundColor="0 0 0 0" alignment="left" strokeColor="0 0 0 1" strokeWidth="-2" italic="1"/>',
+      )
+    })
+
+    it('should write one text-style-def per styled run', () => {
+      const xml = buildFcpxmlFromTemplate([
+        {
+          index: 1,
+          startMs: 1000,
+          endMs: 2000,
+          text: 'Plain <bold>',
+          runs: [
+            { text: 'Plain ' },
+            { text: '<bold>', style: { bold: true } },
+          ],
+        },
+      ])
+
+      expect(xml).toContain(
+        [
+          '                                <text>',
+          '                                    <text-style ref="ts1-1">Plain </text-style>',
+          '                                    <text-style ref="ts1-2">&lt;bold&gt;</text-style>',
+          '                                </text>',
+          '                                <text-style-def id="ts1-1">',
+        ].join('\n'),
+      )
+      expect(xml).toMatch(
+        /<text-style-def id="ts1-2">\n {36}<text-style [^>]* bold="1"\/>\n {32}<\/text-style-def>/,
+      )
+      expect(xml).toContain('name="Basic Title: Plain &lt;bold&gt;"')
+    })
+
+    describe('captions mode', () => {
+      it('should connect iTT captions to a gap clip', () => {
+        const xml = buildFcpxmlFromTemplate(cues, { outputMode: 'captions' })
+
+        expect(xml).toContain(
+          [
+            '                    <spine>',
+            '                        <gap name="Gap" offset="0s" start="0s" duration="72/24s">',
+            '                            <caption lane="1" offset="24/24s" name="Template subtitle" start="24/24s" duration="48/24s" role="iTT?captionFormat=ITT.en">',
+            '                                <text placement="bottom">',
+            '                                    <text-style ref="ts1">Template subtitle</text-style>',
+            '                                </text>',
+            '                                <text-style-def id="ts1">',
+            '                                    <text-style fontColor="1 1 1 1" backgroundColor="0 0 0 0"/>',
+            '                                </text-style-def>',
+            '                            </caption>',
+          ].join('\n'),
+        )
+        expect(xml).toContain(
+          '                        </gap>\n                    </spine>',
+        )
+        expect(xml).not.toContain('<title')
+        expect(xml).not.toMatch(/{[A-Z_]+}/)
+      })
+
+      it('should build the role from the caption format and language', () => {
+        const roleOf = (options: Srt2FcpxOptions) =>
+          buildFcpxmlFromTemplate(cues, {
+            outputMode: 'captions',
+            ...options,
+          }).match(/role="([^"]*)"/)?.[1]
+
+        expect(roleOf({ captionLanguage: 'ja' })).toBe(
+          'iTT?captionFormat=ITT.ja',
+        )
+        expect(roleOf({ captionFormat: 'SRT', captionLanguage: 'pt-BR' })).toBe(
+          'SRT?captionFormat=SRT.pt-BR',
+        )
+        expect(roleOf({ captionFormat: 'CEA608' })).toBe(
+          'CEA-608?captionFormat=608.en',
+        )
+      })
+
+      it('should offset captions by the start timecode', () => {
+        const xml = buildFcpxmlFromTemplate(cues, {
+          outputMode: 'captions',
+          startTimecode: '01:00:00:00',
+        })
+
+        expect(xml).toContain(
+          '<gap name="Gap" offset="86400/24s" start="86400/24s" duration="72/24s">',
+        )
+        expect(xml).toContain('offset="86424/24s"')
+      })
+
+      it('should write caption emphasis from runs', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            {
+              index: 1,
+              startMs: 1000,
+              endMs: 2000,
+              text: 'Plain bold',
+              runs: [
+                { text: 'Plain ' },
+                { text: 'bold', style: { bold: true, textColor: '#FF0000FF' } },
+              ],
+            },
+          ],
+          { outputMode: 'captions' },
+        )
+
+        expect(xml).toContain(
+          '<text-style fontColor="1 0 0 1" backgroundColor="0 0 0 0" bold="1"/>',
+        )
+        expect(xml).not.toContain('font="Helvetica"')
+      })
+
+      it('should reject invalid modes, formats and languages', () => {
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            outputMode: 'subtitles' as OutputMode,
+          }),
+        ).toThrow('Invalid output mode: subtitles')
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            outputMode: 'captions',
+            captionFormat: 'SCC' as CaptionFormat,
+          }),
+        ).toThrow('Invalid caption format: SCC')
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            outputMode: 'captions',
+            captionLanguage: 'en us',
+          }),
+        ).toThrow('Invalid caption language: en us')
+      })
+    })
+
+    describe('storyline', () => {
+      it('should connect titles to a gap spanning the sequence by default', () => {
+        const xml = buildFcpxmlFromTemplate(cues)
+
+        expect(xml).toContain(
+          [
+            '                    <spine>',
+            '                        <gap name="Gap" offset="0s" start="0s" duration="72/24s">',
+            '                            <title lane="1" ref="r2" offset="24/24s" name="Basic Title: Template subtitle" start="24/24s" duration="48/24s">',
+          ].join('\n'),
+        )
+        expect(xml).toContain(
+          '                            </title>\n                        </gap>\n                    </spine>',
+        )
+      })
+
+      it('should connect inline titles to a gap by default', () => {
+        const xml = buildFcpxml(cues, { startTimecode: '01:00:00:00' })
+
+        expect(xml).toContain(
+          [
+            '          <spine>',
+            '            <gap name="Gap" offset="86400/24s" start="86400/24s" duration="72/24s">',
+            '              <title lane="1" name="Basic Title: Template subtitle" offset="86424/24s"',
+          ].join('\n'),
+        )
+      })
+
+      it('should place titles in the spine with the titles storyline', () => {
+        const xml = buildFcpxml(cues, { storyline: 'titles' })
+
+        expect(xml).not.toContain('<gap')
+        expect(xml).toContain(
+          '          <spine>\n            <title name="Basic Title: Template subtitle"',
+        )
+      })
+
+      it('should throw error for invalid storyline', () => {
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            storyline: 'spine' as unknown as 'gap',
+          }),
+        ).toThrow('Invalid storyline: spine')
+      })
+    })
+
+    describe('video asset', () => {
+      const videoAsset = { path: '/Movies/Interview A.mov', duration: 10000 }
+
+      it('should connect titles to a clip of the referenced video', () => {
+        const xml = buildFcpxmlFromTemplate(cues, { videoAsset })
+
+        expect(xml).toContain(
+          [
+            '        <effect id="r2" name="Basic Title" uid=".../Titles.localized/Bumper:Opener.localized/Basic Title.localized/Basic Title.moti"/>',
+            '        <asset id="r3" name="Interview A" start="0s" duration="240/24s" hasVideo="1" format="r1" videoSources="1">',
+            '            <media-rep kind="original-media" src="file:///Movies/Interview%20A.mov"/>',
+            '        </asset>',
+            '    </resources>',
+          ].join('\n'),
+        )
+        expect(xml).toContain('<sequence format="r1" duration="240/24s"')
+        expect(xml).toContain(
+          [
+            '                    <spine>',
+            '                        <asset-clip ref="r3" offset="0s" name="Interview A" start="0s" duration="240/24s" tcFormat="NDF">',
+            '                            <title lane="1" ref="r2" offset="24/24s" name="Basic Title: Template subtitle" start="24/24s" duration="48/24s">',
+          ].join('\n'),
+        )
+        expect(xml).toContain(
+          '                        </asset-clip>\n                    </spine>',
+        )
+        expect(xml).not.toContain('<gap')
+        expect(xml).not.toMatch(/{[A-Z_]+}/)
+      })
+
+      it('should add a format for a video with another frame rate or size', () => {
+        const xml = buildFcpxmlFromTemplate(cues, {
+          videoAsset: {
+            ...videoAsset,
+            frameRate: 25,
+            width: 3840,
+            height: 2160,
+          },
+        })
+
+        expect(xml).toContain(
+          '<format id="r4" name="FFVideoFormat2160p25" frameDuration="1/25s" width="3840" height="2160"/>',
+        )
+        expect(xml).toContain('hasVideo="1" format="r4"')
+      })
+
+      it('should offset titles from the video start timecode', () => {
+        const xml = buildFcpxmlFromTemplate(cues, {
+          startTimecode: '01:00:00:00',
+          videoAsset: { ...videoAsset, startTimecode: '10:00:00:00' },
+        })
+
+        expect(xml).toContain(
+          '<asset-clip ref="r3" offset="86400/24s" name="Interview A" start="864000/24s" duration="240/24s" tcFormat="NDF">',
+        )
+        expect(xml).toContain(
+          '<title lane="1" ref="r2" offset="864024/24s" name="Basic Title: Template subtitle" start="864024/24s"',
+        )
+      })
+
+      it('should keep file URLs and custom names', () => {
+        const xml = buildFcpxmlFromTemplate(cues, {
+          videoAsset: {
+            ...videoAsset,
+            path: 'file:///Volumes/Media/take%201.mp4',
+            name: 'Take <1>',
+          },
+        })
+
+        expect(xml).toContain(
+          '<media-rep kind="original-media" src="file:///Volumes/Media/take%201.mp4"/>',
+        )
+        expect(xml).toContain(
+          '<asset-clip ref="r3" offset="0s" name="Take &lt;1&gt;"',
+        )
+      })
+
+      it('should write the asset in inline output', () => {
+        const xml = buildFcpxml(cues, { videoAsset })
+
+        expect(xml).toContain(
+          [
+            '    <asset id="r3" name="Interview A" start="0s" duration="240/24s" hasVideo="1" format="r1" videoSources="1">',
+            '      <media-rep kind="original-media" src="file:///Movies/Interview%20A.mov"/>',
+            '    </asset>',
+            '  </resources>',
+          ].join('\n'),
+        )
+        expect(xml).toContain(
+          '            <asset-clip ref="r3" offset="0s" name="Interview A" start="0s" duration="240/24s" tcFormat="NDF">\n              <title lane="1"',
+        )
+      })
+
+      it('should throw error for invalid video assets', () => {
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            videoAsset: { ...videoAsset, path: '' },
+          }),
+        ).toThrow('Missing video asset path')
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            videoAsset: { ...videoAsset, duration: 0 },
+          }),
+        ).toThrow('Invalid video asset duration: 0')
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            videoAsset: { ...videoAsset, duration: 1000 },
+          }),
+        ).toThrow('Cue 1 starts after the end of the video')
+      })
+    })
+
+    describe('tracks', () => {
+      const english: SrtCue[] = [
+        { index: 1, startMs: 1000, endMs: 3000, text: 'Hello' },
+        { index: 2, startMs: 4000, endMs: 5000, text: 'Bye' },
+      ]
+      const japanese: SrtCue[] = [
+        { index: 1, startMs: 1000, endMs: 6000, text: 'こんにちは' },
+      ]
+
+      it('should keep a single track in the spine with the titles storyline', () => {
+        const xml = buildFcpxmlFromTemplate([{ cues: english }], {
+          storyline: 'titles',
+        })
+
+        expect(xml).not.toContain('<gap')
+        expect(xml).not.toContain('lane=')
+        expect(xml).toContain('<title ref="r2"')
+      })
+
+      it('should connect tracks to a gap clip on separate lanes', () => {
+        const xml = buildFcpxmlFromTemplate([
+          { cues: english },
+          { cues: japanese },
+        ])
+
+        expect(xml).toContain(
+          [
+            '                    <spine>',
+            '                        <gap name="Gap" offset="0s" start="0s" duration="144/24s">',
+            '                            <title lane="1" ref="r2" offset="24/24s" name="Basic Title: Hello" start="24/24s" duration="48/24s">',
+            '                                <param name="Flatten"',
+          ].join('\n'),
+        )
+        expect(xml).toContain(
+          '<title lane="2" ref="r2" offset="24/24s" name="Basic Title: こんにちは" start="24/24s" duration="120/24s">',
+        )
+        expect(xml).toContain(
+          '                        </gap>\n                    </spine>',
+        )
+        expect(xml.match(/<title lane="1"/g)).toHaveLength(2)
+      })
+
+      it('should number text styles across tracks', () => {
+        const xml = buildFcpxmlFromTemplate([
+          { cues: english },
+          { cues: japanese },
+        ])
+
+        expect(xml).toContain('<text-style ref="ts1">Hello</text-style>')
+        expect(xml).toContain('<text-style ref="ts2">Bye</text-style>')
+        expect(xml).toContain('<text-style ref="ts3">こんにちは</text-style>')
+      })
+
+      it('should apply track options over the conversion options', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { cues: english, options: { placement: 'bottom' } },
+            {
+              cues: japanese,
+              options: { placement: 'top', fontFamily: 'Hiragino Sans' },
+            },
+          ],
+          { fontFamily: 'Arial' },
+        )
+
+        expect(xml).toMatch(
+          /<title lane="1"[^>]*>\n\s*<param name="Position" [^>]*value="0 -432"\/>/,
+        )
+        expect(xml).toMatch(
+          /<title lane="2"[^>]*>\n\s*<param name="Position" [^>]*value="0 432"\/>/,
+        )
+        expect(xml).toContain('<text-style font="Arial"')
+        expect(xml).toContain('<text-style font="Hiragino Sans"')
+      })
+
+      it('should give each caption track its own lane and language', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { cues: english },
+            { cues: japanese, options: { captionLanguage: 'ja' } },
+          ],
+          { outputMode: 'captions' },
+        )
+
+        expect(xml).toMatch(
+          /<caption lane="1"[^>]*role="iTT\?captionFormat=ITT\.en"/,
+        )
+        expect(xml).toMatch(
+          /<caption lane="2"[^>]*role="iTT\?captionFormat=ITT\.ja"/,
+        )
+        expect(xml.match(/<gap /g)).toHaveLength(1)
+      })
+
+      it('should connect inline titles to lanes', () => {
+        const xml = buildFcpxml([{ cues: english }, { cues: japanese }])
+
+        expect(xml).toContain(
+          '            <gap name="Gap" offset="0s" start="0s" duration="144/24s">\n              <title lane="1" name="Basic Title: Hello"',
+        )
+        expect(xml).toContain(
+          '              <title lane="2" name="Basic Title: こんにちは"',
+        )
+      })
+    })
+
+    describe('overlaps', () => {
+      const overlapping: SrtCue[] = [
+        { index: 1, startMs: 1000, endMs: 4000, text: 'Speaker one' },
+        { index: 2, startMs: 2000, endMs: 3000, text: 'Speaker two' },
+        { index: 3, startMs: 5000, endMs: 6000, text: 'Alone' },
+      ]
+
+      it('should move overlapping cues to extra lanes by default', () => {
+        const xml = buildFcpxmlFromTemplate(overlapping)
+
+        expect(xml).toContain('<gap name="Gap"')
+        expect(xml).toContain(
+          '<title lane="1" ref="r2" offset="24/24s" name="Basic Title: Speaker one"',
+        )
+        expect(xml).toContain(
+          '<title lane="2" ref="r2" offset="48/24s" name="Basic Title: Speaker two"',
+        )
+        expect(xml).toContain(
+          '<title lane="1" ref="r2" offset="120/24s" name="Basic Title: Alone"',
+        )
+      })
+
+      it('should number overlap lanes after the lanes of earlier tracks', () => {
+        const xml = buildFcpxmlFromTemplate([
+          { cues: overlapping },
+          { cues: [{ index: 1, startMs: 0, endMs: 500, text: 'Other' }] },
+        ])
+
+        expect(xml).toMatch(/<title lane="3" [^>]*name="Basic Title: Other"/)
+      })
+
+      it('should keep one lane when overlaps are trimmed or merged', () => {
+        const trimmed = buildFcpxmlFromTemplate(overlapping, {
+          overlap: 'trim',
+        })
+        const merged = buildFcpxmlFromTemplate(overlapping, {
+          overlap: 'merge',
+        })
+
+        expect(trimmed).not.toContain('lane="2"')
+        expect(trimmed).toContain(
+          'name="Basic Title: Speaker one" start="24/24s" duration="24/24s"',
+        )
+        expect(merged).not.toContain('lane="2"')
+        expect(merged).toContain(
+          '<text-style ref="ts1">Speaker one\nSpeaker two</text-style>',
+        )
+      })
+
+      it('should throw when overlaps are rejected', () => {
+        expect(() =>
+          buildFcpxmlFromTemplate(overlapping, { overlap: 'reject' }),
+        ).toThrow(/^Overlapping cues: cue 2/)
+      })
+    })
+
+    describe('timing', () => {
+      const cues: SrtCue[] = [
+        { index: 1, startMs: 1000, endMs: 3000, text: 'First' },
+        { index: 2, startMs: 60000, endMs: 61000, text: 'Second' },
+      ]
+
+      it('should shift and scale cues before converting them to frames', () => {
+        const xml = buildFcpxmlFromTemplate(cues, { shift: 1000, scale: 0.5 })
+
+        expect(xml).toContain(
+          'offset="36/24s" name="Basic Title: First" start="36/24s" duration="24/24s"',
+        )
+        expect(xml).toContain('offset="744/24s" name="Basic Title: Second"')
+      })
+
+      it('should trim or drop and report cues shifted before time zero', () => {
+        const reports: ConversionReport[] = []
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { index: 1, startMs: 200, endMs: 800, text: 'Gone' },
+            { index: 2, startMs: 500, endMs: 2000, text: 'Early' },
+            { index: 3, startMs: 3000, endMs: 4000, text: 'Late' },
+          ],
+          { shift: -1000, onReport: (report) => reports.push(report) },
+        )
+
+        expect(xml).not.toContain('Gone')
+        expect(xml).toContain(
+          'offset="0/24s" name="Basic Title: Early" start="0/24s" duration="24/24s"',
+        )
+        expect(xml).toContain('offset="48/24s" name="Basic Title: Late"')
+        expect(reports).toEqual([
+          {
+            step: 'timing',
+            track: 1,
+            message:
+              'Cue 1 (00:00:00,200 --> 00:00:00,800) moves before time zero: dropped',
+          },
+          {
+            step: 'timing',
+            track: 1,
+            message:
+              'Cue 2 (00:00:00,500 --> 00:00:02,000) starts before time zero: start trimmed to 00:00:00,000',
+          },
+        ])
+      })
+
+      it('should retime 25 fps cues to a 23.976 timeline frame for frame', () => {
+        const xml = buildFcpxmlFromTemplate(cues, {
+          frameRate: 23.976,
+          retime: { from: 25, to: 23.976 },
+        })
+
+        // 1s and 60s at 25 fps are frames 25 and 1500
+        expect(xml).toContain('offset="25025/24000s" name="Basic Title: First"')
+        expect(xml).toContain(
+          'offset="1501500/24000s" name="Basic Title: Second"',
+        )
+      })
+
+      it('should round cue boundaries to frames with the quantize mode', () => {
+        const adjacent: SrtCue[] = [
+          { index: 1, startMs: 1010, endMs: 2030, text: 'One' },
+          { index: 2, startMs: 2050, endMs: 3000, text: 'Two' },
+        ]
+
+        const floored = buildFcpxmlFromTemplate(adjacent, { frameRate: 25 })
+        const snapped = buildFcpxmlFromTemplate(adjacent, {
+          frameRate: 25,
+          quantize: 'snap',
+        })
+
+        expect(floored).toContain(
+          'offset="25/25s" name="Basic Title: One" start="25/25s" duration="25/25s"',
+        )
+        expect(floored).toContain('offset="51/25s" name="Basic Title: Two"')
+        expect(snapped).toContain(
+          'offset="25/25s" name="Basic Title: One" start="25/25s" duration="26/25s"',
+        )
+        expect(snapped).toContain('offset="51/25s" name="Basic Title: Two"')
+      })
+
+      it('should clean up cue timing before converting cues to frames', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { index: 1, startMs: 1000, endMs: 1200, text: 'Flash' },
+            { index: 2, startMs: 2080, endMs: 3000, text: 'Next' },
+          ],
+          { frameRate: 25, cleanup: { minDuration: 1000, minGap: 200 } },
+        )
+
+        // Extended to 2s, then the 80ms gap to cue 2 is closed
+        expect(xml).toContain(
+          'name="Basic Title: Flash" start="25/25s" duration="27/25s"',
+        )
+      })
+
+      it('should wrap and split long cues before converting them', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            {
+              index: 1,
+              startMs: 0,
+              endMs: 2000,
+              text: 'A line that is far too long for one row',
+            },
+          ],
+          { frameRate: 25, wrap: { maxChars: 16, overflow: 'split' } },
+        )
+
+        expect(xml).toContain(
+          '<text-style ref="ts1">A line\nthat is far too</text-style>',
+        )
+        expect(xml).toContain(
+          '<text-style ref="ts2">long for one row</text-style>',
+        )
+      })
+
+      it('should measure lines with the font size of each track', () => {
+        const wide: SrtCue[] = [
+          {
+            index: 1,
+            startMs: 0,
+            endMs: 2000,
+            text: 'Wide words at two sizes',
+          },
+        ]
+        const xml = buildFcpxmlFromTemplate(
+          [{ cues: wide }, { cues: wide, options: { fontSize: 40 } }],
+          { fontSize: 80, wrap: { maxWidth: 800 } },
+        )
+
+        expect(xml).toContain(
+          '<text-style ref="ts1">Wide words\nat two sizes</text-style>',
+        )
+        expect(xml).toContain(
+          '<text-style ref="ts2">Wide words at two sizes</text-style>',
+        )
+      })
+
+      it('should split long cues at sentence ends before converting them', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            {
+              index: 1,
+              startMs: 0,
+              endMs: 8000,
+              text: 'We should leave now. The storm is coming.',
+            },
+          ],
+          { frameRate: 25, split: { maxDuration: 5000 } },
+        )
+
+        expect(xml).toContain(
+          'offset="0/25s" name="Basic Title: We should leave now." start="0/25s" duration="102/25s"',
+        )
+        expect(xml).toContain(
+          'offset="102/25s" name="Basic Title: The storm is coming." start="102/25s" duration="98/25s"',
+        )
+      })
+
+      it('should merge fragmented cues before converting them', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { index: 1, startMs: 0, endMs: 400, text: 'So' },
+            { index: 2, startMs: 400, endMs: 1200, text: 'what now?' },
+            { index: 3, startMs: 3000, endMs: 4000, text: 'Nothing.' },
+          ],
+          { frameRate: 25, merge: { maxChars: 42 } },
+        )
+
+        expect(xml).toContain(
+          'offset="0/25s" name="Basic Title: So what now?" start="0/25s" duration="30/25s"',
+        )
+        expect(xml).toContain('name="Basic Title: Nothing."')
+        expect(xml).not.toContain('name="Basic Title: So"')
+      })
+
+      it('should give cues shorter than a frame one frame', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [{ index: 1, startMs: 1000, endMs: 1010, text: 'Blink' }],
+          { frameRate: 25 },
+        )
+
+        expect(xml).toContain(
+          'name="Basic Title: Blink" start="25/25s" duration="1/25s"',
+        )
+        expect(xml).toContain(
+          '<gap name="Gap" offset="0s" start="0s" duration="26/25s">',
+        )
+      })
+
+      it('should not extend a cue shorter than a frame over the next cue', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { index: 1, startMs: 1000, endMs: 1010, text: 'Blink' },
+            { index: 2, startMs: 1020, endMs: 2000, text: 'Next' },
+          ],
+          { frameRate: 25 },
+        )
+
+        expect(xml).not.toContain('name="Basic Title: Blink"')
+        expect(xml.match(/<title [^>]*offset="25\/25s"/g)).toHaveLength(1)
+        expect(xml).toContain(
+          'name="Basic Title: Next" start="25/25s" duration="25/25s"',
+        )
+      })
+
+      it('should sync every track with the reference cues of the first', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [
+            { cues },
+            {
+              cues: [{ index: 1, startMs: 60000, endMs: 61000, text: 'Other' }],
+            },
+          ],
+          {
+            sync: [
+              { cue: 1, timeMs: 2000 },
+              { cue: 2, timeMs: 61000 },
+            ],
+          },
+        )
+
+        expect(xml).toContain('offset="48/24s" name="Basic Title: First"')
+        expect(xml).toContain('offset="1464/24s" name="Basic Title: Second"')
+        expect(xml).toContain('offset="1464/24s" name="Basic Title: Other"')
+      })
+
+      it('should report the messages of each pass by track', () => {
+        const reports: ConversionReport[] = []
+        buildFcpxmlFromTemplate(
+          [
+            {
+              cues: [
+                { index: 1, startMs: 0, endMs: 400, text: 'So' },
+                { index: 2, startMs: 400, endMs: 1200, text: 'what now?' },
+              ],
+            },
+            {
+              cues: [
+                { index: 1, startMs: 0, endMs: 2000, text: 'Speaker one' },
+                { index: 2, startMs: 1000, endMs: 3000, text: 'Speaker two' },
+              ],
+            },
+          ],
+          {
+            merge: { maxChars: 12, maxLines: 1 },
+            onReport: (report) => reports.push(report),
+          },
+        )
+
+        expect(reports).toEqual([
+          {
+            step: 'merge',
+            track: 1,
+            message: 'Cues 1 and 2 merged into cue 1',
+          },
+          {
+            step: 'overlap',
+            track: 2,
+            message: 'Cue 2 overlaps cue 1: moved to lane 2',
+          },
+        ])
+      })
+    })
+
+    describe('placement', () => {
+      const positionOf = (xml: string) =>
+        xml.match(
+          /<param name="Position" key="9999\/999166631\/999166633\/1\/100\/101" value="([^"]*)"\/>/,
+        )?.[1]
+
+      it('should keep titles centered by default', () => {
+        expect(positionOf(buildFcpxmlFromTemplate(cues))).toBeUndefined()
+        expect(
+          positionOf(buildFcpxmlFromTemplate(cues, { placement: 'middle' })),
+        ).toBeUndefined()
+      })
+
+      it('should place titles at the top or bottom', () => {
+        expect(
+          positionOf(buildFcpxmlFromTemplate(cues, { placement: 'top' })),
+        ).toBe('0 432')
+        expect(
+          positionOf(buildFcpxmlFromTemplate(cues, { placement: 'bottom' })),
+        ).toBe('0 -432')
+        expect(
+          positionOf(
+            buildFcpxmlFromTemplate(cues, {
+              placement: 'bottom',
+              width: 3840,
+              height: 2160,
+            }),
+          ),
+        ).toBe('0 -864')
+      })
+
+      it('should write the position as the first title param', () => {
+        const xml = buildFcpxmlFromTemplate(cues, { placement: 'top' })
+
+        expect(xml).toContain(
+          [
+            'duration="48/24s">',
+            '                                <param name="Position" key="9999/999166631/999166633/1/100/101" value="0 432"/>',
+            '                                <param name="Flatten"',
+          ].join('\n'),
+        )
+        expect(xml).not.toMatch(/{[A-Z_]+}/)
+      })
+
+      it('should accept explicit points in pixels or percent', () => {
+        expect(
+          positionOf(
+            buildFcpxmlFromTemplate(cues, { placement: { x: 480, y: 1026 } }),
+          ),
+        ).toBe('-480 -486')
+        expect(
+          positionOf(
+            buildFcpxmlFromTemplate(cues, {
+              placement: { x: '75%', y: '12.5%' },
+            }),
+          ),
+        ).toBe('480 405')
+      })
+
+      it('should apply cue settings over the placement option', () => {
+        const placed = (settings: SrtCue['settings']) =>
+          positionOf(
+            buildFcpxmlFromTemplate([{ ...cues[0], settings }], {
+              placement: 'bottom',
+            }),
+          )
+
+        expect(placed({ line: '0%' })).toBe('0 432')
+        expect(placed({ line: '50%' })).toBeUndefined()
+        expect(placed({ line: '30%', position: '25%' })).toBe('-480 216')
+        expect(placed({ line: '0' })).toBe('0 432')
+        expect(placed({ line: '-1' })).toBe('0 -432')
+        expect(placed({ position: '50%' })).toBe('0 -432')
+      })
+
+      it('should align text by the WebVTT align setting', () => {
+        const { cues: aligned } = parseVtt(
+          'WEBVTT\n\n00:00:01.000 --> 00:00:03.000 align:start\nStart\n\n00:00:04.000 --> 00:00:06.000 align:end\nEnd\n',
+        )
+        const xml = buildFcpxmlFromTemplate(aligned)
+
+        expect(xml).toMatch(
+          /<text-style ref="ts1">Start[\s\S]*?alignment="left"/,
+        )
+        expect(xml).toMatch(
+          /<text-style ref="ts2">End[\s\S]*?alignment="right"/,
+        )
+      })
+
+      it('should keep bottom alignment tags at the bottom', () => {
+        const { cues: tagged } = parseSrt(
+          '1\n00:00:01,000 --> 00:00:03,000\n{\\an2}Bottom center\n',
+        )
+
+        expect(
+          positionOf(buildFcpxmlFromTemplate(tagged, { placement: 'middle' })),
+        ).toBe('0 -432')
+        expect(
+          positionOf(buildFcpxmlFromTemplate(tagged, { placement: 'top' })),
+        ).toBe('0 -432')
+      })
+
+      it('should write the position param in inline titles', () => {
+        const xml = buildFcpxml(
+          [{ ...cues[0], text: 'Sign', settings: { line: '0%' } }],
+          { placement: 'bottom' },
+        )
+
+        expect(xml).toContain(
+          '                <param name="Position" key="9999/999166631/999166633/1/100/101" value="0 432"/>\n                <text>',
+        )
+      })
+
+      it('should set iTT caption placement from the position', () => {
+        const xml = buildFcpxmlFromTemplate(
+          [cues[0], { ...cues[0], index: 2, settings: { line: '0%' } }],
+          { outputMode: 'captions' },
+        )
+
+        expect(xml).toContain('<text placement="bottom">')
+        expect(xml).toContain('<text placement="top">')
+        expect(xml).not.toContain('name="Position"')
+      })
+
+      it('should reject invalid placements', () => {
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, { placement: 'left' as Placement }),
+        ).toThrow('Invalid placement: left')
+        expect(() =>
+          buildFcpxmlFromTemplate(cues, {
+            placement: { x: '50', y: 100 },
+          }),
+        ).toThrow('Invalid placement: {"x":"50","y":100}')
+      })
+    })
   })
 
   describe('XML Security and Escaping', () => {
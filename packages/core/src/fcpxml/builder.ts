@@ -1,20 +1,129 @@
 import { readFileSync } from 'node:fs'
-import { dirname, join } from 'node:path'
-import { fileURLToPath } from 'node:url'
-import { stripHtmlTags } from '~/srt/parser'
-import { DEFAULT_OPTIONS, type Srt2FcpxOptions, type SrtCue } from '~/types'
+import { basename, dirname, extname, join } from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import { cleanupCueTiming } from '~/cue/cleanup'
+import { mergeShortCues } from '~/cue/merge'
+import { resolveOverlaps } from '~/cue/overlaps'
+import { type CueFrames, quantizeCues } from '~/cue/quantize'
+import { splitLongCues } from '~/cue/split'
+import { applyTimingMap, resolveTimingMap } from '~/cue/timing'
+import { wrapCueLines } from '~/cue/wrap'
+import {
+  type FrameDuration,
+  formatFrameDuration,
+  framesToFraction,
+  getFormatName,
+  getFrameDuration,
+  getTimecodeFormat,
+  millisecondsToFrames,
+  resolveTimecode,
+} from '~/fcpxml/time'
+import { parseSrtTextRuns, stripHtmlTags } from '~/srt/parser'
+import {
+  type CaptionFormat,
+  type ConversionStep,
+  type CueStyle,
+  type CueTextRun,
+  type CueTrack,
+  DEFAULT_OPTIONS,
+  type ResolvedSrt2FcpxOptions,
+  type Srt2FcpxOptions,
+  type SrtCue,
+  type VideoAsset,
+} from '~/types'
 
 /**
- * Convert milliseconds to FCPXML fraction format with frame alignment
- * @param ms Milliseconds
- * @param frameRate Frame rate (default: 24)
- * @returns FCPXML timecode (e.g., "72/24s")
+ * Frame-based timing shared by every element of a sequence
  */
-function millisecondsToFraction(ms: number, frameRate: number): string {
-  const seconds = ms / 1000
-  // Round to frame boundary
-  const frames = Math.floor(seconds * frameRate)
-  return `${frames}/${frameRate}s`
+interface SequenceTiming {
+  /** Rational frame duration of the timeline */
+  frameDuration: FrameDuration
+
+  /** Sequence tcFormat attribute */
+  tcFormat: 'DF' | 'NDF'
+
+  /** Sequence start (tcStart) in frames */
+  startFrame: number
+
+  /** Timeline frame that SRT time zero maps to */
+  srtZeroFrame: number
+}
+
+/**
+ * Resolve frame duration, timecode format and start offsets from options
+ * @throws {Error} If the frame rate or a timecode option is invalid
+ */
+function resolveSequenceTiming(opts: ResolvedSrt2FcpxOptions): SequenceTiming {
+  const frameDuration = getFrameDuration(opts.frameRate)
+  const tcFormat = getTimecodeFormat(opts.frameRate, opts.dropFrame)
+  const dropFrame = tcFormat === 'DF'
+
+  const startFrame = resolveTimecode(
+    opts.startTimecode,
+    frameDuration,
+    dropFrame,
+  )
+  const srtZeroFrame =
+    opts.srtZeroTimecode === undefined
+      ? startFrame
+      : resolveTimecode(opts.srtZeroTimecode, frameDuration, dropFrame)
+
+  return { frameDuration, tcFormat, startFrame, srtZeroFrame }
+}
+
+/**
+ * Calculate the timeline offset and duration of a quantized cue
+ * @returns FCPXML times for the offset and duration attributes
+ * @throws {Error} If the cue would start before the sequence start
+ */
+function getCueTiming(
+  frames: CueFrames,
+  timing: SequenceTiming,
+): { offset: string; duration: string } {
+  const { frameDuration } = timing
+  const offsetFrame = timing.srtZeroFrame + frames.startFrame
+
+  if (offsetFrame < timing.startFrame) {
+    throw new Error(
+      `Cue ${frames.cue.index} starts before the sequence start timecode`,
+    )
+  }
+
+  return {
+    offset: framesToFraction(offsetFrame, frameDuration),
+    duration: framesToFraction(
+      frames.endFrame - frames.startFrame,
+      frameDuration,
+    ),
+  }
+}
+
+/**
+ * Format the sequence tcStart attribute ("0s" when starting at zero)
+ */
+function formatTcStart(timing: SequenceTiming): string {
+  return timing.startFrame === 0
+    ? '0s'
+    : framesToFraction(timing.startFrame, timing.frameDuration)
+}
+
+/**
+ * Calculate the sequence duration (from tcStart to the latest cue end)
+ * @returns FCPXML time for the sequence duration attribute
+ */
+function getSequenceDuration(
+  frames: CueFrames[],
+  timing: SequenceTiming,
+): string {
+  const { frameDuration } = timing
+  const maxEndFrame =
+    frames.length > 0 ? Math.max(...frames.map((f) => f.endFrame)) : 0
+  const endFrame = timing.srtZeroFrame + maxEndFrame
+
+  return framesToFraction(
+    Math.max(0, endFrame - timing.startFrame),
+    frameDuration,
+  )
 }
 
 /**
@@ -178,6 +287,318 @@ function hexToFcpxmlColor(hex: string): string {
   )}`
 }
 
+/**
+ * Build <text-style> attributes from the options and an optional cue style
+ * @param opts Merged conversion options
+ * @param style Cue or run style overriding the options
+ * @returns Attribute string (e.g., 'font="Helvetica" fontSize="72" ...')
+ */
+function buildTextStyleAttributes(
+  opts: ResolvedSrt2FcpxOptions,
+  style: CueStyle = {},
+): string {
+  const attrs: Record<string, string | number> = {
+    font: style.fontFamily ?? opts.fontFamily,
+    fontSize: style.fontSize ?? opts.fontSize,
+    fontFace: style.fontFace ?? opts.fontFace,
+    fontColor: hexToFcpxmlColor(style.textColor ?? opts.textColor),
+    backgroundColor: hexToFcpxmlColor(opts.backgroundColor),
+    alignment: style.alignment ?? 'center',
+  }
+
+  // Add stroke attributes if strokeWidth is not 0 (can be positive or negative)
+  const strokeWidth = style.strokeWidth ?? opts.strokeWidth
+  if (strokeWidth !== 0) {
+    attrs.strokeColor = hexToFcpxmlColor(style.strokeColor ?? opts.strokeColor)
+    attrs.strokeWidth = strokeWidth
+  }
+
+  if (style.bold) {
+    attrs.bold = 1
+  }
+  if (style.italic) {
+    attrs.italic = 1
+  }
+  if (style.underline) {
+    attrs.underline = 1
+  }
+
+  return buildAttributes(attrs)
+}
+
+/**
+ * Build caption <text-style> attributes (captions take their font from the
+ * caption format, so only colors and emphasis are written)
+ * @param opts Merged conversion options
+ * @param style Cue or run style overriding the options
+ */
+function buildCaptionStyleAttributes(
+  opts: ResolvedSrt2FcpxOptions,
+  style: CueStyle = {},
+): string {
+  const attrs: Record<string, string | number> = {
+    fontColor: hexToFcpxmlColor(style.textColor ?? opts.textColor),
+    backgroundColor: hexToFcpxmlColor(opts.backgroundColor),
+  }
+
+  if (style.bold) {
+    attrs.bold = 1
+  }
+  if (style.italic) {
+    attrs.italic = 1
+  }
+  if (style.underline) {
+    attrs.underline = 1
+  }
+
+  return buildAttributes(attrs)
+}
+
+/**
+ * Caption role prefixes and format identifiers by caption format
+ */
+const CAPTION_ROLES: Record<CaptionFormat, { role: string; format: string }> = {
+  ITT: { role: 'iTT', format: 'ITT' },
+  SRT: { role: 'SRT', format: 'SRT' },
+  CEA608: { role: 'CEA-608', format: '608' },
+}
+
+/**
+ * Build the caption role (e.g., "iTT?captionFormat=ITT.en")
+ * @throws {Error} If the caption format or language is invalid
+ */
+function getCaptionRole(opts: ResolvedSrt2FcpxOptions): string {
+  const captionRole = CAPTION_ROLES[opts.captionFormat]
+  if (!captionRole) {
+    throw new Error(`Invalid caption format: ${opts.captionFormat}`)
+  }
+  if (!/^[a-zA-Z]{2,3}(?:-[a-zA-Z0-9]{2,8})*$/.test(opts.captionLanguage)) {
+    throw new Error(`Invalid caption language: ${opts.captionLanguage}`)
+  }
+  return `${captionRole.role}?captionFormat=${captionRole.format}.${opts.captionLanguage}`
+}
+
+/**
+ * Build the caption <text> attributes of the caption format
+ * @param position Title position of the cue (iTT captions go to the top or
+ * bottom of the frame)
+ * @returns Attribute string with a leading space, or an empty string
+ */
+function getCaptionTextAttributes(
+  opts: ResolvedSrt2FcpxOptions,
+  position: TitlePosition,
+): string {
+  switch (opts.captionFormat) {
+    case 'ITT':
+      return ` placement="${position.y > 0 ? 'top' : 'bottom'}"`
+    case 'CEA608':
+      return ' display-style="pop-on"'
+    default:
+      return ''
+  }
+}
+
+/**
+ * Distance of the "top" and "bottom" placements from the frame edge
+ * (percent of the frame height)
+ */
+const PLACEMENT_MARGIN = 10
+
+/**
+ * Placement presets as percent of the frame width/height from the top-left
+ */
+const PLACEMENT_PRESETS: Record<string, { x: number; y: number }> = {
+  middle: { x: 50, y: 50 },
+  top: { x: 50, y: PLACEMENT_MARGIN },
+  bottom: { x: 50, y: 100 - PLACEMENT_MARGIN },
+}
+
+/**
+ * Title position in FCP coordinates (pixels from the frame center, y up)
+ */
+interface TitlePosition {
+  x: number
+  y: number
+}
+
+/**
+ * Parse a percentage (e.g., "12.5%")
+ */
+function parsePercent(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(-?\d+(?:\.\d+)?)%$/)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Convert an explicit placement coordinate (pixels or percent) to percent
+ */
+function placementCoordinateToPercent(
+  value: unknown,
+  size: number,
+): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? (value / size) * 100 : undefined
+  }
+  return typeof value === 'string' ? parsePercent(value) : undefined
+}
+
+/**
+ * Resolve the placement option to percent of the frame width/height
+ * @throws {Error} If the placement is neither a preset nor a valid point
+ */
+function resolvePlacement(opts: ResolvedSrt2FcpxOptions): {
+  x: number
+  y: number
+} {
+  const { placement } = opts
+
+  if (typeof placement === 'string') {
+    const preset = PLACEMENT_PRESETS[placement]
+    if (!preset) {
+      throw new Error(`Invalid placement: ${placement}`)
+    }
+    return preset
+  }
+
+  const x = placementCoordinateToPercent(placement?.x, opts.width)
+  const y = placementCoordinateToPercent(placement?.y, opts.height)
+  if (x === undefined || y === undefined) {
+    throw new Error(`Invalid placement: ${JSON.stringify(placement)}`)
+  }
+  return { x, y }
+}
+
+/**
+ * Get the title position of a cue
+ *
+ * Percentage cue settings override the placement option: "line" sets the
+ * vertical position (kept inside the top/bottom margin) and "position" the
+ * horizontal one. WebVTT line numbers snap to the top (0, 1, ...) or bottom
+ * (-1, -2, ...) placement.
+ */
+function getTitlePosition(
+  cue: SrtCue,
+  opts: ResolvedSrt2FcpxOptions,
+): TitlePosition {
+  const placement = resolvePlacement(opts)
+  const line = cue.settings?.line?.trim()
+
+  let y = placement.y
+  const linePercent = parsePercent(line)
+  if (linePercent !== undefined) {
+    y = Math.min(
+      Math.max(linePercent, PLACEMENT_MARGIN),
+      100 - PLACEMENT_MARGIN,
+    )
+  } else if (line && /^-?\d+$/.test(line)) {
+    y = Number(line) < 0 ? PLACEMENT_PRESETS.bottom.y : PLACEMENT_PRESETS.top.y
+  }
+  const x = parsePercent(cue.settings?.position) ?? placement.x
+
+  // Round to hundredths of a pixel (and turn -0 into 0)
+  const round = (value: number) => Math.round(value * 100) / 100 || 0
+  return {
+    x: round(((x - 50) / 100) * opts.width),
+    y: round(((50 - y) / 100) * opts.height),
+  }
+}
+
+/**
+ * Build the Basic Title Position <param>
+ * @returns The param, or undefined at the frame center (the title default)
+ */
+function buildPositionParam(position: TitlePosition): string | undefined {
+  if (position.x === 0 && position.y === 0) {
+    return undefined
+  }
+  return `<param name="Position" key="9999/999166631/999166633/1/100/101" value="${position.x} ${position.y}"/>`
+}
+
+/**
+ * Check the output mode option
+ * @throws {Error} If the output mode is unknown
+ */
+function isCaptionMode(opts: ResolvedSrt2FcpxOptions): boolean {
+  if (opts.outputMode !== 'titles' && opts.outputMode !== 'captions') {
+    throw new Error(`Invalid output mode: ${opts.outputMode}`)
+  }
+  return opts.outputMode === 'captions'
+}
+
+/**
+ * Check the storyline option
+ * @throws {Error} If the storyline is unknown
+ */
+function isGapStoryline(opts: ResolvedSrt2FcpxOptions): boolean {
+  if (opts.storyline !== 'gap' && opts.storyline !== 'titles') {
+    throw new Error(`Invalid storyline: ${opts.storyline}`)
+  }
+  return opts.storyline === 'gap'
+}
+
+/**
+ * A run of title text with its own text-style-def
+ */
+interface StyledText {
+  /** text-style-def id (e.g., "ts1" or "ts1-2") */
+  styleId: string
+
+  /** Escaped text content */
+  text: string
+
+  /** <text-style> attribute string */
+  attributes: string
+}
+
+/**
+ * Split a cue into escaped text runs with their text-style attributes
+ *
+ * Cues with styled runs (e.g., from ASS override tags) get one text-style-def
+ * per run; other cues are split at their <b>, <i>, <u> and <font> tags, or get
+ * a single run with HTML tags stripped when stripTags is set.
+ */
+function buildStyledText(
+  cue: SrtCue,
+  index: number,
+  opts: ResolvedSrt2FcpxOptions,
+  buildStyleAttributes: (style: CueStyle) => string,
+): StyledText[] {
+  const runs = getTextRuns(cue, opts)
+
+  return runs.map((run, runIndex) => ({
+    styleId:
+      runs.length === 1 ? `ts${index + 1}` : `ts${index + 1}-${runIndex + 1}`,
+    text: escapeXmlContent(run.text),
+    attributes: buildStyleAttributes({ ...cue.style, ...run.style }),
+  }))
+}
+
+/**
+ * Get the sanitized text runs of a cue (always at least one run)
+ */
+function getTextRuns(cue: SrtCue, opts: ResolvedSrt2FcpxOptions): CueTextRun[] {
+  if (cue.runs) {
+    return cue.runs.map((run) => ({ ...run, text: sanitizeXmlInput(run.text) }))
+  }
+
+  const text = sanitizeXmlInput(cue.text)
+  if (opts.stripTags) {
+    return [{ text: stripHtmlTags(text) }]
+  }
+
+  const runs = parseSrtTextRuns(text)
+  return runs.length > 0 ? runs : [{ text: '' }]
+}
+
+/**
+ * Create an abbreviated clip name from escaped title text
+ */
+function getDisplayName(styledText: StyledText[]): string {
+  const text = styledText.map((run) => run.text).join('')
+  const titlePreview = text.substring(0, 20).replace(/\n/g, ' ')
+  return text.length > 20 ? `${titlePreview}...` : titlePreview
+}
+
 /**
  * Get the fixtures directory path
  */
@@ -191,7 +612,11 @@ function getFixturesPath(): string {
 /**
  * Load template files
  */
-function loadTemplates(): { baseTemplate: string; titleTemplate: string } {
+function loadTemplates(): {
+  baseTemplate: string
+  titleTemplate: string
+  captionTemplate: string
+} {
   const fixturesPath = getFixturesPath()
   const baseTemplate = readFileSync(
     join(fixturesPath, 'base-template.fcpxml'),
@@ -201,102 +626,531 @@ function loadTemplates(): { baseTemplate: string; titleTemplate: string } {
     join(fixturesPath, 'title-template.xml'),
     'utf-8',
   )
-  return { baseTemplate, titleTemplate }
+  const captionTemplate = readFileSync(
+    join(fixturesPath, 'caption-template.xml'),
+    'utf-8',
+  )
+  return { baseTemplate, titleTemplate, captionTemplate }
 }
 
 /**
  * Build a title XML from template
+ * @param lane Connected lane, or undefined for a title in the spine
  */
 function buildTitleFromTemplate(
-  cue: SrtCue,
+  frames: CueFrames,
   index: number,
-  frameRate: number,
+  timing: SequenceTiming,
   titleTemplate: string,
+  opts: ResolvedSrt2FcpxOptions,
+  lane: number | undefined,
 ): string {
-  const offset = millisecondsToFraction(cue.startMs, frameRate)
+  const { cue } = frames
+  const { offset, duration } = getCueTiming(frames, timing)
   const start = offset // In this template, start and offset are the same
-  const duration = millisecondsToFraction(cue.endMs - cue.startMs, frameRate)
 
   // Sanitize input, strip HTML tags and escape XML content
-  const sanitizedText = sanitizeXmlInput(cue.text)
-  const cleanText = stripHtmlTags(sanitizedText)
-  const text = escapeXmlContent(cleanText)
+  const styledText = buildStyledText(cue, index, opts, (style) =>
+    buildTextStyleAttributes(opts, style),
+  )
+  const displayName = getDisplayName(styledText)
+  const positionParam = buildPositionParam(getTitlePosition(cue, opts))
 
-  // Create abbreviated display name for clip
-  const titlePreview = text.substring(0, 20).replace(/\n/g, ' ')
-  const displayName = text.length > 20 ? `${titlePreview}...` : titlePreview
+  const textStyles = styledText.map(
+    (run) => `<text-style ref="${run.styleId}">${run.text}</text-style>`,
+  )
+  const textStyleDefs = styledText.map(
+    (run) =>
+      `<text-style-def id="${run.styleId}">\n    <text-style ${run.attributes}/>\n</text-style-def>`,
+  )
 
-  const styleId = `ts${index + 1}`
+  // Connected titles sit one level deeper, inside the gap clip
+  const template =
+    lane === undefined
+      ? titleTemplate
+      : titleTemplate.replace(/^(?=.)/gm, '    ')
 
   // Replace placeholders in template
-  return titleTemplate
+  // (run and def placeholders repeat with the indentation of their line, and
+  // the position line is dropped for centered titles)
+  return template
+    .replace(/{LANE_ATTRIBUTE}/g, lane === undefined ? '' : ` lane="${lane}"`)
     .replace(/{OFFSET}/g, offset)
     .replace(/{START}/g, start)
     .replace(/{DURATION}/g, duration)
-    .replace(/{DISPLAY_NAME}/g, displayName)
-    .replace(/{STYLE_ID}/g, styleId)
-    .replace(/{TEXT}/g, text)
+    .replace(/{DISPLAY_NAME}/g, () => displayName)
+    .replace(/^([ \t]*){POSITION}\n/gm, (_, pad: string) =>
+      positionParam ? `${pad}${positionParam}\n` : '',
+    )
+    .replace(/^([ \t]*){TEXT_STYLE_DEFS}$/gm, (_, pad: string) =>
+      textStyleDefs.map((def) => def.replace(/^/gm, pad)).join('\n'),
+    )
+    .replace(/^([ \t]*){TEXT_STYLES}$/gm, (_, pad: string) =>
+      textStyles.map((textStyle) => pad + textStyle).join('\n'),
+    )
 }
 
 /**
- * Convert a single SRT cue to a <title> element
+ * Build a caption XML from template
  */
-function buildTitleXml(
-  cue: SrtCue,
+function buildCaptionFromTemplate(
+  frames: CueFrames,
   index: number,
-  frameRate: number,
-  opts: Required<Srt2FcpxOptions>,
-  textColor: string,
-  backgroundColor: string,
-  strokeColor: string,
+  timing: SequenceTiming,
+  captionTemplate: string,
+  opts: ResolvedSrt2FcpxOptions,
+  lane: number,
 ): string {
-  const offset = millisecondsToFraction(cue.startMs, frameRate)
-  const duration = millisecondsToFraction(cue.endMs - cue.startMs, frameRate)
+  const { cue } = frames
+  const { offset, duration } = getCueTiming(frames, timing)
+  const role = getCaptionRole(opts)
+
+  // Sanitize input, strip HTML tags and escape XML content
+  const styledText = buildStyledText(cue, index, opts, (style) =>
+    buildCaptionStyleAttributes(opts, style),
+  )
+  const displayName = getDisplayName(styledText)
+
+  const textStyles = styledText.map(
+    (run) => `<text-style ref="${run.styleId}">${run.text}</text-style>`,
+  )
+  const textStyleDefs = styledText.map(
+    (run) =>
+      `<text-style-def id="${run.styleId}">\n    <text-style ${run.attributes}/>\n</text-style-def>`,
+  )
+
+  // The gap clip starts at tcStart, so caption offsets are timeline offsets
+  return captionTemplate
+    .replace(/{LANE}/g, String(lane))
+    .replace(/{OFFSET}/g, offset)
+    .replace(/{START}/g, offset)
+    .replace(/{DURATION}/g, duration)
+    .replace(/{DISPLAY_NAME}/g, () => displayName)
+    .replace(/{ROLE}/g, () => escapeXmlAttribute(role))
+    .replace(
+      /{TEXT_ATTRIBUTES}/g,
+      getCaptionTextAttributes(opts, getTitlePosition(cue, opts)),
+    )
+    .replace(/^([ \t]*){TEXT_STYLE_DEFS}$/gm, (_, pad: string) =>
+      textStyleDefs.map((def) => def.replace(/^/gm, pad)).join('\n'),
+    )
+    .replace(/^([ \t]*){TEXT_STYLES}$/gm, (_, pad: string) =>
+      textStyles.map((textStyle) => pad + textStyle).join('\n'),
+    )
+}
+
+/**
+ * Convert a single SRT cue to a <caption> element
+ */
+function buildCaptionXml(
+  frames: CueFrames,
+  index: number,
+  timing: SequenceTiming,
+  opts: ResolvedSrt2FcpxOptions,
+  lane: number,
+): string {
+  const { cue } = frames
+  const { offset, duration } = getCueTiming(frames, timing)
+  const role = escapeXmlAttribute(getCaptionRole(opts))
 
   // Sanitize input, strip HTML tags and escape for XML content
-  const sanitizedText = sanitizeXmlInput(cue.text)
-  const cleanText = stripHtmlTags(sanitizedText)
-  const text = escapeXmlContent(cleanText)
+  const styledText = buildStyledText(cue, index, opts, (style) =>
+    buildCaptionStyleAttributes(opts, style),
+  )
+  const captionName = getDisplayName(styledText)
 
-  // Create abbreviated title for clip name
-  const titlePreview = text.substring(0, 20).replace(/\n/g, ' ')
-  const titleName = text.length > 20 ? `${titlePreview}...` : titlePreview
+  // Preserve newlines in text content by using placeholder
+  const NEWLINE_PLACEHOLDER = '___NEWLINE___'
+  const textStyles = styledText
+    .map(
+      (run) =>
+        `    <text-style ref="${run.styleId}">${run.text.replace(/\n/g, NEWLINE_PLACEHOLDER)}</text-style>`,
+    )
+    .join('\n')
+  const textStyleDefs = styledText
+    .map(
+      (run) => `  <text-style-def id="${run.styleId}">
+    <text-style ${run.attributes}/>
+  </text-style-def>`,
+    )
+    .join('\n')
 
-  const styleId = `ts${index + 1}`
+  const xml = `
+<caption lane="${lane}" offset="${offset}" name="${captionName}" start="${offset}" duration="${duration}" role="${role}">
+  <text${getCaptionTextAttributes(opts, getTitlePosition(cue, opts))}>
+${textStyles}
+  </text>
+${textStyleDefs}
+</caption>`
 
-  const attrs: Record<string, string | number> = {
-    font: opts.fontFamily,
-    fontSize: opts.fontSize,
-    fontFace: opts.fontFace,
-    fontColor: textColor,
-    backgroundColor,
-    alignment: 'center',
+  // Adjust indentation level for gap content
+  const indented = indent(xml, 7) // Equivalent to 14 spaces
+
+  // Restore newlines in text content
+  return indented.replace(new RegExp(NEWLINE_PLACEHOLDER, 'g'), '\n')
+}
+
+/**
+ * Spine clip (gap or video) that connected clips attach to
+ */
+interface StorylineClip {
+  /** Opening tag of the clip element */
+  open: string
+
+  /** Closing tag of the clip element */
+  close: string
+
+  /** Timing of connected clips, whose offsets are in the clip's own time */
+  timing: SequenceTiming
+}
+
+/**
+ * Build a clip for one cue
+ * @param frames Cue with its boundaries in frames
+ * @param index Cue index across all tracks (keeps text-style ids unique)
+ * @param timing Timing of the parent (sequence or storyline clip)
+ * @param opts Conversion options merged with the track options
+ * @param lane Connected lane, or undefined for a title in the spine
+ */
+type ClipBuilder = (
+  frames: CueFrames,
+  index: number,
+  timing: SequenceTiming,
+  opts: ResolvedSrt2FcpxOptions,
+  lane: number | undefined,
+) => string
+
+/**
+ * Build a gap clip spanning the sequence
+ */
+function buildGapClip(timing: SequenceTiming, duration: string): StorylineClip {
+  const tcStart = formatTcStart(timing)
+  return {
+    open: `<gap name="Gap" offset="${tcStart}" start="${tcStart}" duration="${duration}">`,
+    close: '</gap>',
+    timing,
   }
+}
 
-  // Add stroke attributes if strokeWidth is not 0 (can be positive or negative)
-  if (opts.strokeWidth !== 0) {
-    attrs.strokeColor = strokeColor
-    attrs.strokeWidth = opts.strokeWidth
+/**
+ * Spine clip, extra resources and duration of a sequence
+ */
+interface SequenceStoryline {
+  /** Storyline clip that cues connect to */
+  clip: StorylineClip
+
+  /** Extra resource lines (the video <format> and <asset>), unindented */
+  resources: string
+
+  /** Sequence duration */
+  duration: string
+}
+
+/**
+ * Build the asset and asset clip of a referenced video
+ *
+ * The asset uses the sequence format unless its frame rate or dimensions
+ * differ. Cues connect at their video time, counted from the video's start
+ * timecode.
+ *
+ * @throws {Error} If the path, duration or video frame rate is invalid, or a
+ * cue starts after the end of the video
+ */
+function buildVideoStoryline(
+  asset: VideoAsset,
+  frames: CueFrames[],
+  timing: SequenceTiming,
+  opts: ResolvedSrt2FcpxOptions,
+  indentUnit: string,
+): SequenceStoryline {
+  if (!asset.path) {
+    throw new Error('Missing video asset path')
+  }
+  if (!Number.isFinite(asset.duration) || asset.duration <= 0) {
+    throw new Error(`Invalid video asset duration: ${asset.duration}`)
   }
 
-  const textStyleAttrs = buildAttributes(attrs)
+  const { frameDuration } = timing
+  const durationFrames = millisecondsToFrames(asset.duration, frameDuration)
+  const lateCue = frames.find(
+    (f) =>
+      timing.srtZeroFrame + f.startFrame >= timing.startFrame + durationFrames,
+  )
+  if (lateCue) {
+    throw new Error(
+      `Cue ${lateCue.cue.index} starts after the end of the video`,
+    )
+  }
+
+  // Connected clip offsets are in the video's own timecode
+  const assetStartFrame = resolveTimecode(
+    asset.startTimecode ?? 0,
+    frameDuration,
+    timing.tcFormat === 'DF',
+  )
+  const clipTiming: SequenceTiming = {
+    ...timing,
+    startFrame: assetStartFrame,
+    srtZeroFrame: timing.srtZeroFrame - timing.startFrame + assetStartFrame,
+  }
+
+  const frameRate = asset.frameRate ?? opts.frameRate
+  const width = asset.width ?? opts.width
+  const height = asset.height ?? opts.height
+  const sameFormat =
+    frameRate === opts.frameRate &&
+    width === opts.width &&
+    height === opts.height
+  const formatLine = sameFormat
+    ? ''
+    : `<format id="r4" name="${getFormatName(height, frameRate)}" frameDuration="${formatFrameDuration(getFrameDuration(frameRate))}" width="${width}" height="${height}"/>\n`
+
+  const src = asset.path.startsWith('file://')
+    ? asset.path
+    : pathToFileURL(asset.path).href
+  const name = escapeXmlAttribute(
+    asset.name ??
+      basename(decodeURIComponent(src), extname(decodeURIComponent(src))),
+  )
+  const start = formatTcStart(clipTiming)
+  const duration = framesToFraction(durationFrames, frameDuration)
+
+  return {
+    resources: `${formatLine}<asset id="r3" name="${name}" start="${start}" duration="${duration}" hasVideo="1" format="${sameFormat ? 'r1' : 'r4'}" videoSources="1">
+${indentUnit}<media-rep kind="original-media" src="${escapeXmlAttribute(src)}"/>
+</asset>`,
+    clip: {
+      open: `<asset-clip ref="r3" offset="${formatTcStart(timing)}" name="${name}" start="${start}" duration="${duration}" tcFormat="${timing.tcFormat}">`,
+      close: '</asset-clip>',
+      timing: clipTiming,
+    },
+    duration,
+  }
+}
+
+/**
+ * Resolve what the cues connect to: the referenced video, or a gap clip
+ * spanning the cues
+ * @param indentUnit One indentation level of the output
+ */
+function resolveStoryline(
+  lanes: Lane[],
+  timing: SequenceTiming,
+  opts: ResolvedSrt2FcpxOptions,
+  indentUnit: string,
+): SequenceStoryline {
+  const frames = lanes.flatMap((lane) => lane.frames)
+  if (opts.videoAsset) {
+    return buildVideoStoryline(
+      opts.videoAsset,
+      frames,
+      timing,
+      opts,
+      indentUnit,
+    )
+  }
+
+  const duration = getSequenceDuration(frames, timing)
+  return { clip: buildGapClip(timing, duration), resources: '', duration }
+}
+
+/**
+ * Frame-quantized cues of one lane with the options of their track
+ */
+interface Lane {
+  frames: CueFrames[]
+  opts: ResolvedSrt2FcpxOptions
+}
+
+/**
+ * Merge the fragmented short cues of each track (see mergeShortCues), split
+ * its long cues (see splitLongCues), wrap its lines (see wrapCueLines), clean
+ * up its timing (see cleanupCueTiming), resolve its overlapping cues into
+ * lanes (see resolveOverlaps) and round the cues of each lane to frames (see
+ * quantizeCues)
+ *
+ * The messages of each pass are passed to the onReport option.
+ */
+function resolveLanes(
+  tracks: CueTrack[],
+  opts: ResolvedSrt2FcpxOptions,
+): Lane[] {
+  return tracks.flatMap((track, trackIndex) => {
+    const trackOpts: ResolvedSrt2FcpxOptions = { ...opts, ...track.options }
+    const report = (step: ConversionStep, messages: string[]) => {
+      for (const message of messages) {
+        opts.onReport?.({ step, track: trackIndex + 1, message })
+      }
+    }
+
+    let trackCues = track.cues
+    if (opts.merge) {
+      const { cues, merges } = mergeShortCues(trackCues, opts.merge)
+      report('merge', merges)
+      trackCues = cues
+    }
+    if (opts.split) {
+      const { cues, splits } = splitLongCues(trackCues, opts.split)
+      report('split', splits)
+      trackCues = cues
+    }
+    if (opts.wrap) {
+      const { cues, overflows } = wrapCueLines(
+        trackCues,
+        opts.wrap,
+        trackOpts.fontSize,
+      )
+      report('wrap', overflows)
+      trackCues = cues
+    }
+    if (opts.cleanup) {
+      const { cues, adjustments } = cleanupCueTiming(trackCues, opts.cleanup)
+      report('cleanup', adjustments)
+      trackCues = cues
+    }
+    const { lanes, decisions } = resolveOverlaps(trackCues, opts.overlap)
+    report('overlap', decisions)
+    return lanes.map((cues) => {
+      const { frames, warnings } = quantizeCues(
+        cues,
+        opts.frameRate,
+        opts.quantize,
+      )
+      report('quantize', warnings)
+      return { frames, opts: trackOpts }
+    })
+  })
+}
+
+/**
+ * Build the spine content of all lanes
+ *
+ * Clips connect to one storyline clip (a gap spanning the sequence, or the
+ * video), so the spine is a contiguous storyline, with lanes numbered from 1
+ * in track order (each track taking one lane, plus one per extra overlap
+ * lane) so each track can be selected on its own. With the "titles"
+ * storyline and no video, a single title track without overlaps keeps its
+ * titles in the spine instead.
+ *
+ * @param timing Sequence timing (for titles in the spine)
+ * @param storyline Spine clip that connected clips attach to
+ * @param pad Indentation of the storyline clip
+ */
+function buildSpineContent(
+  lanes: Lane[],
+  opts: ResolvedSrt2FcpxOptions,
+  timing: SequenceTiming,
+  storyline: StorylineClip,
+  pad: string,
+  buildClip: ClipBuilder,
+): string {
+  const connected =
+    isGapStoryline(opts) ||
+    isCaptionMode(opts) ||
+    lanes.length > 1 ||
+    opts.videoAsset !== undefined
+  const clipTiming = connected ? storyline.timing : timing
+
+  let cueIndex = 0
+  const clipsXml = lanes
+    .flatMap((lane, laneIndex) =>
+      lane.frames.map((frames) =>
+        buildClip(
+          frames,
+          cueIndex++,
+          clipTiming,
+          lane.opts,
+          connected ? laneIndex + 1 : undefined,
+        ),
+      ),
+    )
+    .join('\n')
+
+  if (!connected) {
+    return clipsXml
+  }
+
+  return `${pad}${storyline.open}
+${clipsXml.trimEnd()}
+${pad}${storyline.close}`
+}
+
+/**
+ * Normalize cues or tracks to a list of tracks
+ */
+function toCueTracks(cues: SrtCue[] | CueTrack[]): CueTrack[] {
+  return cues.some((item) => 'cues' in item)
+    ? (cues as CueTrack[])
+    : [{ cues: cues as SrtCue[] }]
+}
+
+/**
+ * Apply the retime, scale, shift and sync options to every track
+ * One timing map (with sync cues looked up in the first track) moves all
+ * tracks, so they stay in sync with each other. Cues moved before time zero
+ * are trimmed or dropped and passed to the onReport option.
+ */
+function retimeTracks(
+  tracks: CueTrack[],
+  opts: ResolvedSrt2FcpxOptions,
+): CueTrack[] {
+  const map = resolveTimingMap(tracks[0]?.cues ?? [], opts)
+  return tracks.map((track, trackIndex) => {
+    const { cues, adjustments } = applyTimingMap(track.cues, map)
+    for (const message of adjustments) {
+      opts.onReport?.({ step: 'timing', track: trackIndex + 1, message })
+    }
+    return { ...track, cues }
+  })
+}
+
+/**
+ * Convert a single SRT cue to a <title> element
+ * @param lane Connected lane, or undefined for a title in the spine
+ */
+function buildTitleXml(
+  frames: CueFrames,
+  index: number,
+  timing: SequenceTiming,
+  opts: ResolvedSrt2FcpxOptions,
+  lane: number | undefined,
+): string {
+  const { cue } = frames
+  const { offset, duration } = getCueTiming(frames, timing)
+
+  // Sanitize input, strip HTML tags and escape for XML content
+  const styledText = buildStyledText(cue, index, opts, (style) =>
+    buildTextStyleAttributes(opts, style),
+  )
+  const titleName = getDisplayName(styledText)
+  const positionParam = buildPositionParam(getTitlePosition(cue, opts))
 
   // Preserve newlines in text content by using placeholder
   const NEWLINE_PLACEHOLDER = '___NEWLINE___'
-  const textWithPlaceholder = text.replace(/\n/g, NEWLINE_PLACEHOLDER)
+  const textStyles = styledText
+    .map(
+      (run) =>
+        `    <text-style ref="${run.styleId}">${run.text.replace(/\n/g, NEWLINE_PLACEHOLDER)}</text-style>`,
+    )
+    .join('\n')
+  const textStyleDefs = styledText
+    .map(
+      (run) => `  <text-style-def id="${run.styleId}">
+    <text-style ${run.attributes}/>
+  </text-style-def>`,
+    )
+    .join('\n')
 
   const xml = `
-<title name="Basic Title: ${titleName}" offset="${offset}" ref="r2" duration="${duration}" start="${offset}">
+<title${lane === undefined ? '' : ` lane="${lane}"`} name="Basic Title: ${titleName}" offset="${offset}" ref="r2" duration="${duration}" start="${offset}">${positionParam ? `\n  ${positionParam}` : ''}
   <text>
-    <text-style ref="${styleId}">${textWithPlaceholder}</text-style>
+${textStyles}
   </text>
-  <text-style-def id="${styleId}">
-    <text-style ${textStyleAttrs}/>
-  </text-style-def>
+${textStyleDefs}
 </title>`
 
-  // Adjust indentation level for spine content
-  const indented = indent(xml, 6) // Equivalent to 12 spaces
+  // Adjust indentation level for spine (or gap) content
+  const indented = indent(xml, lane === undefined ? 6 : 7) // 12 or 14 spaces
 
   // Restore newlines in text content
   return indented.replace(new RegExp(NEWLINE_PLACEHOLDER, 'g'), '\n')
@@ -304,62 +1158,56 @@ function buildTitleXml(
 
 /**
  * Build FCPXML from SRT cues
- * @param cues Parsed SRT cues
+ * @param cues Parsed SRT cues, or subtitle tracks to put on separate lanes
  * @param options Conversion options
  * @returns FCPXML string
  */
-export function buildFcpxml(cues: SrtCue[], options?: Srt2FcpxOptions): string {
-  const opts: Required<Srt2FcpxOptions> = {
+export function buildFcpxml(
+  cues: SrtCue[] | CueTrack[],
+  options?: Srt2FcpxOptions,
+): string {
+  const opts: ResolvedSrt2FcpxOptions = {
     ...DEFAULT_OPTIONS,
     ...options,
   }
 
-  const {
-    frameRate,
-    width,
-    height,
-    titleName,
-    textColor: textColorHex,
-    backgroundColor: backgroundHex,
-    strokeColor: strokeColorHex,
-    formatVersion,
-  } = opts
-
-  const maxEndMs = cues.length > 0 ? Math.max(...cues.map((c) => c.endMs)) : 0
-  const totalDuration = millisecondsToFraction(maxEndMs, frameRate)
+  const { frameRate, width, height, titleName, formatVersion } = opts
 
-  const textColor = hexToFcpxmlColor(textColorHex)
-  const backgroundColor = hexToFcpxmlColor(backgroundHex)
-  const strokeColor = hexToFcpxmlColor(strokeColorHex)
+  const timing = resolveSequenceTiming(opts)
+  const { frameDuration, tcFormat } = timing
+  const tcStart = formatTcStart(timing)
+  const lanes = resolveLanes(retimeTracks(toCueTracks(cues), opts), opts)
+  const storyline = resolveStoryline(lanes, timing, opts, '  ')
+  const totalDuration = storyline.duration
 
   const escapedTitle = escapeXmlContent(titleName)
 
-  const titlesXml = cues
-    .map((cue, index) =>
-      buildTitleXml(
-        cue,
-        index,
-        frameRate,
-        opts,
-        textColor,
-        backgroundColor,
-        strokeColor,
-      ),
-    )
-    .join('\n')
+  const captionMode = isCaptionMode(opts)
+  const titlesXml = buildSpineContent(
+    lanes,
+    opts,
+    timing,
+    storyline.clip,
+    '            ',
+    (cue, index, clipTiming, trackOpts, lane) =>
+      captionMode
+        ? buildCaptionXml(cue, index, clipTiming, trackOpts, lane ?? 1)
+        : buildTitleXml(cue, index, clipTiming, trackOpts, lane),
+  )
+  const resourcesXml = storyline.resources.replace(/^/gm, '    ')
 
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE fcpxml>
 <fcpxml version="${formatVersion}">
   <resources>
-    <format id="r1" name="FFVideoFormat${height}p${frameRate}" frameDuration="1/${frameRate}s" width="${width}" height="${height}"/>
-    <effect id="r2" name="Basic Title" uid=".../Titles.localized/Bumper:Opener.localized/Basic Title.localized/Basic Title.moti"/>
+    <format id="r1" name="${getFormatName(height, frameRate)}" frameDuration="${formatFrameDuration(frameDuration)}" width="${width}" height="${height}"/>
+    <effect id="r2" name="Basic Title" uid=".../Titles.localized/Bumper:Opener.localized/Basic Title.localized/Basic Title.moti"/>${resourcesXml ? `\n${resourcesXml}` : ''}
   </resources>
 
   <library>
     <event name="${escapedTitle}">
       <project name="${escapedTitle}">
-        <sequence format="r1" duration="${totalDuration}" tcStart="0s" tcFormat="NDF">
+        <sequence format="r1" duration="${totalDuration}" tcStart="${tcStart}" tcFormat="${tcFormat}">
           <spine>
 ${titlesXml}
           </spine>
@@ -373,37 +1221,78 @@ ${titlesXml}
 /**
  * Build FCPXML from SRT cues using template-based approach
  * This preserves all FCP-specific parameters and structure
- * @param cues Parsed SRT cues
+ * @param cues Parsed SRT cues, or subtitle tracks to put on separate lanes
  * @param options Conversion options
  * @returns FCPXML string
  */
 export function buildFcpxmlFromTemplate(
-  cues: SrtCue[],
+  cues: SrtCue[] | CueTrack[],
   options?: Srt2FcpxOptions,
 ): string {
-  const opts: Required<Srt2FcpxOptions> = {
+  const opts: ResolvedSrt2FcpxOptions = {
     ...DEFAULT_OPTIONS,
     ...options,
   }
 
-  const { frameRate } = opts
+  const { frameRate, width, height, titleName, formatVersion } = opts
 
   // Load templates
-  const { baseTemplate, titleTemplate } = loadTemplates()
+  const { baseTemplate, titleTemplate, captionTemplate } = loadTemplates()
 
   // Calculate total sequence duration
-  const maxEndMs = cues.length > 0 ? Math.max(...cues.map((c) => c.endMs)) : 0
-  const totalDuration = millisecondsToFraction(maxEndMs, frameRate)
+  const timing = resolveSequenceTiming(opts)
+  const { frameDuration, tcFormat } = timing
+  const tcStart = formatTcStart(timing)
+  const lanes = resolveLanes(retimeTracks(toCueTracks(cues), opts), opts)
+  const storyline = resolveStoryline(lanes, timing, opts, '    ')
+  const totalDuration = storyline.duration
+
+  const escapedTitle = escapeXmlAttribute(titleName)
 
   // Build all title elements from template
-  const titlesXml = cues
-    .map((cue, index) =>
-      buildTitleFromTemplate(cue, index, frameRate, titleTemplate),
-    )
-    .join('\n')
+  // (style attributes replace the template's hard-coded <text-style>, while
+  // FCP-specific <param> and <adjust-colorConform> nodes are kept as-is)
+  const captionMode = isCaptionMode(opts)
+  const titlesXml = buildSpineContent(
+    lanes,
+    opts,
+    timing,
+    storyline.clip,
+    ' '.repeat(24),
+    (cue, index, clipTiming, trackOpts, lane) =>
+      captionMode
+        ? buildCaptionFromTemplate(
+            cue,
+            index,
+            clipTiming,
+            captionTemplate,
+            trackOpts,
+            lane ?? 1,
+          )
+        : buildTitleFromTemplate(
+            cue,
+            index,
+            clipTiming,
+            titleTemplate,
+            trackOpts,
+            lane,
+          ),
+  )
 
   // Replace placeholders in base template
+  // (function replacers keep "$" sequences in user values literal)
   return baseTemplate
+    .replace(/{FORMAT_VERSION}/g, () => escapeXmlAttribute(formatVersion))
+    .replace(/{FORMAT_NAME}/g, getFormatName(height, frameRate))
+    .replace(/{FRAME_DURATION}/g, formatFrameDuration(frameDuration))
+    .replace(/{WIDTH}/g, String(width))
+    .replace(/{HEIGHT}/g, String(height))
+    .replace(/{TITLE_NAME}/g, () => escapedTitle)
     .replace(/{SEQUENCE_DURATION}/g, totalDuration)
-    .replace(/{TITLES}/g, titlesXml)
+    .replace(/{TC_START}/g, tcStart)
+    .replace(/{TC_FORMAT}/g, tcFormat)
+    .replace(/^([ \t]*){ASSET_RESOURCES}\n/gm, (_, pad: string) =>
+      storyline.resources ? `${storyline.resources.replace(/^/gm, pad)}\n` : '',
+    )
+    .replace(/{TITLES}/g, () => titlesXml)
 }
@@ -0,0 +1,187 @@
+import { describe, expect, it } from 'vitest'
+import type { SrtCue } from '~/types'
+import { buildFcpxml, buildFcpxmlFromTemplate } from './builder'
+import { parseFcpxml } from './reader'
+
+/**
+ * Wrap spine content in a minimal FCPXML document
+ */
+function fcpxml(spine: string, resources = '', tcStart = '0s'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.13">
+  <resources>
+    <format id="r1" frameDuration="1/25s" width="1920" height="1080"/>${resources}
+  </resources>
+  <library>
+    <event name="Edit">
+      <project name="Edit">
+        <sequence format="r1" duration="250/25s" tcStart="${tcStart}" tcFormat="NDF">
+          <spine>
+${spine}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>`
+}
+
+/**
+ * Pick the fields written back to SRT
+ */
+function timings(cues: SrtCue[]) {
+  return cues.map(({ index, startMs, endMs, text }) => ({
+    index,
+    startMs,
+    endMs,
+    text,
+  }))
+}
+
+describe('FCPXML Reader', () => {
+  describe('parseFcpxml', () => {
+    const cues: SrtCue[] = [
+      { index: 1, startMs: 1000, endMs: 3600, text: 'First subtitle' },
+      {
+        index: 2,
+        startMs: 4000,
+        endMs: 6000,
+        text: 'Tom & Jerry\nSecond "line"',
+      },
+    ]
+
+    it('should read titles written by the builder', () => {
+      const result = parseFcpxml(
+        buildFcpxmlFromTemplate(cues, { frameRate: 25 }),
+      )
+
+      expect(result.errors).toEqual([])
+      expect(timings(result.cues)).toEqual(cues)
+    })
+
+    it('should read titles in the spine and inline output', () => {
+      expect(
+        timings(
+          parseFcpxml(
+            buildFcpxmlFromTemplate(cues, {
+              frameRate: 25,
+              storyline: 'titles',
+            }),
+          ).cues,
+        ),
+      ).toEqual(cues)
+      expect(
+        timings(parseFcpxml(buildFcpxml(cues, { frameRate: 25 })).cues),
+      ).toEqual(cues)
+    })
+
+    it('should measure times from the sequence start timecode', () => {
+      const xml = buildFcpxmlFromTemplate(cues, {
+        frameRate: 25,
+        startTimecode: '01:00:00:00',
+      })
+
+      expect(timings(parseFcpxml(xml).cues)).toEqual(cues)
+    })
+
+    it('should read captions and every lane in time order', () => {
+      const xml = buildFcpxmlFromTemplate(
+        [{ cues: [cues[1]] }, { cues: [{ ...cues[0], text: 'Lane two' }] }],
+        { frameRate: 25, outputMode: 'captions' },
+      )
+
+      expect(parseFcpxml(xml).cues.map((cue) => [cue.index, cue.text])).toEqual(
+        [
+          [1, 'Lane two'],
+          [2, 'Tom & Jerry\nSecond "line"'],
+        ],
+      )
+    })
+
+    it('should resolve NTSC rational times', () => {
+      const result = parseFcpxml(
+        fcpxml(
+          '<title offset="30030/30000s" start="0s" duration="60060/30000s"><text><text-style ref="ts1">NTSC</text-style></text></title>',
+        ),
+      )
+
+      expect(timings(result.cues)).toEqual([
+        { index: 1, startMs: 1001, endMs: 3003, text: 'NTSC' },
+      ])
+    })
+
+    it('should map connected clips through their parent clip start', () => {
+      const xml = buildFcpxmlFromTemplate(cues, {
+        frameRate: 25,
+        startTimecode: '01:00:00:00',
+        videoAsset: {
+          path: '/Movies/take.mov',
+          duration: 10000,
+          startTimecode: '10:00:00:00',
+        },
+      })
+
+      expect(timings(parseFcpxml(xml).cues)).toEqual(cues)
+    })
+
+    it('should read secondary storylines and compound clips', () => {
+      const media = `
+    <media id="r5" name="Compound">
+      <sequence format="r1" duration="100/25s" tcStart="0s">
+        <spine>
+          <gap offset="0s" start="0s" duration="100/25s">
+            <title lane="1" offset="25/25s" start="0s" duration="25/25s"><text><text-style>In compound</text-style></text></title>
+          </gap>
+        </spine>
+      </sequence>
+    </media>`
+      const result = parseFcpxml(
+        fcpxml(
+          `<gap offset="0s" start="3600s" duration="250/25s">
+  <spine lane="1" offset="90050/25s">
+    <title offset="90050/25s" start="0s" duration="25/25s"><text><text-style>Storyline</text-style></text></title>
+  </spine>
+  <ref-clip ref="r5" lane="2" offset="90125/25s" start="0s" duration="100/25s"/>
+</gap>`,
+          media,
+        ),
+      )
+
+      expect(result.errors).toEqual([])
+      expect(timings(result.cues)).toEqual([
+        { index: 1, startMs: 2000, endMs: 3000, text: 'Storyline' },
+        { index: 2, startMs: 6000, endMs: 7000, text: 'In compound' },
+      ])
+    })
+
+    it('should skip disabled clips and empty titles', () => {
+      const result = parseFcpxml(
+        fcpxml(`<title offset="0s" duration="25/25s" enabled="0"><text><text-style>Off</text-style></text></title>
+<title offset="50/25s" duration="25/25s"><text><text-style> </text-style></text></title>`),
+      )
+
+      expect(result.cues).toEqual([])
+      expect(result.errors).toEqual(['Skipping empty <title> at 00:00:02,000'])
+    })
+
+    it('should report invalid documents and times', () => {
+      expect(parseFcpxml('<fcpxml><resources></fcpxml>').errors[0]).toContain(
+        'Invalid XML',
+      )
+      expect(parseFcpxml('<tt/>').errors).toEqual([
+        'Missing <fcpxml> root element',
+      ])
+      expect(parseFcpxml('<fcpxml version="1.13"/>').errors).toEqual([
+        'Missing <sequence> element',
+      ])
+      expect(
+        parseFcpxml(
+          fcpxml(
+            '<title offset="0s" duration="1 second"><text><text-style>Bad</text-style></text></title>',
+          ),
+        ).errors,
+      ).toEqual(['Invalid duration in <title>: 1 second'])
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import { formatSrtTimecode } from '~/srt/parser'
+import type { SrtCue, SrtParseResult } from '~/types'
+import { findChild, parseXml, type XmlElement } from '~/xml/parser'
+
+/**
+ * Maps a time in an element's own time space to seconds on the timeline
+ */
+type TimeMap = (seconds: number) => number
+
+/**
+ * Clip elements whose children (connected clips and storylines) are read
+ */
+const CLIP_ELEMENTS = new Set([
+  'asset-clip',
+  'audio',
+  'clip',
+  'gap',
+  'mc-clip',
+  'ref-clip',
+  'sync-clip',
+  'video',
+])
+
+/**
+ * Compound clips read inside each other at most (guards against cycles)
+ */
+const MAX_COMPOUND_DEPTH = 16
+
+/**
+ * Parse FCPXML content back into subtitle cues
+ *
+ * Reads every <title> and <caption> of the first project, including clips on
+ * connected lanes, secondary storylines and compound clips (<ref-clip>).
+ * Cue times are measured from the sequence tcStart, and disabled clips
+ * (enabled="0") are skipped. Cues are sorted by start time and numbered from 1.
+ *
+ * @param source FCPXML file content
+ * @returns Parsed cues and any errors encountered
+ */
+export function parseFcpxml(source: string): SrtParseResult {
+  const errors: string[] = []
+
+  let root: XmlElement
+  try {
+    root = parseXml(source.replace(/^\uFEFF/, ''))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    errors.push(`Invalid XML: ${message}`)
+    return { cues: [], errors }
+  }
+
+  if (root.name !== 'fcpxml') {
+    errors.push('Missing <fcpxml> root element')
+    return { cues: [], errors }
+  }
+
+  const project = findDescendant(root, 'project')
+  const sequence = findChild(project, 'sequence')
+  const spine = findChild(sequence, 'spine')
+  if (!sequence || !spine) {
+    errors.push('Missing <sequence> element')
+    return { cues: [], errors }
+  }
+
+  // Compound clip contents by resource id
+  const media = new Map<string, XmlElement>()
+  for (const child of elementChildren(findChild(root, 'resources'))) {
+    if (child.name === 'media' && child.attributes.id) {
+      media.set(child.attributes.id, child)
+    }
+  }
+
+  const tcStart = parseTime(sequence.attributes.tcStart ?? '0s')
+  if (tcStart === undefined) {
+    errors.push(`Invalid time value: ${sequence.attributes.tcStart}`)
+    return { cues: [], errors }
+  }
+
+  const cues: SrtCue[] = []
+  const visit = (element: XmlElement, toTimeline: TimeMap, depth: number) => {
+    if (element.attributes.enabled === '0') {
+      return
+    }
+
+    if (element.name === 'spine') {
+      // Storyline children are timed in the parent clip's time
+      for (const child of elementChildren(element)) {
+        visit(child, toTimeline, depth)
+      }
+      return
+    }
+
+    const isCue = element.name === 'title' || element.name === 'caption'
+    if (!isCue && !CLIP_ELEMENTS.has(element.name)) {
+      return
+    }
+
+    const offset = parseTime(element.attributes.offset ?? '0s')
+    const start = parseTime(element.attributes.start ?? '0s')
+    if (offset === undefined || start === undefined) {
+      errors.push(
+        `Invalid time value in <${element.name}>: ${element.attributes.offset} / ${element.attributes.start}`,
+      )
+      return
+    }
+
+    if (isCue) {
+      const cue = readCue(element, toTimeline(offset) - tcStart, errors)
+      if (cue) {
+        cues.push(cue)
+      }
+      return
+    }
+
+    const toParent: TimeMap = (seconds) => toTimeline(offset + seconds - start)
+    for (const child of elementChildren(element)) {
+      visit(child, toParent, depth)
+    }
+
+    // Compound clips continue in the referenced media sequence
+    const referenced = media.get(element.attributes.ref ?? '')
+    if (
+      element.name === 'ref-clip' &&
+      referenced &&
+      depth < MAX_COMPOUND_DEPTH
+    ) {
+      const mediaSpine = findChild(findChild(referenced, 'sequence'), 'spine')
+      if (mediaSpine) {
+        visit(mediaSpine, toParent, depth + 1)
+      }
+    }
+  }
+  visit(spine, (seconds) => seconds, 0)
+
+  cues.sort((a, b) => a.startMs - b.startMs)
+  cues.forEach((cue, i) => {
+    cue.index = i + 1
+  })
+
+  return { cues, errors }
+}
+
+/**
+ * Build a cue from a <title> or <caption> element
+ * @param startSeconds Start of the element from the sequence tcStart
+ */
+function readCue(
+  element: XmlElement,
+  startSeconds: number,
+  errors: string[],
+): SrtCue | undefined {
+  const duration = parseTime(element.attributes.duration ?? '')
+  if (duration === undefined) {
+    errors.push(
+      `Invalid duration in <${element.name}>: ${element.attributes.duration}`,
+    )
+    return undefined
+  }
+
+  const startMs = Math.round(startSeconds * 1000)
+  const endMs = Math.round((startSeconds + duration) * 1000)
+  const text = elementChildren(element)
+    .filter((child) => child.name === 'text')
+    .map((child) => collectText(child).trim())
+    .filter((line) => line)
+    .join('\n')
+
+  if (startMs < 0) {
+    errors.push(`Skipping <${element.name}> before the sequence start: ${text}`)
+    return undefined
+  }
+  if (!text) {
+    errors.push(
+      `Skipping empty <${element.name}> at ${formatSrtTimecode(startMs)}`,
+    )
+    return undefined
+  }
+
+  return { index: 0, startMs, endMs, text }
+}
+
+/**
+ * Collect the text of the <text-style> runs of a <text> element
+ */
+function collectText(element: XmlElement): string {
+  return element.children
+    .map((child) => {
+      if (typeof child === 'string') {
+        return element.name === 'text-style' ? child : ''
+      }
+      return collectText(child)
+    })
+    .join('')
+}
+
+/**
+ * Parse an FCPXML time value ("0s", "3600s", "1001/30000s")
+ * @returns Time in seconds, or undefined if the value is invalid
+ */
+function parseTime(value: string): number | undefined {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)(?:\/(\d+))?s$/)
+  if (!match) {
+    return undefined
+  }
+
+  const denominator = match[2] ? parseInt(match[2], 10) : 1
+  if (denominator === 0) {
+    return undefined
+  }
+  return parseFloat(match[1]) / denominator
+}
+
+/**
+ * Child elements of an element (text nodes skipped)
+ */
+function elementChildren(element: XmlElement | undefined): XmlElement[] {
+  return (element?.children ?? []).filter(
+    (child): child is XmlElement => typeof child !== 'string',
+  )
+}
+
+/**
+ * Find the first descendant element with the given name (depth-first)
+ */
+function findDescendant(
+  element: XmlElement,
+  name: string,
+): XmlElement | undefined {
+  for (const child of elementChildren(element)) {
+    if (child.name === name) {
+      return child
+    }
+    const found = findDescendant(child, name)
+    if (found) {
+      return found
+    }
+  }
+  return undefined
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatFrameDuration,
+  framesToFraction,
+  getFormatName,
+  getFrameDuration,
+  getTimecodeFormat,
+  isDropFrameRate,
+  millisecondsToFraction,
+  millisecondsToFrames,
+  resolveTimecode,
+  timecodeToFrames,
+} from './time'
+
+describe('Rational time', () => {
+  describe('getFrameDuration', () => {
+    it('should map integer frame rates to 1/N', () => {
+      expect(getFrameDuration(24)).toEqual({ numerator: 1, denominator: 24 })
+      expect(getFrameDuration(25)).toEqual({ numerator: 1, denominator: 25 })
+      expect(getFrameDuration(30)).toEqual({ numerator: 1, denominator: 30 })
+    })
+
+    it('should map NTSC frame rates to 1001/N000', () => {
+      expect(getFrameDuration(23.976)).toEqual({
+        numerator: 1001,
+        denominator: 24000,
+      })
+      expect(getFrameDuration(29.97)).toEqual({
+        numerator: 1001,
+        denominator: 30000,
+      })
+      expect(getFrameDuration(59.94)).toEqual({
+        numerator: 1001,
+        denominator: 60000,
+      })
+    })
+
+    it('should accept NTSC rates written with fewer decimals', () => {
+      expect(getFrameDuration(23.98)).toEqual({
+        numerator: 1001,
+        denominator: 24000,
+      })
+    })
+
+    it('should use an exact fraction for other fractional rates', () => {
+      expect(getFrameDuration(12.5)).toEqual({ numerator: 2, denominator: 25 })
+    })
+
+    it('should reject invalid frame rates', () => {
+      expect(() => getFrameDuration(0)).toThrow('Invalid frame rate: 0')
+      expect(() => getFrameDuration(-24)).toThrow('Invalid frame rate')
+      expect(() => getFrameDuration(Number.NaN)).toThrow('Invalid frame rate')
+    })
+  })
+
+  describe('isDropFrameRate', () => {
+    it('should accept 29.97 and 59.94', () => {
+      expect(isDropFrameRate(29.97)).toBe(true)
+      expect(isDropFrameRate(59.94)).toBe(true)
+    })
+
+    it('should reject non drop-frame rates', () => {
+      expect(isDropFrameRate(23.976)).toBe(false)
+      expect(isDropFrameRate(24)).toBe(false)
+      expect(isDropFrameRate(30)).toBe(false)
+    })
+  })
+
+  describe('getTimecodeFormat', () => {
+    it('should return NDF unless drop-frame is requested', () => {
+      expect(getTimecodeFormat(29.97, false)).toBe('NDF')
+      expect(getTimecodeFormat(24, false)).toBe('NDF')
+    })
+
+    it('should return DF for drop-frame rates', () => {
+      expect(getTimecodeFormat(29.97, true)).toBe('DF')
+      expect(getTimecodeFormat(59.94, true)).toBe('DF')
+    })
+
+    it('should reject drop-frame for other rates', () => {
+      expect(() => getTimecodeFormat(25, true)).toThrow(
+        'Drop-frame timecode requires a 29.97 or 59.94 frame rate: 25',
+      )
+      expect(() => getTimecodeFormat(23.976, true)).toThrow(
+        'Drop-frame timecode requires',
+      )
+    })
+  })
+
+  describe('formatFrameDuration', () => {
+    it('should format frame durations as FCPXML time', () => {
+      expect(formatFrameDuration(getFrameDuration(24))).toBe('1/24s')
+      expect(formatFrameDuration(getFrameDuration(23.976))).toBe('1001/24000s')
+      expect(formatFrameDuration(getFrameDuration(29.97))).toBe('1001/30000s')
+      expect(formatFrameDuration(getFrameDuration(59.94))).toBe('1001/60000s')
+    })
+  })
+
+  describe('millisecondsToFrames', () => {
+    it('should floor to frame boundaries', () => {
+      expect(millisecondsToFrames(1001, getFrameDuration(24))).toBe(24)
+      expect(millisecondsToFrames(2999, getFrameDuration(24))).toBe(71)
+    })
+
+    it('should round to the nearest or next frame boundary', () => {
+      const frameDuration = getFrameDuration(24)
+
+      expect(millisecondsToFrames(2999, frameDuration, 'nearest')).toBe(72)
+      expect(millisecondsToFrames(1001, frameDuration, 'nearest')).toBe(24)
+      expect(millisecondsToFrames(1001, frameDuration, 'ceil')).toBe(25)
+      expect(millisecondsToFrames(1000, frameDuration, 'ceil')).toBe(24)
+    })
+
+    it('should count NTSC frames without drift', () => {
+      // 1 hour at 23.976 = 86313.686 frames
+      expect(millisecondsToFrames(3600000, getFrameDuration(23.976))).toBe(
+        86313,
+      )
+      // 1 hour at 29.97 = 107892.107 frames
+      expect(millisecondsToFrames(3600000, getFrameDuration(29.97))).toBe(
+        107892,
+      )
+    })
+  })
+
+  describe('framesToFraction', () => {
+    it('should multiply frames by the frame duration numerator', () => {
+      expect(framesToFraction(48, getFrameDuration(24))).toBe('48/24s')
+      expect(framesToFraction(24, getFrameDuration(23.976))).toBe(
+        '24024/24000s',
+      )
+    })
+  })
+
+  describe('millisecondsToFraction', () => {
+    it('should produce valid rational times for NTSC rates', () => {
+      expect(millisecondsToFraction(1000, getFrameDuration(29.97))).toBe(
+        '29029/30000s',
+      )
+      expect(millisecondsToFraction(3000, getFrameDuration(23.976))).toBe(
+        '71071/24000s',
+      )
+    })
+
+    it('should handle zero', () => {
+      expect(millisecondsToFraction(0, getFrameDuration(23.976))).toBe(
+        '0/24000s',
+      )
+    })
+  })
+
+  describe('timecodeToFrames', () => {
+    it('should convert non drop-frame timecode', () => {
+      expect(timecodeToFrames('01:00:00:00', getFrameDuration(24), false)).toBe(
+        86400,
+      )
+      expect(timecodeToFrames('00:00:01:12', getFrameDuration(25), false)).toBe(
+        37,
+      )
+      // NDF at 29.97 counts 30 frames per timecode second
+      expect(
+        timecodeToFrames('01:00:00:00', getFrameDuration(29.97), false),
+      ).toBe(108000)
+    })
+
+    it('should convert drop-frame timecode', () => {
+      const frameDuration = getFrameDuration(29.97)
+
+      expect(timecodeToFrames('00:01:00;02', frameDuration, true)).toBe(1800)
+      expect(timecodeToFrames('00:10:00;00', frameDuration, true)).toBe(17982)
+      expect(timecodeToFrames('01:00:00;00', frameDuration, true)).toBe(107892)
+    })
+
+    it('should drop four frames per minute at 59.94', () => {
+      expect(
+        timecodeToFrames('00:01:00;04', getFrameDuration(59.94), true),
+      ).toBe(3600)
+    })
+
+    it('should reject malformed timecode', () => {
+      const frameDuration = getFrameDuration(24)
+
+      expect(() => timecodeToFrames('1:00:00', frameDuration, false)).toThrow(
+        'Invalid timecode: 1:00:00',
+      )
+      expect(() =>
+        timecodeToFrames('00:61:00:00', frameDuration, false),
+      ).toThrow('Invalid timecode')
+      expect(() =>
+        timecodeToFrames('00:00:00:24', frameDuration, false),
+      ).toThrow('Invalid timecode')
+    })
+
+    it('should reject frame numbers that drop-frame counting skips', () => {
+      const frameDuration = getFrameDuration(29.97)
+
+      expect(() =>
+        timecodeToFrames('00:01:00;00', frameDuration, true),
+      ).toThrow('Invalid drop-frame timecode: 00:01:00;00')
+      expect(() =>
+        timecodeToFrames('00:01:00;01', frameDuration, true),
+      ).toThrow('Invalid drop-frame timecode')
+      expect(() =>
+        timecodeToFrames('00:01:00;03', getFrameDuration(59.94), true),
+      ).toThrow('Invalid drop-frame timecode')
+      // Each tenth minute keeps its first frames
+      expect(timecodeToFrames('00:20:00;00', frameDuration, true)).toBe(35964)
+    })
+  })
+
+  describe('resolveTimecode', () => {
+    it('should resolve SMPTE strings', () => {
+      expect(resolveTimecode('01:00:00:00', getFrameDuration(24), false)).toBe(
+        86400,
+      )
+    })
+
+    it('should resolve milliseconds', () => {
+      expect(resolveTimecode(3600000, getFrameDuration(24), false)).toBe(86400)
+      expect(resolveTimecode(0, getFrameDuration(24), false)).toBe(0)
+    })
+
+    it('should reject negative milliseconds', () => {
+      expect(() => resolveTimecode(-1, getFrameDuration(24), false)).toThrow(
+        'Invalid timecode: -1',
+      )
+    })
+  })
+
+  describe('getFormatName', () => {
+    it('should build FCP format names', () => {
+      expect(getFormatName(1080, 24)).toBe('FFVideoFormat1080p24')
+      expect(getFormatName(1080, 23.976)).toBe('FFVideoFormat1080p2398')
+      expect(getFormatName(1080, 29.97)).toBe('FFVideoFormat1080p2997')
+      expect(getFormatName(2160, 59.94)).toBe('FFVideoFormat2160p5994')
+    })
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * Duration of a single frame as a rational number of seconds
+ * (e.g., 1001/24000 for 23.976fps)
+ */
+export interface FrameDuration {
+  /** Numerator of the frame duration in seconds */
+  numerator: number
+
+  /** Denominator of the frame duration in seconds */
+  denominator: number
+}
+
+/**
+ * Tolerance used to recognise NTSC rates written with fewer decimals
+ * (e.g., 23.98 or 29.97)
+ */
+const NTSC_TOLERANCE = 0.01
+
+/**
+ * Resolve a timeline frame rate to an exact rational frame duration
+ *
+ * Integer rates map to 1/N, NTSC rates (23.976, 29.97, 59.94, ...) map to
+ * 1001/(N*1000), and other fractional rates use the smallest exact fraction.
+ *
+ * @param frameRate Frame rate (e.g., 23.976, 24, 25, 29.97, 30)
+ * @returns Rational frame duration
+ * @throws {Error} If the frame rate is not a positive finite number
+ */
+export function getFrameDuration(frameRate: number): FrameDuration {
+  if (!Number.isFinite(frameRate) || frameRate <= 0) {
+    throw new Error(`Invalid frame rate: ${frameRate}`)
+  }
+
+  if (Number.isInteger(frameRate)) {
+    return { numerator: 1, denominator: frameRate }
+  }
+
+  // NTSC rates are N * 1000/1001
+  const ntscBase = Math.round(frameRate * 1.001)
+  if (Math.abs(frameRate * 1.001 - ntscBase) < NTSC_TOLERANCE) {
+    return { numerator: 1001, denominator: ntscBase * 1000 }
+  }
+
+  // Other fractional rates (e.g., 12.5 -> 2/25)
+  for (let numerator = 2; numerator <= 1000; numerator++) {
+    const denominator = frameRate * numerator
+    if (Math.abs(denominator - Math.round(denominator)) < 1e-6) {
+      return { numerator, denominator: Math.round(denominator) }
+    }
+  }
+
+  return { numerator: 1000, denominator: Math.round(frameRate * 1000) }
+}
+
+/**
+ * Check whether a frame rate supports drop-frame timecode (29.97, 59.94)
+ */
+export function isDropFrameRate(frameRate: number): boolean {
+  const { numerator, denominator } = getFrameDuration(frameRate)
+  return numerator === 1001 && (denominator / 1000) % 30 === 0
+}
+
+/**
+ * Resolve the sequence tcFormat attribute
+ * @param frameRate Timeline frame rate
+ * @param dropFrame Whether drop-frame timecode was requested
+ * @returns "DF" or "NDF"
+ * @throws {Error} If drop-frame is requested for a rate that does not support it
+ */
+export function getTimecodeFormat(
+  frameRate: number,
+  dropFrame: boolean,
+): 'DF' | 'NDF' {
+  if (!dropFrame) {
+    return 'NDF'
+  }
+  if (!isDropFrameRate(frameRate)) {
+    throw new Error(
+      `Drop-frame timecode requires a 29.97 or 59.94 frame rate: ${frameRate}`,
+    )
+  }
+  return 'DF'
+}
+
+/**
+ * Format a frame duration for the <format> resource
+ * @returns FCPXML time (e.g., "1001/24000s")
+ */
+export function formatFrameDuration(frameDuration: FrameDuration): string {
+  return `${frameDuration.numerator}/${frameDuration.denominator}s`
+}
+
+/**
+ * Rounding of a time that falls between two frame boundaries
+ */
+export type FrameRounding = 'floor' | 'nearest' | 'ceil'
+
+/**
+ * Convert milliseconds to a whole number of frames
+ * @param ms Milliseconds
+ * @param frameDuration Rational frame duration
+ * @param rounding Frame boundary to round to (default: "floor")
+ * @returns Frame count
+ */
+export function millisecondsToFrames(
+  ms: number,
+  frameDuration: FrameDuration,
+  rounding: FrameRounding = 'floor',
+): number {
+  const frames =
+    (ms * frameDuration.denominator) / (1000 * frameDuration.numerator)
+  switch (rounding) {
+    case 'nearest':
+      return Math.round(frames)
+    case 'ceil':
+      return Math.ceil(frames)
+    default:
+      return Math.floor(frames)
+  }
+}
+
+/**
+ * Convert a frame count to FCPXML rational time
+ * @param frames Frame count
+ * @param frameDuration Rational frame duration
+ * @returns FCPXML time (e.g., "72/24s" or "72072/24000s")
+ */
+export function framesToFraction(
+  frames: number,
+  frameDuration: FrameDuration,
+): string {
+  return `${frames * frameDuration.numerator}/${frameDuration.denominator}s`
+}
+
+/**
+ * Convert milliseconds to FCPXML rational time with frame alignment
+ * @param ms Milliseconds
+ * @param frameDuration Rational frame duration
+ * @returns FCPXML time (e.g., "72/24s")
+ */
+export function millisecondsToFraction(
+  ms: number,
+  frameDuration: FrameDuration,
+): string {
+  return framesToFraction(
+    millisecondsToFrames(ms, frameDuration),
+    frameDuration,
+  )
+}
+
+/**
+ * Convert a SMPTE timecode to a frame count
+ *
+ * Accepts "HH:MM:SS:FF" as well as ";" or "." before the frame field.
+ * Drop-frame timecodes skip frame numbers 0 and 1 (0-3 at 59.94) at the start
+ * of every minute except each tenth minute.
+ *
+ * @param timecode SMPTE timecode (e.g., "01:00:00:00", "00:10:00;00")
+ * @param frameDuration Rational frame duration of the timeline
+ * @param dropFrame Whether the timecode uses drop-frame counting
+ * @returns Frame count
+ * @throws {Error} If the timecode is malformed, or names a dropped frame
+ */
+export function timecodeToFrames(
+  timecode: string,
+  frameDuration: FrameDuration,
+  dropFrame: boolean,
+): number {
+  const match = timecode.trim().match(/^(\d{2}):(\d{2}):(\d{2})[:;.](\d{2})$/)
+  const nominalRate = Math.round(
+    frameDuration.denominator / frameDuration.numerator,
+  )
+
+  if (!match) {
+    throw new Error(`Invalid timecode: ${timecode}`)
+  }
+
+  const [hours, minutes, seconds, frames] = match.slice(1).map(Number)
+  if (minutes >= 60 || seconds >= 60 || frames >= nominalRate) {
+    throw new Error(`Invalid timecode: ${timecode}`)
+  }
+
+  const totalSeconds = hours * 3600 + minutes * 60 + seconds
+  const frameNumber = totalSeconds * nominalRate + frames
+
+  if (!dropFrame) {
+    return frameNumber
+  }
+
+  const droppedPerMinute = Math.round(nominalRate / 15)
+  if (seconds === 0 && frames < droppedPerMinute && minutes % 10 !== 0) {
+    throw new Error(`Invalid drop-frame timecode: ${timecode}`)
+  }
+
+  const totalMinutes = hours * 60 + minutes
+  return (
+    frameNumber -
+    droppedPerMinute * (totalMinutes - Math.floor(totalMinutes / 10))
+  )
+}
+
+/**
+ * Resolve a timecode option given as SMPTE string or milliseconds
+ * @param value SMPTE timecode string or milliseconds
+ * @param frameDuration Rational frame duration of the timeline
+ * @param dropFrame Whether SMPTE strings use drop-frame counting
+ * @returns Frame count
+ * @throws {Error} If the value is malformed or negative
+ */
+export function resolveTimecode(
+  value: string | number,
+  frameDuration: FrameDuration,
+  dropFrame: boolean,
+): number {
+  if (typeof value === 'string') {
+    return timecodeToFrames(value, frameDuration, dropFrame)
+  }
+
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid timecode: ${value}`)
+  }
+
+  return millisecondsToFrames(value, frameDuration)
+}
+
+/**
+ * Build the FCP video format name (e.g., "FFVideoFormat1080p24",
+ * "FFVideoFormat1080p2997")
+ */
+export function getFormatName(height: number, frameRate: number): string {
+  const rateLabel = Number.isInteger(frameRate)
+    ? String(frameRate)
+    : String(Math.round(frameRate * 100))
+  return `FFVideoFormat${height}p${rateLabel}`
+}
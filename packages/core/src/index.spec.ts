@@ -2,11 +2,19 @@ import { describe, expect, it } from 'vitest'
 import type { Srt2FcpxOptions, SrtCue, SrtParseResult } from './index'
 import {
   buildFcpxml,
+  convertCuesToFcpxml,
   convertSrtToFcpxml,
   DEFAULT_OPTIONS,
   formatSrtTimecode,
+  normalizeSrt,
+  parseFcpxml,
   parseSrt,
+  parseVtt,
+  quantizeCues,
+  resolveOverlaps,
+  serializeSrt,
   stripHtmlTags,
+  transformCueTiming,
 } from './index'
 
 describe('Core API', () => {
@@ -23,7 +31,7 @@ Second subtitle`
       const fcpxml = convertSrtToFcpxml(srt)
 
       expect(fcpxml).toContain('<?xml version="1.0" encoding="UTF-8"?>')
-      expect(fcpxml).toContain('<fcpxml version="1.13">') // Template-based uses FCP's version
+      expect(fcpxml).toContain('<fcpxml version="1.13">')
       expect(fcpxml).toContain('First subtitle')
       expect(fcpxml).toContain('Second subtitle')
       // Verify FCP-specific params are preserved from template
@@ -42,12 +50,45 @@ Test subtitle`
 
       const fcpxml = convertSrtToFcpxml(srt, options)
 
-      // Template-based approach uses fixed template, so only frameRate affects timing
       expect(fcpxml).toContain('duration="90/30s"') // 3 seconds at 30fps
       expect(fcpxml).toContain('Test subtitle')
-      // Template values are preserved (not customizable)
+      expect(fcpxml).toContain('frameDuration="1/30s"')
+      // Unspecified style options fall back to defaults
+      expect(fcpxml).toContain('font="Helvetica"')
+      expect(fcpxml).toContain('fontSize="72"')
+    })
+
+    it('should shift and retime cues before conversion', () => {
+      const srt = `1
+00:00:10,000 --> 00:00:12,000
+Late subtitle`
+
+      const fcpxml = convertSrtToFcpxml(srt, {
+        frameRate: 23.976,
+        retime: { from: 25, to: 23.976 },
+        shift: -10000,
+      })
+
+      // Frame 250 at 25 fps (10s) is at 10.427s at 23.976 fps, 10 frames after the shift
+      expect(fcpxml).toContain('offset="10010/24000s"')
+    })
+
+    it('should apply style options to template output', () => {
+      const srt = `1
+00:00:01,000 --> 00:00:03,000
+Test subtitle`
+
+      const fcpxml = convertSrtToFcpxml(srt, {
+        fontFamily: 'Hiragino Sans',
+        fontSize: 100,
+        fontFace: 'W8',
+        textColor: '#FFFF00FF',
+      })
+
       expect(fcpxml).toContain('font="Hiragino Sans"')
       expect(fcpxml).toContain('fontSize="100"')
+      expect(fcpxml).toContain('fontFace="W8"')
+      expect(fcpxml).toContain('fontColor="1 1 0 1"')
     })
 
     it('should throw error when no valid cues found', () => {
@@ -139,6 +180,61 @@ Late subtitle`
 
       expect(fcpxml).toContain('Late subtitle')
     })
+
+    it('should convert several SRT tracks to lanes', () => {
+      const fcpxml = convertSrtToFcpxml(
+        [
+          { source: '1\n00:00:01,000 --> 00:00:03,000\nHello' },
+          {
+            source: '1\n00:00:01,000 --> 00:00:03,000\nこんにちは',
+            options: { placement: 'top', fontFamily: 'Hiragino Sans' },
+          },
+        ],
+        { placement: 'bottom' },
+      )
+
+      expect(fcpxml).toContain('<gap name="Gap"')
+      expect(fcpxml).toMatch(/<title lane="1"[^>]*name="Basic Title: Hello"/)
+      expect(fcpxml).toMatch(
+        /<title lane="2"[^>]*name="Basic Title: こんにちは"/,
+      )
+      expect(fcpxml).toContain('font="Hiragino Sans"')
+    })
+
+    it('should throw error when a track has no valid cues', () => {
+      expect(() =>
+        convertSrtToFcpxml([
+          { source: '1\n00:00:01,000 --> 00:00:03,000\nHello' },
+          { source: 'Invalid content' },
+        ]),
+      ).toThrow('No valid SRT cues found in track 2')
+    })
+  })
+
+  describe('convertCuesToFcpxml', () => {
+    it('should convert cues from any parser', () => {
+      const { cues } = parseVtt(`WEBVTT
+
+00:00:01.000 --> 00:00:03.000
+From WebVTT`)
+
+      const fcpxml = convertCuesToFcpxml(cues, { frameRate: 30 })
+
+      expect(fcpxml).toContain('From WebVTT')
+      expect(fcpxml).toContain('offset="30/30s"')
+    })
+
+    it('should throw error when there are no cues', () => {
+      expect(() => convertCuesToFcpxml([])).toThrow(
+        'No valid subtitle cues found in input',
+      )
+    })
+
+    it('should throw error when all tracks are empty', () => {
+      expect(() => convertCuesToFcpxml([{ cues: [] }, { cues: [] }])).toThrow(
+        'No valid subtitle cues found in input',
+      )
+    })
   })
 
   describe('Exported functions', () => {
@@ -155,6 +251,18 @@ Test`
       })
     })
 
+    describe('parseVtt', () => {
+      it('should be accessible as exported function', () => {
+        const result = parseVtt(`WEBVTT
+
+00:01.000 --> 00:03.000
+Test`)
+
+        expect(result.cues).toHaveLength(1)
+        expect(result.cues[0].text).toBe('Test')
+      })
+    })
+
     describe('formatSrtTimecode', () => {
       it('should be accessible as exported function', () => {
         expect(formatSrtTimecode(1000)).toBe('00:00:01,000')
@@ -167,6 +275,75 @@ Test`
       })
     })
 
+    describe('parseFcpxml and serializeSrt', () => {
+      it('should convert FCPXML back to SRT', () => {
+        const srt = `1
+00:00:01,000 --> 00:00:03,000
+First subtitle
+
+2
+00:00:04,000 --> 00:00:06,000
+Second subtitle
+`
+
+        expect(serializeSrt(parseFcpxml(convertSrtToFcpxml(srt)).cues)).toBe(
+          srt,
+        )
+      })
+    })
+
+    describe('quantizeCues', () => {
+      it('should be accessible as exported function', () => {
+        const result = quantizeCues(
+          [{ index: 1, startMs: 1000, endMs: 1010, text: 'Blink' }],
+          24,
+          'nearest',
+        )
+
+        expect(result.frames[0]).toMatchObject({ startFrame: 24, endFrame: 25 })
+        expect(result.warnings).toHaveLength(1)
+      })
+    })
+
+    describe('transformCueTiming', () => {
+      it('should be accessible as exported function', () => {
+        const { cues } = transformCueTiming(
+          [{ index: 1, startMs: 1000, endMs: 2000, text: 'Text' }],
+          { shift: 500 },
+        )
+
+        expect([cues[0].startMs, cues[0].endMs]).toEqual([1500, 2500])
+      })
+    })
+
+    describe('normalizeSrt', () => {
+      it('should be accessible as exported function', () => {
+        const result = normalizeSrt(
+          '2\r\n00:00:01,000 --> 00:00:02,000\r\nText\r\n',
+        )
+
+        expect(result.output).toBe('1\n00:00:01,000 --> 00:00:02,000\nText\n')
+        expect(result.fixes).toEqual([
+          'Converted line endings to LF',
+          'Renumbered 1 cue',
+        ])
+      })
+    })
+
+    describe('resolveOverlaps', () => {
+      it('should be accessible as exported function', () => {
+        const result = resolveOverlaps([
+          { index: 1, startMs: 0, endMs: 2000, text: 'One' },
+          { index: 2, startMs: 1000, endMs: 3000, text: 'Two' },
+        ])
+
+        expect(result.lanes).toHaveLength(2)
+        expect(result.decisions).toEqual([
+          'Cue 2 overlaps cue 1: moved to lane 2',
+        ])
+      })
+    })
+
     describe('buildFcpxml', () => {
       it('should be accessible as exported function', () => {
         const cues: SrtCue[] = [
@@ -260,23 +437,31 @@ Second subtitle
 with multiple lines`
 
       const options: Srt2FcpxOptions = {
+        titleName: 'Integration',
         frameRate: 30,
+        fontFamily: 'Hiragino Sans',
+        fontSize: 100,
+        fontFace: 'W8',
+        strokeColor: '#000000FF',
+        strokeWidth: -8,
       }
 
       const fcpxml = convertSrtToFcpxml(srt, options)
 
-      // Template-based approach uses FCP's fixed template
-      expect(fcpxml).toContain('<fcpxml version="1.13">') // From template
+      expect(fcpxml).toContain('<fcpxml version="1.13">')
+      expect(fcpxml).toContain('<event name="Integration"')
+      expect(fcpxml).toContain('<project name="Integration"')
 
       // Check timing with custom frame rate
       expect(fcpxml).toContain('offset="30/30s"') // 1 second at 30fps
       expect(fcpxml).toContain('duration="60/30s"') // 2 seconds at 30fps
 
-      // Check template values are preserved (white text, black stroke from template)
+      // Check style options are applied
       expect(fcpxml).toContain('font="Hiragino Sans"')
       expect(fcpxml).toContain('fontSize="100"')
       expect(fcpxml).toContain('fontColor="1 1 1 1"')
       expect(fcpxml).toContain('strokeColor="0 0 0 1"')
+      expect(fcpxml).toContain('strokeWidth="-8"')
 
       // Check content (HTML stripped)
       expect(fcpxml).toContain('First subtitle')
@@ -4,32 +4,133 @@
 
 import { buildFcpxmlFromTemplate } from '~/fcpxml/builder'
 import { parseSrt } from '~/srt/parser'
-import type { Srt2FcpxOptions, SrtCue, SrtParseResult } from '~/types'
+import type {
+  CaptionFormat,
+  ConversionReport,
+  ConversionStep,
+  CueMergeOptions,
+  CueSettings,
+  CueSplitOptions,
+  CueStyle,
+  CueTextRun,
+  CueTrack,
+  FrameRateConversion,
+  GapMode,
+  LineBalance,
+  LineBreakRule,
+  LineOverflow,
+  LineWrapOptions,
+  OutputMode,
+  OverlapMode,
+  Placement,
+  PlacementPoint,
+  QuantizeMode,
+  Srt2FcpxOptions,
+  SrtCue,
+  SrtParseResult,
+  SrtTrack,
+  Storyline,
+  SyncPoint,
+  TimingCleanupOptions,
+  TrackOptions,
+  VideoAsset,
+} from '~/types'
 
 // Export types
 export { DEFAULT_OPTIONS } from '~/types'
-export type { Srt2FcpxOptions, SrtCue, SrtParseResult }
+export type {
+  CaptionFormat,
+  ConversionReport,
+  ConversionStep,
+  CueMergeOptions,
+  CueSettings,
+  CueSplitOptions,
+  CueStyle,
+  CueTextRun,
+  CueTrack,
+  FrameRateConversion,
+  GapMode,
+  LineBalance,
+  LineBreakRule,
+  LineOverflow,
+  LineWrapOptions,
+  OutputMode,
+  OverlapMode,
+  Placement,
+  PlacementPoint,
+  QuantizeMode,
+  Srt2FcpxOptions,
+  SrtCue,
+  SrtParseResult,
+  SrtTrack,
+  Storyline,
+  SyncPoint,
+  TimingCleanupOptions,
+  TrackOptions,
+  VideoAsset,
+}
 
 // Export functions
+export { type AssParseOptions, parseAss } from '~/ass/parser'
+export { cleanupCueTiming, type TimingCleanupResult } from '~/cue/cleanup'
+export { type CueMergeResult, mergeShortCues } from '~/cue/merge'
+export { type OverlapResolution, resolveOverlaps } from '~/cue/overlaps'
+export {
+  type CueFrames,
+  type QuantizeResult,
+  quantizeCues,
+} from '~/cue/quantize'
+export { type CueSplitResult, splitLongCues } from '~/cue/split'
+export {
+  type CueTimingOptions,
+  type CueTimingResult,
+  transformCueTiming,
+} from '~/cue/timing'
+export { type LineWrapResult, wrapCueLines } from '~/cue/wrap'
 export { buildFcpxml, buildFcpxmlFromTemplate } from '~/fcpxml/builder'
+export { parseFcpxml } from '~/fcpxml/reader'
+export { parseScc } from '~/scc/parser'
+export { normalizeSrt, type SrtNormalizeResult } from '~/srt/normalizer'
 export {
   decodeHtmlEntities,
   formatSrtTimecode,
   parseSrt,
+  parseSrtTextRuns,
   stripHtmlTags,
 } from '~/srt/parser'
+export { type SrtSerializeOptions, serializeSrt } from '~/srt/serializer'
+export { parseTtml } from '~/ttml/parser'
+export { parseVtt } from '~/vtt/parser'
+export {
+  parseWhisper,
+  type WhisperParseOptions,
+  type WordGroupingOptions,
+} from '~/whisper/parser'
 
 /**
  * Convert SRT content to FCPXML
- * @param srtSource SRT file content as string
+ * @param srtSource SRT file content as string, or several SRT tracks to put
+ * on separate lanes (each with its own style and placement)
  * @param options Conversion options
  * @returns FCPXML string
  * @throws {Error} If SRT parsing fails
  */
 export function convertSrtToFcpxml(
-  srtSource: string,
+  srtSource: string | SrtTrack[],
   options?: Srt2FcpxOptions,
 ): string {
+  if (Array.isArray(srtSource)) {
+    const tracks = srtSource.map((track, trackIndex) => {
+      const { cues } = parseSrt(track.source)
+      if (cues.length === 0) {
+        throw new Error(`No valid SRT cues found in track ${trackIndex + 1}`)
+      }
+      return { cues, options: track.options }
+    })
+
+    return convertCuesToFcpxml(tracks, options)
+  }
+
   // Parse SRT
   const parseResult = parseSrt(srtSource)
 
@@ -38,8 +139,31 @@ export function convertSrtToFcpxml(
     throw new Error('No valid SRT cues found in input')
   }
 
+  return convertCuesToFcpxml(parseResult.cues, options)
+}
+
+/**
+ * Convert already parsed cues (e.g., from parseVtt) to FCPXML
+ * @param cues Parsed subtitle cues, or subtitle tracks to put on separate
+ * lanes
+ * @param options Conversion options
+ * @returns FCPXML string
+ * @throws {Error} If there are no cues
+ */
+export function convertCuesToFcpxml(
+  cues: SrtCue[] | CueTrack[],
+  options?: Srt2FcpxOptions,
+): string {
+  const cueCount = cues.reduce(
+    (count, item) => count + ('cues' in item ? item.cues.length : 1),
+    0,
+  )
+  if (cueCount === 0) {
+    throw new Error('No valid subtitle cues found in input')
+  }
+
   // Build FCPXML using template-based approach
-  const fcpxml = buildFcpxmlFromTemplate(parseResult.cues, options)
+  const fcpxml = buildFcpxmlFromTemplate(cues, options)
 
   return fcpxml
 }
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+import { parseScc } from './parser'
+
+describe('SCC Parser', () => {
+  describe('parseScc', () => {
+    it('should decode pop-on captions', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	9420 9420 94ae 94ae 94d0 94d0 c8e5 ecec ef80 9470 9470 f7ef f2ec 6480 942f 942f
+
+00:00:04:00	942c 942c`
+
+      const result = parseScc(scc)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toEqual([
+        {
+          index: 1,
+          startMs: 1468,
+          endMs: 4004,
+          text: 'Hello\nworld',
+          runs: [{ text: 'Hello\nworld' }],
+          settings: { line: '79.33%' },
+        },
+      ])
+    })
+
+    it('should end a pop-on caption when the next one is displayed', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	9420 9420 9470 9470 c180 942f 942f
+
+00:00:02:00	9420 9420 9470 9470 c280 942f 942f
+
+00:00:03:00	942c 942c`
+
+      const result = parseScc(scc)
+
+      expect(
+        result.cues.map((cue) => [cue.text, cue.startMs, cue.endMs]),
+      ).toEqual([
+        ['A', 1168, 2169],
+        ['B', 2169, 3003],
+      ])
+    })
+
+    it('should map PAC and mid-row styles to runs', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	9420 9420 946e 946e 49f4 61ec 9120 9120 70ec 61e9 6e80 9129 9129 f2e5 6480 942f 942f`
+
+      const result = parseScc(scc)
+
+      expect(result.cues[0].text).toBe('Ital plain red')
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Ital', style: { italic: true } },
+        { text: ' plain' },
+        { text: ' red', style: { textColor: '#FF0000FF', underline: true } },
+      ])
+    })
+
+    it('should decode roll-up captions', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:02:00	9425 9425 94ad 94ad 9470 9470 46e9 f273 f420 ece9 6ee5
+
+00:00:04:00	94ad 94ad 9470 9470 d3e5 e3ef 6e64`
+
+      const result = parseScc(scc)
+
+      expect(
+        result.cues.map((cue) => [cue.text, cue.startMs, cue.endMs]),
+      ).toEqual([
+        ['First line', 2202, 4137],
+        ['First line\nSecond', 4137, 7137],
+      ])
+      expect(result.cues[1].settings).toEqual({ line: '79.33%' })
+    })
+
+    it('should decode paint-on captions', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	9429 9429 91d0 91d0 54ef 7080`
+
+      const result = parseScc(scc)
+
+      expect(result.cues).toEqual([
+        {
+          index: 1,
+          startMs: 1134,
+          endMs: 4134,
+          text: 'Top',
+          runs: [{ text: 'Top' }],
+          settings: { line: '10%' },
+        },
+      ])
+    })
+
+    it('should decode special and extended characters', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	9420 9420 9470 9470 e580 92a1 92a1 2080 9137 9137 942f 942f`
+
+      const result = parseScc(scc)
+
+      expect(result.cues[0].text).toBe('É ♪')
+    })
+
+    it('should ignore indentation of tab-indent PACs', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	9420 9420 94f4 94f4 f880 942f 942f`
+
+      const result = parseScc(scc)
+
+      expect(result.cues[0].text).toBe('x')
+    })
+
+    it('should read drop-frame timecodes', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:01:00;02	9420 9420 9470 9470 c180 942f 942f`
+
+      const result = parseScc(scc)
+
+      // EOC is sent at frame 1800 + 5
+      expect(result.cues[0].startMs).toBe(60227)
+    })
+
+    it('should ignore other caption channels', () => {
+      const scc = `Scenarist_SCC V1.0
+
+00:00:01:00	1c20 1c20 1c70 1c70 c180 1c2f 1c2f`
+
+      const result = parseScc(scc)
+
+      expect(result.cues).toHaveLength(0)
+    })
+
+    it('should report a missing header and invalid lines', () => {
+      const scc = `00:00:01:00	9420 9420 9470 9470 c180 942f 942f
+not a caption line
+00:00:02:99	942c 942c`
+
+      const result = parseScc(scc)
+
+      expect(result.errors).toEqual([
+        'Missing Scenarist_SCC V1.0 header',
+        'Invalid timecode format: not a caption line',
+        'Invalid timecode format: 00:00:02:99',
+      ])
+      expect(result.cues).toHaveLength(1)
+    })
+  })
+})
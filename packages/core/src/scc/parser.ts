@@ -0,0 +1,573 @@
+import { appendRun, isSameStyle } from '~/cue/runs'
+import { getFrameDuration, timecodeToFrames } from '~/fcpxml/time'
+import type { CueStyle, CueTextRun, SrtCue, SrtParseResult } from '~/types'
+
+/**
+ * A character cell of the 15x32 caption grid
+ */
+interface Cell {
+  char: string
+  style: CueStyle
+}
+
+/**
+ * Caption memory: rows (1-15) of 32 cells
+ */
+type CaptionMemory = Map<number, (Cell | undefined)[]>
+
+/**
+ * CEA-608 decoder state for data channel 1
+ */
+interface DecoderState {
+  /** Caption mode selected by RCL, RU2-RU4 or RDC */
+  mode: 'popOn' | 'rollUp' | 'paintOn'
+
+  /** Number of rows in the roll-up window */
+  rollUpRows: number
+
+  /** Memory shown on screen */
+  displayed: CaptionMemory
+
+  /** Memory being composed for the next pop-on caption */
+  nonDisplayed: CaptionMemory
+
+  /** Cursor row (1-15) */
+  row: number
+
+  /** Cursor column (0-31) */
+  column: number
+
+  /** Style applied to the following characters */
+  style: CueStyle
+}
+
+/**
+ * Caption currently shown on screen
+ */
+interface DisplayedCaption {
+  startMs: number
+  runs: CueTextRun[]
+  topRow: number
+}
+
+/**
+ * Columns per caption row
+ */
+const COLUMNS = 32
+
+/**
+ * Duration of captions that are never erased before the end of the file
+ */
+const UNCLEARED_CAPTION_MS = 3000
+
+/**
+ * SCC timecodes count 29.97fps frames; every code word takes one frame
+ */
+const SCC_FRAME_DURATION = getFrameDuration(29.97)
+
+/**
+ * Standard characters that differ from ASCII
+ */
+const STANDARD_CHARACTERS = new Map<number, string>([
+  [0x2a, 'á'],
+  [0x5c, 'é'],
+  [0x5e, 'í'],
+  [0x5f, 'ó'],
+  [0x60, 'ú'],
+  [0x7b, 'ç'],
+  [0x7c, '÷'],
+  [0x7d, 'Ñ'],
+  [0x7e, 'ñ'],
+  [0x7f, '█'],
+])
+
+/**
+ * Special characters (0x11 0x30-0x3F)
+ */
+const SPECIAL_CHARACTERS = [
+  '®',
+  '°',
+  '½',
+  '¿',
+  '™',
+  '¢',
+  '£',
+  '♪',
+  'à',
+  '\u00A0', // Transparent space
+  'è',
+  'â',
+  'ê',
+  'î',
+  'ô',
+  'û',
+]
+
+/**
+ * Extended characters (0x12 and 0x13 0x20-0x3F); each replaces the
+ * standard character sent before it
+ */
+const EXTENDED_CHARACTERS = new Map<number, string>([
+  [0x12, "ÁÉÓÚÜü‘¡*'—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»"],
+  [0x13, 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤¦ÅåØø┌┐└┘'],
+])
+
+/**
+ * Row numbers addressed by preamble address codes, by first byte (low three
+ * bits) and by whether the second byte is in the 0x60-0x7F range
+ */
+const PAC_ROWS: [number, number][] = [
+  [11, 11],
+  [1, 2],
+  [3, 4],
+  [12, 13],
+  [14, 15],
+  [5, 6],
+  [7, 8],
+  [9, 10],
+]
+
+/**
+ * Caption colors by PAC/mid-row attribute (white is the default text color)
+ */
+const COLORS: (string | undefined)[] = [
+  undefined,
+  '#00FF00FF',
+  '#0000FFFF',
+  '#00FFFFFF',
+  '#FF0000FF',
+  '#FFFF00FF',
+  '#FF00FFFF',
+]
+
+/**
+ * Parse Scenarist SCC (CEA-608 line 21 captions) file content
+ *
+ * Control codes of data channel 1 (CC1) are decoded on a 15x32 caption grid.
+ * Pop-on captions appear at End Of Caption, roll-up and paint-on captions
+ * appear as they are written, and every change of the displayed memory ends
+ * the previous cue. Italics, underline and colors from preamble address and
+ * mid-row codes become styled `cue.runs`, and the top caption row becomes
+ * `cue.settings.line`.
+ *
+ * @param source SCC file content as string
+ * @returns Parsed cues and any errors encountered
+ */
+export function parseScc(source: string): SrtParseResult {
+  const cues: SrtCue[] = []
+  const errors: string[] = []
+
+  const lines = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .split('\n')
+    .filter((line) => line.trim())
+
+  if (lines.length === 0 || !/^Scenarist_SCC V1\.0\s*$/.test(lines[0])) {
+    errors.push('Missing Scenarist_SCC V1.0 header')
+  } else {
+    lines.shift()
+  }
+
+  const state: DecoderState = {
+    mode: 'popOn',
+    rollUpRows: 2,
+    displayed: new Map(),
+    nonDisplayed: new Map(),
+    row: 15,
+    column: 0,
+    style: {},
+  }
+
+  let shown: DisplayedCaption | undefined
+
+  // Close the caption on screen and start one for the new displayed memory
+  const updateDisplay = (timeMs: number) => {
+    const { runs, topRow } = renderMemory(state.displayed)
+    if (shown && isSameRuns(shown.runs, runs)) {
+      return
+    }
+
+    if (shown && timeMs > shown.startMs) {
+      pushCue(cues, shown, timeMs)
+    }
+
+    shown = runs.length > 0 ? { startMs: timeMs, runs, topRow } : undefined
+  }
+
+  for (const line of lines) {
+    const match = line.match(
+      /^(\d{2}:\d{2}:\d{2}[:;.]\d{2})\s+((?:[0-9a-f]{4}\s*)+)$/i,
+    )
+    if (!match) {
+      errors.push(`Invalid timecode format: ${line.substring(0, 50)}`)
+      continue
+    }
+
+    let startFrame: number
+    try {
+      startFrame = timecodeToFrames(
+        match[1],
+        SCC_FRAME_DURATION,
+        /[;.]/.test(match[1]),
+      )
+    } catch {
+      errors.push(`Invalid timecode format: ${match[1]}`)
+      continue
+    }
+
+    const words = match[2].trim().split(/\s+/)
+    let previousControl: string | undefined
+    let dirtyMs: number | undefined
+    let channel = 1
+
+    for (const [wordIndex, word] of words.entries()) {
+      const timeMs = framesToMs(startFrame + wordIndex)
+
+      const first = parseInt(word.substring(0, 2), 16) & 0x7f
+      const second = parseInt(word.substring(2, 4), 16) & 0x7f
+
+      if (first >= 0x10 && first <= 0x1f) {
+        // Control codes are sent twice; the repeat is ignored
+        if (previousControl === word.toLowerCase()) {
+          previousControl = undefined
+          continue
+        }
+        previousControl = word.toLowerCase()
+        channel = first & 0x08 ? 2 : 1
+
+        if (channel !== 1) {
+          continue
+        }
+
+        const effect = handleControlCode(state, first & 0x77, second)
+        if (effect === 'display') {
+          updateDisplay(timeMs)
+          dirtyMs = undefined
+        } else if (effect === 'dirty') {
+          dirtyMs ??= timeMs
+        }
+        continue
+      }
+
+      previousControl = undefined
+      if (channel !== 1 || first === 0) {
+        continue
+      }
+
+      for (const code of [first, second]) {
+        if (code >= 0x20) {
+          writeCharacter(
+            state,
+            STANDARD_CHARACTERS.get(code) ?? String.fromCharCode(code),
+          )
+        }
+      }
+      if (state.mode !== 'popOn') {
+        dirtyMs ??= timeMs
+      }
+    }
+
+    // Roll-up and paint-on text appears once its code line has been sent
+    if (dirtyMs !== undefined) {
+      updateDisplay(dirtyMs)
+    }
+  }
+
+  if (shown) {
+    pushCue(cues, shown, shown.startMs + UNCLEARED_CAPTION_MS)
+  }
+
+  return { cues, errors }
+}
+
+/**
+ * Apply a control code of data channel 1
+ * @param code First byte without parity and channel bit (0x10-0x17)
+ * @param second Second byte without parity
+ * @returns "display" if the displayed memory must be shown now, "dirty" if
+ *   it changed, or undefined if nothing on screen changed
+ */
+function handleControlCode(
+  state: DecoderState,
+  code: number,
+  second: number,
+): 'display' | 'dirty' | undefined {
+  // Preamble address code: row, indent and style
+  if (second >= 0x40) {
+    const row = PAC_ROWS[code & 0x07][second & 0x20 ? 1 : 0]
+    const attribute = (second & 0x1e) >> 1
+
+    if (state.mode === 'rollUp' && row !== state.row) {
+      moveRollUpWindow(state, row)
+    }
+
+    state.row = row
+    state.column = attribute >= 8 ? (attribute - 8) * 4 : 0
+    state.style = {
+      ...styleFromAttribute(attribute < 8 ? attribute : 0),
+      ...(second & 0x01 ? { underline: true } : {}),
+    }
+    return undefined
+  }
+
+  // Mid-row code: a space that changes the style of the following text
+  if (code === 0x11 && second >= 0x20 && second <= 0x2f) {
+    const attribute = (second & 0x0e) >> 1
+    state.style =
+      attribute === 7
+        ? { ...state.style, italic: true }
+        : styleFromAttribute(attribute)
+    if (second & 0x01) {
+      state.style.underline = true
+    } else {
+      delete state.style.underline
+    }
+    writeCharacter(state, ' ')
+    return state.mode === 'popOn' ? undefined : 'dirty'
+  }
+
+  // Special characters
+  if (code === 0x11 && second >= 0x30 && second <= 0x3f) {
+    writeCharacter(state, SPECIAL_CHARACTERS[second - 0x30])
+    return state.mode === 'popOn' ? undefined : 'dirty'
+  }
+
+  // Extended characters replace the preceding standard character
+  if ((code === 0x12 || code === 0x13) && second >= 0x20 && second <= 0x3f) {
+    state.column = Math.max(0, state.column - 1)
+    writeCharacter(state, (EXTENDED_CHARACTERS.get(code) ?? '')[second - 0x20])
+    return state.mode === 'popOn' ? undefined : 'dirty'
+  }
+
+  // Tab offsets
+  if (code === 0x17 && second >= 0x21 && second <= 0x23) {
+    state.column = Math.min(COLUMNS - 1, state.column + (second - 0x20))
+    return undefined
+  }
+
+  if (code !== 0x14) {
+    return undefined
+  }
+
+  const memory = state.mode === 'popOn' ? state.nonDisplayed : state.displayed
+
+  switch (second) {
+    // RCL: resume caption loading (pop-on)
+    case 0x20:
+      state.mode = 'popOn'
+      return undefined
+    // BS: backspace
+    case 0x21: {
+      state.column = Math.max(0, state.column - 1)
+      const cells = memory.get(state.row)
+      if (cells) {
+        cells[state.column] = undefined
+      }
+      return state.mode === 'popOn' ? undefined : 'dirty'
+    }
+    // DER: delete to end of row
+    case 0x24: {
+      const cells = memory.get(state.row)
+      if (cells) {
+        cells.fill(undefined, state.column)
+      }
+      return state.mode === 'popOn' ? undefined : 'dirty'
+    }
+    // RU2-RU4: roll-up captions
+    case 0x25:
+    case 0x26:
+    case 0x27: {
+      const entering = state.mode !== 'rollUp'
+      state.mode = 'rollUp'
+      state.rollUpRows = second - 0x23
+      if (entering) {
+        state.displayed.clear()
+        state.nonDisplayed.clear()
+        state.row = 15
+        state.column = 0
+        return 'display'
+      }
+      return undefined
+    }
+    // RDC: resume direct captioning (paint-on)
+    case 0x29:
+      state.mode = 'paintOn'
+      return undefined
+    // EDM: erase displayed memory
+    case 0x2c:
+      state.displayed.clear()
+      return 'display'
+    // CR: carriage return
+    case 0x2d:
+      if (state.mode === 'rollUp') {
+        rollUp(state)
+        return 'display'
+      }
+      state.row = Math.min(15, state.row + 1)
+      state.column = 0
+      return undefined
+    // ENM: erase non-displayed memory
+    case 0x2e:
+      state.nonDisplayed.clear()
+      return undefined
+    // EOC: end of caption, swap memories
+    case 0x2f: {
+      const displayed = state.displayed
+      state.displayed = state.nonDisplayed
+      state.nonDisplayed = displayed
+      state.mode = 'popOn'
+      return 'display'
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Write a character at the cursor of the memory being composed
+ */
+function writeCharacter(state: DecoderState, char: string): void {
+  const memory = state.mode === 'popOn' ? state.nonDisplayed : state.displayed
+  let cells = memory.get(state.row)
+  if (!cells) {
+    cells = new Array(COLUMNS).fill(undefined)
+    memory.set(state.row, cells)
+  }
+
+  cells[state.column] = { char, style: { ...state.style } }
+  // The cursor stays on the last column when a row is full
+  state.column = Math.min(COLUMNS - 1, state.column + 1)
+}
+
+/**
+ * Scroll the roll-up window up by one row and clear the base row
+ */
+function rollUp(state: DecoderState): void {
+  const topRow = state.row - state.rollUpRows + 1
+  const rows = new Map<number, (Cell | undefined)[]>()
+
+  for (const [row, cells] of state.displayed) {
+    if (row - 1 >= topRow && row <= state.row) {
+      rows.set(row - 1, cells)
+    }
+  }
+
+  state.displayed = rows
+  state.column = 0
+}
+
+/**
+ * Move the roll-up window so that its base is the given row
+ */
+function moveRollUpWindow(state: DecoderState, baseRow: number): void {
+  const shift = baseRow - state.row
+  const rows = new Map<number, (Cell | undefined)[]>()
+
+  for (const [row, cells] of state.displayed) {
+    const target = row + shift
+    if (target >= 1 && target <= 15 && target > baseRow - state.rollUpRows) {
+      rows.set(target, cells)
+    }
+  }
+
+  state.displayed = rows
+}
+
+/**
+ * Style of a PAC or mid-row attribute (0-6 colors, 7 italics)
+ */
+function styleFromAttribute(attribute: number): CueStyle {
+  if (attribute === 7) {
+    return { italic: true }
+  }
+  const color = COLORS[attribute]
+  return color ? { textColor: color } : {}
+}
+
+/**
+ * Render caption memory to text runs (one line per non-empty row)
+ */
+function renderMemory(memory: CaptionMemory): {
+  runs: CueTextRun[]
+  topRow: number
+} {
+  const runs: CueTextRun[] = []
+  const rows = [...memory.keys()].sort((a, b) => a - b)
+  let topRow = 0
+
+  for (const row of rows) {
+    const cells = memory.get(row) ?? []
+    const filled = cells.map((cell) => (cell && cell.char !== ' ' ? 1 : 0))
+    const first = filled.indexOf(1)
+    const last = filled.lastIndexOf(1)
+    if (first === -1) {
+      continue
+    }
+
+    // Line breaks join the previous run
+    if (topRow === 0) {
+      topRow = row
+    } else {
+      runs[runs.length - 1].text += '\n'
+    }
+
+    for (let column = first; column <= last; column++) {
+      const cell = cells[column]
+      appendRun(runs, cell?.char ?? ' ', cell?.style ?? {})
+    }
+  }
+
+  return { runs, topRow }
+}
+
+/**
+ * Add a cue for a caption that was shown until the given time
+ */
+function pushCue(
+  cues: SrtCue[],
+  caption: DisplayedCaption,
+  endMs: number,
+): void {
+  cues.push({
+    index: cues.length + 1,
+    startMs: caption.startMs,
+    endMs,
+    text: caption.runs.map((run) => run.text).join(''),
+    runs: caption.runs,
+    settings: { line: rowToLine(caption.topRow) },
+  })
+}
+
+/**
+ * Convert a caption row (1-15) to a line position: rows fill the central
+ * 80% of the frame height
+ */
+function rowToLine(row: number): string {
+  return `${Math.round((10 + ((row - 1) * 80) / 15) * 100) / 100}%`
+}
+
+/**
+ * Convert a 29.97fps frame count to milliseconds
+ */
+function framesToMs(frames: number): number {
+  return Math.round(
+    (frames * SCC_FRAME_DURATION.numerator * 1000) /
+      SCC_FRAME_DURATION.denominator,
+  )
+}
+
+/**
+ * Compare rendered runs of two captions
+ */
+function isSameRuns(a: CueTextRun[], b: CueTextRun[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (run, index) =>
+        run.text === b[index].text &&
+        isSameStyle(run.style ?? {}, b[index].style ?? {}),
+    )
+  )
+}
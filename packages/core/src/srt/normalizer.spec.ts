@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { normalizeSrt } from './normalizer'
+
+describe('SRT Normalizer', () => {
+  describe('normalizeSrt', () => {
+    const canonical = `1
+00:00:01,000 --> 00:00:02,000
+First
+
+2
+00:00:03,000 --> 00:00:04,000
+Second
+`
+
+    it('should leave canonical content unchanged', () => {
+      expect(normalizeSrt(canonical)).toEqual({
+        output: canonical,
+        fixes: [],
+        errors: [],
+      })
+    })
+
+    it('should sort, renumber and clean up cues', () => {
+      const result = normalizeSrt(
+        '\uFEFF7\r\n00:00:03,000 --> 00:00:04,000\r\nSecond  \r\n\r\n\r\n' +
+          '3\r\n00:00:01,000-->00:00:02,000\r\nFirst\r\n',
+      )
+
+      expect(result.output).toBe(canonical)
+      expect(result.fixes).toEqual([
+        'Removed byte order mark',
+        'Converted line endings to LF',
+        'Sorted cues by start time',
+        'Renumbered 2 cues',
+        'Removed trailing whitespace from 1 line',
+      ])
+      expect(result.errors).toEqual([])
+    })
+
+    it('should write CRLF line endings and a byte order mark', () => {
+      const result = normalizeSrt(canonical, { lineEnding: 'crlf', bom: true })
+
+      expect(result.output).toBe(`\uFEFF${canonical.replace(/\n/g, '\r\n')}`)
+      expect(result.fixes).toEqual([
+        'Added byte order mark',
+        'Converted line endings to CRLF',
+      ])
+    })
+
+    it('should report other formatting fixes', () => {
+      const result = normalizeSrt(
+        canonical.replace('00:00:01,000 --> ', '00:00:01,000  -->  '),
+      )
+
+      expect(result.output).toBe(canonical)
+      expect(result.fixes).toEqual(['Reformatted cue blocks'])
+    })
+
+    it('should leave out blocks that cannot be parsed', () => {
+      const result = normalizeSrt(`${canonical}\n3\nnot a timecode\nText\n`)
+
+      expect(result.output).toBe(canonical)
+      expect(result.errors).toEqual(['Invalid timecode format: not a timecode'])
+    })
+  })
+})
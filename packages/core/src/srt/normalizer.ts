@@ -0,0 +1,83 @@
+import { parseSrt } from '~/srt/parser'
+import { type SrtSerializeOptions, serializeSrt } from '~/srt/serializer'
+
+/**
+ * Result of rewriting SRT content in canonical form
+ */
+export interface SrtNormalizeResult {
+  /** Canonical SRT content */
+  output: string
+
+  /** One message per kind of fix applied to the content */
+  fixes: string[]
+
+  /** Parse errors (blocks that could not be parsed are left out) */
+  errors: string[]
+}
+
+/**
+ * Rewrite SRT content in canonical form
+ *
+ * Cues are sorted by start time and renumbered from 1, timecodes are written
+ * as HH:MM:SS,mmm, blocks are separated by exactly one blank line, and
+ * trailing whitespace is removed. The line ending and byte order mark follow
+ * the options, whatever the input used.
+ *
+ * @param source SRT file content
+ * @param options Line ending and byte order mark of the output
+ * @returns Canonical content, the fixes applied and any parse errors
+ * @throws {Error} If the line ending is invalid
+ */
+export function normalizeSrt(
+  source: string,
+  options: SrtSerializeOptions = {},
+): SrtNormalizeResult {
+  const fixes: string[] = []
+
+  const hasBom = source.startsWith('\uFEFF')
+  if (hasBom && !options.bom) {
+    fixes.push('Removed byte order mark')
+  } else if (!hasBom && options.bom) {
+    fixes.push('Added byte order mark')
+  }
+
+  const lineEnding = options.lineEnding ?? 'lf'
+  const lineEndings = source.match(/\r\n|\r|\n/g) ?? []
+  const expected = lineEnding === 'crlf' ? '\r\n' : '\n'
+  if (lineEndings.some((ending) => ending !== expected)) {
+    fixes.push(`Converted line endings to ${lineEnding.toUpperCase()}`)
+  }
+
+  const { cues, errors } = parseSrt(source.replace(/^\uFEFF/, ''))
+
+  const sorted = [...cues].sort((a, b) => a.startMs - b.startMs)
+  if (sorted.some((cue, i) => cue !== cues[i])) {
+    fixes.push('Sorted cues by start time')
+  }
+
+  const renumbered = sorted.filter((cue, i) => cue.index !== i + 1).length
+  if (renumbered > 0) {
+    fixes.push(`Renumbered ${renumbered} cue${renumbered === 1 ? '' : 's'}`)
+  }
+
+  const padded = source
+    .split(/\r\n|\r|\n/)
+    .filter((line) => /[ \t]+$/.test(line)).length
+  if (padded > 0) {
+    fixes.push(
+      `Removed trailing whitespace from ${padded} line${padded === 1 ? '' : 's'}`,
+    )
+  }
+
+  const output = serializeSrt(sorted, options)
+
+  // Anything else, such as extra blank lines between blocks or timecode spacing
+  const expectedSource =
+    (options.bom ? '\uFEFF' : '') +
+    source.replace(/^\uFEFF/, '').replace(/\r\n|\r|\n/g, expected)
+  if (fixes.length === 0 && errors.length === 0 && output !== expectedSource) {
+    fixes.push('Reformatted cue blocks')
+  }
+
+  return { output, fixes, errors }
+}
@@ -3,6 +3,7 @@ import {
   decodeHtmlEntities,
   formatSrtTimecode,
   parseSrt,
+  parseSrtTextRuns,
   stripHtmlTags,
 } from './parser'
 
@@ -226,6 +227,36 @@ Text`
       expect(result.cues).toHaveLength(1)
       expect(result.cues[0].index).toBe(1)
     })
+
+    it('should read {\\an} alignment tags into cue style and settings', () => {
+      const srt = `1
+00:00:01,000 --> 00:00:02,000
+{\\an8}Top center
+
+2
+00:00:03,000 --> 00:00:04,000
+{\\an4}Middle left
+
+3
+00:00:05,000 --> 00:00:06,000
+{\\an3}Bottom right`
+
+      const result = parseSrt(srt)
+
+      expect(result.cues[0]).toMatchObject({
+        text: 'Top center',
+        style: { alignment: 'center' },
+        settings: { line: '0%' },
+      })
+      expect(result.cues[1]).toMatchObject({
+        text: 'Middle left',
+        style: { alignment: 'left' },
+        settings: { line: '50%' },
+      })
+      expect(result.cues[2].text).toBe('Bottom right')
+      expect(result.cues[2].style).toEqual({ alignment: 'right' })
+      expect(result.cues[2].settings).toEqual({ line: '100%' })
+    })
   })
 
   describe('formatSrtTimecode', () => {
@@ -534,6 +565,71 @@ Text`
     })
   })
 
+  describe('parseSrtTextRuns', () => {
+    it('should turn formatting tags into styled runs', () => {
+      expect(
+        parseSrtTextRuns('Plain <b>bold</b> <i>italic</i> <u>under</u>'),
+      ).toEqual([
+        { text: 'Plain ' },
+        { text: 'bold', style: { bold: true } },
+        { text: ' ' },
+        { text: 'italic', style: { italic: true } },
+        { text: ' ' },
+        { text: 'under', style: { underline: true } },
+      ])
+    })
+
+    it('should combine nested tags', () => {
+      expect(
+        parseSrtTextRuns(
+          '<b>Bold <i>both</i></b>\n<strong><em>Too</em></strong>',
+        ),
+      ).toEqual([
+        { text: 'Bold ', style: { bold: true } },
+        { text: 'both', style: { bold: true, italic: true } },
+        { text: '\n' },
+        { text: 'Too', style: { bold: true, italic: true } },
+      ])
+    })
+
+    it('should read font colors', () => {
+      expect(
+        parseSrtTextRuns(
+          '<font color="#ff0000">a</font><font color=\'red\'>b</font><font color=00FF00>c</font><font color="#00f">d</font><FONT COLOR="#FFFFFF80">e</FONT>',
+        ),
+      ).toEqual([
+        { text: 'ab', style: { textColor: '#FF0000FF' } },
+        { text: 'c', style: { textColor: '#00FF00FF' } },
+        { text: 'd', style: { textColor: '#0000FFFF' } },
+        { text: 'e', style: { textColor: '#FFFFFF80' } },
+      ])
+    })
+
+    it('should ignore unknown font colors and unmatched closing tags', () => {
+      expect(
+        parseSrtTextRuns(
+          '</i><font color="bogus" face="Arial">Text</font></b>',
+        ),
+      ).toEqual([{ text: 'Text' }])
+    })
+
+    it('should strip other markup like stripHtmlTags', () => {
+      expect(
+        parseSrtTextRuns(
+          '<b>Tom &amp; Jerry</b><script>alert(1)</script> <!-- note --><span class="x">say</span> &lt;hi&gt;',
+        ),
+      ).toEqual([
+        { text: 'Tom & Jerry', style: { bold: true } },
+        { text: ' say <hi>' },
+      ])
+    })
+
+    it('should return no runs for empty text', () => {
+      expect(parseSrtTextRuns('<i></i>')).toEqual([])
+      expect(parseSrtTextRuns('')).toEqual([])
+    })
+  })
+
   describe('decodeHtmlEntities', () => {
     it('should decode basic HTML entities', () => {
       expect(decodeHtmlEntities('&amp;')).toBe('&')
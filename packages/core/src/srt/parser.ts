@@ -1,4 +1,7 @@
-import type { SrtCue, SrtParseResult } from '~/types'
+import { numpadToSettings, numpadToTextAlignment } from '~/cue/alignment'
+import { NAMED_COLORS } from '~/cue/colors'
+import { appendRun } from '~/cue/runs'
+import type { CueStyle, CueTextRun, SrtCue, SrtParseResult } from '~/types'
 
 /**
  * Parse SRT subtitle file content
@@ -66,19 +69,29 @@ export function parseSrt(source: string): SrtParseResult {
         continue
       }
 
-      // Parse text (remaining lines)
-      const text = lines.slice(2).join('\n').trim()
+      // Parse text (remaining lines), taking out {\an1}-{\an9} alignment tags
+      const rawText = lines.slice(2).join('\n')
+      const alignmentMatch = rawText.match(/\{\\an([1-9])\}/)
+      const text = rawText.replace(/\{\\an[1-9]\}/g, '').trim()
 
       if (!text) {
         errors.push(`Empty text in cue ${index}`)
       }
 
-      cues.push({
+      const cue: SrtCue = {
         index,
         startMs: startTime,
         endMs: endTime,
         text,
-      })
+      }
+
+      if (alignmentMatch) {
+        const alignment = Number(alignmentMatch[1])
+        cue.style = { alignment: numpadToTextAlignment(alignment) }
+        cue.settings = numpadToSettings(alignment)
+      }
+
+      cues.push(cue)
     } catch (error) {
       errors.push(
         `Error parsing block: ${error instanceof Error ? error.message : String(error)}`,
@@ -311,3 +324,116 @@ export function stripHtmlTags(text: string): string {
 
   return cleaned
 }
+
+/**
+ * Styles of the SRT formatting tags (<font> is handled separately)
+ */
+const FORMATTING_TAG_STYLES: Record<string, CueStyle> = {
+  b: { bold: true },
+  strong: { bold: true },
+  i: { italic: true },
+  em: { italic: true },
+  u: { underline: true },
+}
+
+/**
+ * An open formatting tag and the style it applies
+ */
+interface OpenTag {
+  name: string
+  style: CueStyle
+}
+
+/**
+ * Split SRT text into styled runs from its formatting tags
+ *
+ * <b>, <strong>, <i>, <em>, <u> and <font color="..."> become run styles;
+ * every other tag, comment or entity is handled like stripHtmlTags does.
+ * @param text Cue text with HTML-like tags
+ * @returns Runs with their text, in order (empty when no text is left)
+ */
+export function parseSrtTextRuns(text: string): CueTextRun[] {
+  // Replace formatting tags with numbered markers so that stripHtmlTags
+  // cleans up everything else (markers are private use characters)
+  const tags: string[] = []
+  const marked = text
+    .replace(/[\uE000\uE001]/g, '')
+    .replace(
+      /<\/?(?:b|strong|i|em|u|font)(?:\s[^>]*)?>/gi,
+      (tag) => `\uE000${tags.push(tag) - 1}\uE001`,
+    )
+  const parts = stripHtmlTags(marked).split(/\uE000(\d+)\uE001/)
+
+  const runs: CueTextRun[] = []
+  const openTags: OpenTag[] = []
+
+  parts.forEach((part, partIndex) => {
+    if (partIndex % 2 === 1) {
+      applyFormattingTag(openTags, tags[Number(part)])
+    } else if (part) {
+      appendRun(
+        runs,
+        part,
+        Object.assign({}, ...openTags.map((openTag) => openTag.style)),
+      )
+    }
+  })
+
+  return runs
+}
+
+/**
+ * Open or close a formatting tag (unmatched closing tags are ignored)
+ */
+function applyFormattingTag(openTags: OpenTag[], tag: string): void {
+  const match = tag.match(/^<(\/?)([a-z]+)/i)
+  if (!match) {
+    return
+  }
+
+  const name = match[2].toLowerCase()
+  if (match[1]) {
+    const openIndex = openTags.map((openTag) => openTag.name).lastIndexOf(name)
+    if (openIndex !== -1) {
+      openTags.splice(openIndex, 1)
+    }
+    return
+  }
+
+  const style: CueStyle = { ...FORMATTING_TAG_STYLES[name] }
+  if (name === 'font') {
+    const attribute = tag.match(
+      /\bcolor\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i,
+    )
+    const color = parseFontColor(
+      attribute?.[1] ?? attribute?.[2] ?? attribute?.[3] ?? '',
+    )
+    if (color) {
+      style.textColor = color
+    }
+  }
+  openTags.push({ name, style })
+}
+
+/**
+ * Convert a <font color> value (#RRGGBB, #RGB, RRGGBB, #RRGGBBAA or a named
+ * color) to #RRGGBBAA
+ */
+function parseFontColor(value: string): string | undefined {
+  const trimmed = value.trim()
+
+  const hexMatch = trimmed.match(/^#?([0-9a-f]{6})([0-9a-f]{2})?$/i)
+  if (hexMatch) {
+    return `#${hexMatch[1]}${hexMatch[2] ?? 'FF'}`.toUpperCase()
+  }
+
+  const shortMatch = trimmed.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i)
+  if (shortMatch) {
+    return `#${shortMatch
+      .slice(1)
+      .map((digit) => digit + digit)
+      .join('')}FF`.toUpperCase()
+  }
+
+  return NAMED_COLORS[trimmed.toLowerCase()]
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { parseSrt } from './parser'
+import { serializeSrt } from './serializer'
+
+describe('SRT Serializer', () => {
+  describe('serializeSrt', () => {
+    it('should write numbered cues separated by blank lines', () => {
+      const srt = serializeSrt([
+        { index: 5, startMs: 1000, endMs: 3500, text: 'First subtitle' },
+        { index: 9, startMs: 3723004, endMs: 3724000, text: 'Two\nlines' },
+      ])
+
+      expect(srt).toBe(`1
+00:00:01,000 --> 00:00:03,500
+First subtitle
+
+2
+01:02:03,004 --> 01:02:04,000
+Two
+lines
+`)
+    })
+
+    it('should round-trip through parseSrt', () => {
+      const cues = [
+        { index: 1, startMs: 0, endMs: 999, text: 'Start' },
+        { index: 2, startMs: 1000, endMs: 2000, text: 'こんにちは' },
+      ]
+
+      expect(parseSrt(serializeSrt(cues)).cues).toEqual(cues)
+    })
+
+    it('should write alignment and position as an {\\an} tag', () => {
+      const { cues } = parseSrt(`1
+00:00:01,000 --> 00:00:02,000
+{\\an8}Top
+
+2
+00:00:02,000 --> 00:00:03,000
+{\\an1}Bottom left
+`)
+
+      expect(serializeSrt(cues)).toContain('{\\an8}Top')
+      expect(serializeSrt(cues)).toContain('{\\an1}Bottom left')
+      expect(parseSrt(serializeSrt(cues)).cues).toEqual(cues)
+    })
+
+    it('should remove trailing whitespace and blank lines from text', () => {
+      const srt = serializeSrt([
+        { index: 1, startMs: 0, endMs: 1000, text: 'One  \n\nTwo\t' },
+      ])
+
+      expect(srt).toBe('1\n00:00:00,000 --> 00:00:01,000\nOne\nTwo\n')
+    })
+
+    it('should write CRLF line endings and a byte order mark', () => {
+      const srt = serializeSrt(
+        [
+          { index: 1, startMs: 0, endMs: 1000, text: 'A\nB' },
+          { index: 2, startMs: 1000, endMs: 2000, text: 'C' },
+        ],
+        { lineEnding: 'crlf', bom: true },
+      )
+
+      expect(srt).toBe(
+        '\uFEFF1\r\n00:00:00,000 --> 00:00:01,000\r\nA\r\nB\r\n\r\n2\r\n00:00:01,000 --> 00:00:02,000\r\nC\r\n',
+      )
+    })
+
+    it('should throw on an invalid line ending', () => {
+      expect(() =>
+        serializeSrt([], { lineEnding: 'cr' as unknown as 'lf' }),
+      ).toThrow('Invalid line ending: cr')
+    })
+
+    it('should return an empty string without cues', () => {
+      expect(serializeSrt([])).toBe('')
+    })
+  })
+})
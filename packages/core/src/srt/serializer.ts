@@ -0,0 +1,60 @@
+import { cueToNumpad } from '~/cue/alignment'
+import { formatSrtTimecode } from '~/srt/parser'
+import type { SrtCue } from '~/types'
+
+/**
+ * Options for writing SRT content
+ */
+export interface SrtSerializeOptions {
+  /** Line ending: "lf" (\n) or "crlf" (\r\n, as in Windows tools) (default: "lf") */
+  lineEnding?: 'lf' | 'crlf'
+
+  /** Start the content with a UTF-8 byte order mark (default: false) */
+  bom?: boolean
+}
+
+/**
+ * Clean up cue text for an SRT block: trailing whitespace and blank lines
+ * (which would end the block) are removed
+ */
+function cleanSrtText(text: string): string {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line)
+    .join('\n')
+}
+
+/**
+ * Write cues as SRT file content
+ *
+ * Cue alignment and top or middle positions (as parsed from {\an1}-{\an9}
+ * tags) are written back as an {\an} tag at the start of the text.
+ *
+ * @param cues Subtitle cues, numbered from 1 in the given order
+ * @param options Line ending and byte order mark
+ * @returns SRT file content
+ * @throws {Error} If the line ending is invalid
+ */
+export function serializeSrt(
+  cues: SrtCue[],
+  options: SrtSerializeOptions = {},
+): string {
+  const content = cues
+    .map((cue, i) => {
+      const numpad = cueToNumpad(cue)
+      const tag = numpad ? `{\\an${numpad}}` : ''
+      return `${i + 1}\n${formatSrtTimecode(cue.startMs)} --> ${formatSrtTimecode(cue.endMs)}\n${tag}${cleanSrtText(cue.text)}\n`
+    })
+    .join('\n')
+
+  const lineEnding = options.lineEnding ?? 'lf'
+  if (lineEnding !== 'lf' && lineEnding !== 'crlf') {
+    throw new Error(`Invalid line ending: ${lineEnding}`)
+  }
+
+  const bom = options.bom ? '\uFEFF' : ''
+  return (
+    bom + (lineEnding === 'crlf' ? content.replace(/\n/g, '\r\n') : content)
+  )
+}
@@ -0,0 +1,267 @@
+import { describe, expect, it } from 'vitest'
+import { parseTtml } from './parser'
+
+/**
+ * Wrap body content in a TTML document
+ */
+function ttml(body: string, head = '', rootAttributes = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" xml:lang="en"${rootAttributes}>
+  <head>${head}</head>
+  <body>
+    <div>
+${body}
+    </div>
+  </body>
+</tt>`
+}
+
+describe('TTML Parser', () => {
+  describe('parseTtml', () => {
+    it('should parse clock-time paragraphs', () => {
+      const result = parseTtml(
+        ttml(`<p begin="00:00:01.000" end="00:00:03.500">First subtitle</p>
+<p begin="00:00:04.000" end="00:00:06.000">Second<br/>line</p>`),
+      )
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toEqual([
+        {
+          index: 1,
+          startMs: 1000,
+          endMs: 3500,
+          text: 'First subtitle',
+          runs: [{ text: 'First subtitle' }],
+        },
+        {
+          index: 2,
+          startMs: 4000,
+          endMs: 6000,
+          text: 'Second\nline',
+          runs: [{ text: 'Second\nline' }],
+        },
+      ])
+    })
+
+    it('should parse offset times and durations', () => {
+      const result = parseTtml(
+        ttml(`<p begin="1.5s" dur="2s">Seconds</p>
+<p begin="4000ms" end="0.1m">Milliseconds and minutes</p>
+<p begin="1h" dur="500ms">Hours</p>`),
+      )
+
+      expect(result.cues.map((cue) => [cue.startMs, cue.endMs])).toEqual([
+        [1500, 3500],
+        [4000, 6000],
+        [3600000, 3600500],
+      ])
+    })
+
+    it('should parse frame-based times', () => {
+      const result = parseTtml(
+        ttml(
+          `<p begin="00:00:01:12" end="00:00:02:00">Clock frames</p>
+<p begin="60f" end="90f">Offset frames</p>`,
+          '',
+          ' ttp:frameRate="24"',
+        ),
+      )
+
+      expect(result.cues[0].startMs).toBe(1500)
+      expect(result.cues[0].endMs).toBe(2000)
+      expect(result.cues[1].startMs).toBe(2500)
+      expect(result.cues[1].endMs).toBe(3750)
+    })
+
+    it('should apply the frame rate multiplier', () => {
+      const result = parseTtml(
+        ttml(
+          '<p begin="30f" end="60f">NTSC</p>',
+          '',
+          ' ttp:frameRate="30" ttp:frameRateMultiplier="1000 1001"',
+        ),
+      )
+
+      expect(result.cues[0].startMs).toBe(1001)
+      expect(result.cues[0].endMs).toBe(2002)
+    })
+
+    it('should parse tick times', () => {
+      const result = parseTtml(
+        ttml(
+          '<p begin="10000000t" end="20000000t">Ticks</p>',
+          '',
+          ' ttp:tickRate="10000000"',
+        ),
+      )
+
+      expect(result.cues[0].startMs).toBe(1000)
+      expect(result.cues[0].endMs).toBe(2000)
+    })
+
+    it('should offset times by parent time containers', () => {
+      const result = parseTtml(`<tt xmlns="http://www.w3.org/ns/ttml">
+  <body begin="10s">
+    <div begin="5s" end="20s">
+      <p begin="1s" dur="1s">Nested</p>
+      <p begin="3s">Until container end</p>
+    </div>
+  </body>
+</tt>`)
+
+      expect(result.cues.map((cue) => [cue.startMs, cue.endMs])).toEqual([
+        [16000, 17000],
+        [18000, 30000],
+      ])
+    })
+
+    it('should collapse whitespace and decode entities', () => {
+      const result = parseTtml(
+        ttml(`<p begin="1s" end="2s">
+  Tom &amp; Jerry
+  <br />
+  say &lt;hi&gt;
+</p>`),
+      )
+
+      expect(result.cues[0].text).toBe('Tom & Jerry\nsay <hi>')
+    })
+
+    it('should keep whitespace with xml:space="preserve"', () => {
+      const result = parseTtml(
+        ttml('<p begin="1s" end="2s" xml:space="preserve">a  b</p>'),
+      )
+
+      expect(result.cues[0].text).toBe('a  b')
+    })
+
+    it('should map span styles to runs', () => {
+      const result = parseTtml(
+        ttml(
+          `<p begin="1s" end="2s">Plain <span tts:fontWeight="bold">bold</span> and <span tts:color="#FF0000" tts:fontStyle="italic">red italic</span></p>`,
+        ),
+      )
+
+      expect(result.cues[0].text).toBe('Plain bold and red italic')
+      expect(result.cues[0].runs).toEqual([
+        { text: 'Plain ' },
+        { text: 'bold', style: { bold: true } },
+        { text: ' and ' },
+        { text: 'red italic', style: { textColor: '#FF0000FF', italic: true } },
+      ])
+    })
+
+    it('should resolve referenced and inherited styles', () => {
+      const head = `
+    <styling>
+      <style xml:id="base" tts:fontFamily="'Helvetica Neue', proportionalSansSerif" tts:fontSize="48px" tts:color="white"/>
+      <style xml:id="emphasis" style="base" tts:textDecoration="underline" tts:color="rgba(255,255,0,128)"/>
+    </styling>`
+      const result = parseTtml(
+        ttml(
+          '<p begin="1s" end="2s" style="base">Normal <span style="emphasis">marked</span></p>',
+          head,
+        ),
+      )
+
+      expect(result.cues[0].style).toEqual({
+        fontFamily: 'Helvetica Neue',
+        fontSize: 48,
+        textColor: '#FFFFFFFF',
+      })
+      expect(result.cues[0].runs?.[1]).toEqual({
+        text: 'marked',
+        style: {
+          fontFamily: 'Helvetica Neue',
+          fontSize: 48,
+          textColor: '#FFFF0080',
+          underline: true,
+        },
+      })
+    })
+
+    it('should map regions to cue settings', () => {
+      const head = `
+    <layout>
+      <region xml:id="top" tts:origin="10% 5%" tts:extent="80% 15%" tts:displayAlign="before" tts:textAlign="center"/>
+      <region xml:id="bottom" tts:origin="10% 80%" tts:extent="80% 10%" tts:displayAlign="after"/>
+      <region xml:id="pixels" tts:origin="192px 540px" tts:extent="960px 108px" tts:displayAlign="center"/>
+    </layout>`
+      const result = parseTtml(
+        ttml(
+          `<p begin="1s" end="2s" region="top">Top</p>
+<p begin="3s" end="4s" region="bottom" tts:textAlign="start">Bottom</p>
+<p begin="5s" end="6s" region="pixels">Pixels</p>`,
+          head,
+          ' tts:extent="1920px 1080px"',
+        ),
+      )
+
+      expect(result.cues[0].settings).toEqual({
+        line: '5%',
+        position: '50%',
+        align: 'center',
+      })
+      expect(result.cues[1].settings).toEqual({
+        line: '90%',
+        position: '50%',
+        align: 'start',
+      })
+      expect(result.cues[2].settings).toEqual({
+        line: '55%',
+        position: '35%',
+      })
+    })
+
+    it('should skip ruby annotation text', () => {
+      const result = parseTtml(
+        ttml(
+          '<p begin="1s" end="2s"><span tts:ruby="container"><span tts:ruby="base">漢字</span><span tts:ruby="text">かんじ</span></span></p>',
+        ),
+      )
+
+      expect(result.cues[0].text).toBe('漢字')
+    })
+
+    it('should accept prefixed TTML elements', () => {
+      const result = parseTtml(`<tt:tt xmlns:tt="http://www.w3.org/ns/ttml">
+  <tt:body><tt:div><tt:p begin="00:00:01.000" end="00:00:02.000">Prefixed</tt:p></tt:div></tt:body>
+</tt:tt>`)
+
+      expect(result.cues[0].text).toBe('Prefixed')
+    })
+
+    it('should report invalid time expressions', () => {
+      const result = parseTtml(
+        ttml(`<p begin="1 second" end="2s">Bad</p>
+<p begin="00:00:03.000" end="00:00:04.000">Good</p>`),
+      )
+
+      expect(result.cues).toHaveLength(1)
+      expect(result.errors).toContain(
+        'Invalid time expression in cue 1: 1 second',
+      )
+    })
+
+    it('should report paragraphs without an end time', () => {
+      const result = parseTtml(ttml('<p begin="1s">Open ended</p>'))
+
+      expect(result.cues).toHaveLength(0)
+      expect(result.errors).toContain('Missing end time in cue 1')
+    })
+
+    it('should reject cues that end before they start', () => {
+      const result = parseTtml(ttml('<p begin="5s" end="2s">Backwards</p>'))
+
+      expect(result.cues).toHaveLength(0)
+      expect(result.errors[0]).toContain('End time must be after start time')
+    })
+
+    it('should report malformed XML and documents without <tt>', () => {
+      expect(parseTtml('<tt><body></tt>').errors[0]).toContain('Invalid XML')
+      expect(parseTtml('<html><body/></html>').errors).toEqual([
+        'Missing <tt> root element',
+      ])
+    })
+  })
+})
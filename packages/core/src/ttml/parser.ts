@@ -0,0 +1,641 @@
+import { NAMED_COLORS } from '~/cue/colors'
+import { appendRun } from '~/cue/runs'
+import { formatSrtTimecode } from '~/srt/parser'
+import type {
+  CueSettings,
+  CueStyle,
+  CueTextRun,
+  SrtCue,
+  SrtParseResult,
+} from '~/types'
+import { findChild, parseXml, type XmlElement } from '~/xml/parser'
+
+/**
+ * Timing parameters from the <tt> root element (ttp:* attributes)
+ */
+interface TimingParameters {
+  /** Effective frame rate (frameRate * frameRateMultiplier) */
+  frameRate: number
+
+  /** Sub-frames per frame */
+  subFrameRate: number
+
+  /** Ticks per second */
+  tickRate: number
+}
+
+/**
+ * Styling and layout state inherited down the content tree
+ */
+interface Context {
+  /** Absolute begin of the parent time container in milliseconds */
+  beginMs: number
+
+  /** Absolute end of the parent time container, if known */
+  endMs?: number
+
+  /** Inherited region id */
+  region?: string
+
+  /** Inherited tts:* style attributes */
+  style: Record<string, string>
+
+  /** Whether xml:space="preserve" applies */
+  preserveSpace: boolean
+}
+
+/**
+ * Style attributes (tts:*) that are read from TTML documents
+ */
+const STYLE_ATTRIBUTES = [
+  'color',
+  'fontFamily',
+  'fontSize',
+  'fontStyle',
+  'fontWeight',
+  'textDecoration',
+  'textAlign',
+  'origin',
+  'extent',
+  'displayAlign',
+]
+
+/**
+ * Generic TTML font family names that have no FCP equivalent
+ */
+const GENERIC_FONT_FAMILIES = new Set([
+  'default',
+  'monospace',
+  'sansSerif',
+  'serif',
+  'monospaceSansSerif',
+  'monospaceSerif',
+  'proportionalSansSerif',
+  'proportionalSerif',
+])
+
+/**
+ * Parse TTML (DFXP, IMSC1 text profile) subtitle file content
+ *
+ * Each <p> becomes a cue. Clock-time, offset-time and frame-based times
+ * (ttp:frameRate, ttp:frameRateMultiplier) are supported, and times nest
+ * inside <body>/<div> time containers. Referenced and inline tts:* styles
+ * become `cue.style` and styled `cue.runs` for <span> elements, and regions
+ * become `cue.settings`.
+ *
+ * @param source TTML file content as string
+ * @returns Parsed cues and any errors encountered
+ */
+export function parseTtml(source: string): SrtParseResult {
+  const cues: SrtCue[] = []
+  const errors: string[] = []
+
+  let root: XmlElement
+  try {
+    root = parseXml(source.replace(/^\uFEFF/, ''))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    errors.push(`Invalid XML: ${message}`)
+    return { cues, errors }
+  }
+
+  if (root.name !== 'tt') {
+    errors.push('Missing <tt> root element')
+    return { cues, errors }
+  }
+
+  const params = getTimingParameters(root)
+  const rootExtent = parseLengthPair(root.attributes.extent)
+  const head = findChild(root, 'head')
+  const styles = collectById(head, 'styling', 'style')
+  const regions = collectById(head, 'layout', 'region')
+  const body = findChild(root, 'body')
+
+  if (!body) {
+    return { cues, errors }
+  }
+
+  const visit = (element: XmlElement, parent: Context) => {
+    const index = cues.length + 1
+    const timing = resolveTiming(element, parent, params, index, errors)
+    if (!timing) {
+      return
+    }
+
+    const context: Context = {
+      beginMs: timing.beginMs,
+      endMs: timing.endMs,
+      region: element.attributes.region ?? parent.region,
+      style: {
+        ...parent.style,
+        ...resolveStyle(element.attributes, styles),
+      },
+      preserveSpace:
+        element.attributes.space === undefined
+          ? parent.preserveSpace
+          : element.attributes.space === 'preserve',
+    }
+
+    if (element.name !== 'p') {
+      for (const child of element.children) {
+        if (typeof child !== 'string') {
+          visit(child, context)
+        }
+      }
+      return
+    }
+
+    const cue = buildCue(
+      element,
+      context,
+      index,
+      styles,
+      regions,
+      rootExtent,
+      errors,
+    )
+    if (cue) {
+      cues.push(cue)
+    }
+  }
+
+  visit(body, {
+    beginMs: 0,
+    style: {},
+    preserveSpace: root.attributes.space === 'preserve',
+  })
+
+  return { cues, errors }
+}
+
+/**
+ * Build a cue from a <p> element
+ * @returns The cue, or undefined if it has no usable timing
+ */
+function buildCue(
+  element: XmlElement,
+  context: Context,
+  index: number,
+  styles: Map<string, XmlElement>,
+  regions: Map<string, XmlElement>,
+  rootExtent: Length[] | undefined,
+  errors: string[],
+): SrtCue | undefined {
+  const startMs = context.beginMs
+  const endMs = context.endMs
+
+  if (endMs === undefined) {
+    errors.push(`Missing end time in cue ${index}`)
+    return undefined
+  }
+
+  if (endMs <= startMs) {
+    errors.push(
+      `End time must be after start time in cue ${index}: ${formatSrtTimecode(startMs)} --> ${formatSrtTimecode(endMs)}`,
+    )
+    return undefined
+  }
+
+  // Region styles apply to the content they contain
+  const region = context.region ? regions.get(context.region) : undefined
+  if (context.region && !region) {
+    errors.push(`Unknown region in cue ${index}: ${context.region}`)
+  }
+  const regionStyle = region ? resolveStyle(region.attributes, styles) : {}
+  const paragraphStyle = { ...regionStyle, ...context.style }
+
+  const runs = collectRuns(element, {}, context.preserveSpace, styles)
+  const text = runs.map((run) => run.text).join('')
+
+  if (!text) {
+    errors.push(`Empty text in cue ${index}`)
+  }
+
+  const cue: SrtCue = { index, startMs, endMs, text, runs }
+
+  const style = mapStyle(paragraphStyle)
+  if (Object.keys(style).length > 0) {
+    cue.style = style
+  }
+
+  const settings = getCueSettings(paragraphStyle, rootExtent)
+  if (settings) {
+    cue.settings = settings
+  }
+
+  return cue
+}
+
+/**
+ * Resolve the absolute begin and end of an element
+ * @returns Absolute times, or undefined if a time expression is invalid
+ */
+function resolveTiming(
+  element: XmlElement,
+  parent: Context,
+  params: TimingParameters,
+  index: number,
+  errors: string[],
+): { beginMs: number; endMs?: number } | undefined {
+  const { begin, end, dur } = element.attributes
+  const times: (number | undefined)[] = []
+
+  for (const value of [begin, end, dur]) {
+    if (value === undefined) {
+      times.push(undefined)
+      continue
+    }
+    const ms = parseTimeExpression(value, params)
+    if (ms === undefined) {
+      errors.push(`Invalid time expression in cue ${index}: ${value}`)
+      return undefined
+    }
+    times.push(ms)
+  }
+
+  // Times are relative to the begin of the parent time container
+  const [beginOffset, endOffset, duration] = times
+  const beginMs = parent.beginMs + (beginOffset ?? 0)
+  const candidates = [
+    endOffset === undefined ? undefined : parent.beginMs + endOffset,
+    duration === undefined ? undefined : beginMs + duration,
+  ].filter((value): value is number => value !== undefined)
+
+  const endMs = candidates.length > 0 ? Math.min(...candidates) : parent.endMs
+
+  return { beginMs, endMs }
+}
+
+/**
+ * Parse a TTML time expression to milliseconds
+ *
+ * Clock time: "HH:MM:SS", "HH:MM:SS.fraction" or "HH:MM:SS:FF(.sub)".
+ * Offset time: a number followed by h, m, s, ms, f (frames) or t (ticks).
+ *
+ * @returns Milliseconds, or undefined if the expression is invalid
+ */
+function parseTimeExpression(
+  value: string,
+  params: TimingParameters,
+): number | undefined {
+  const trimmed = value.trim()
+
+  const clockMatch = trimmed.match(
+    /^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/,
+  )
+  if (clockMatch) {
+    const [, hours, minutes, seconds, fraction, frames, subFrames] = clockMatch
+    let totalSeconds =
+      Number(hours) * 3600 +
+      Number(minutes) * 60 +
+      Number(seconds) +
+      Number(fraction ?? 0)
+    if (frames !== undefined) {
+      totalSeconds += Number(frames) / params.frameRate
+    }
+    if (subFrames !== undefined) {
+      totalSeconds +=
+        Number(subFrames) / (params.frameRate * params.subFrameRate)
+    }
+    return Math.round(totalSeconds * 1000)
+  }
+
+  const offsetMatch = trimmed.match(/^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/)
+  if (offsetMatch) {
+    const amount = Number(offsetMatch[1])
+    const seconds = {
+      h: amount * 3600,
+      m: amount * 60,
+      s: amount,
+      ms: amount / 1000,
+      f: amount / params.frameRate,
+      t: amount / params.tickRate,
+    }[offsetMatch[2] as 'h' | 'm' | 's' | 'ms' | 'f' | 't']
+    return Math.round(seconds * 1000)
+  }
+
+  return undefined
+}
+
+/**
+ * Read ttp:frameRate, ttp:frameRateMultiplier, ttp:subFrameRate and
+ * ttp:tickRate from the root element
+ */
+function getTimingParameters(root: XmlElement): TimingParameters {
+  const { frameRate, frameRateMultiplier, subFrameRate, tickRate } =
+    root.attributes
+
+  const baseRate = Number(frameRate) || 30
+  const [numerator, denominator] = (frameRateMultiplier ?? '1 1')
+    .trim()
+    .split(/\s+/)
+    .map(Number)
+  const effectiveRate =
+    numerator > 0 && denominator > 0
+      ? (baseRate * numerator) / denominator
+      : baseRate
+  const subFrames = Number(subFrameRate) || 1
+
+  return {
+    frameRate: effectiveRate,
+    subFrameRate: subFrames,
+    tickRate: Number(tickRate) || (frameRate ? effectiveRate * subFrames : 1),
+  }
+}
+
+/**
+ * Collect the text of a <p> into styled runs
+ * @param element Element whose children are collected
+ * @param runStyle Style of the enclosing spans (relative to the paragraph)
+ */
+function collectRuns(
+  element: XmlElement,
+  runStyle: Record<string, string>,
+  preserveSpace: boolean,
+  styles: Map<string, XmlElement>,
+): CueTextRun[] {
+  const runs: CueTextRun[] = []
+
+  const walk = (
+    node: XmlElement,
+    inherited: Record<string, string>,
+    preserve: boolean,
+  ) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') {
+        const text = preserve ? child : child.replace(/\s+/g, ' ')
+        appendRun(runs, text, mapStyle(inherited))
+      } else if (child.name === 'br') {
+        appendRun(runs, '\n', mapStyle(inherited))
+      } else if (child.name === 'span' && child.attributes.ruby !== 'text') {
+        walk(
+          child,
+          { ...inherited, ...resolveStyle(child.attributes, styles) },
+          child.attributes.space === undefined
+            ? preserve
+            : child.attributes.space === 'preserve',
+        )
+      }
+    }
+  }
+
+  walk(element, runStyle, preserveSpace)
+
+  return trimRuns(runs, preserveSpace)
+}
+
+/**
+ * Remove whitespace around line breaks and at both ends of the text
+ * (collapsed spaces may meet across run boundaries)
+ */
+function trimRuns(runs: CueTextRun[], preserveSpace: boolean): CueTextRun[] {
+  if (!preserveSpace) {
+    let previous = '\n'
+    for (const run of runs) {
+      run.text = run.text.replace(/ *\n */g, '\n')
+      if (previous === ' ' || previous === '\n') {
+        run.text = run.text.replace(/^ +/, '')
+      }
+      previous = run.text[run.text.length - 1] ?? previous
+    }
+
+    let next = '\n'
+    for (let i = runs.length - 1; i >= 0; i--) {
+      if (next === '\n') {
+        runs[i].text = runs[i].text.replace(/ +$/, '')
+      }
+      next = runs[i].text[0] ?? next
+    }
+  }
+
+  return runs.filter((run) => run.text)
+}
+
+/**
+ * Resolve referenced styles (style="s1 s2") and inline tts:* attributes
+ */
+function resolveStyle(
+  attributes: Record<string, string>,
+  styles: Map<string, XmlElement>,
+  visited: Set<string> = new Set(),
+): Record<string, string> {
+  const resolved: Record<string, string> = {}
+
+  for (const id of (attributes.style ?? '').split(/\s+/).filter(Boolean)) {
+    const style = styles.get(id)
+    if (style && !visited.has(id)) {
+      visited.add(id)
+      Object.assign(resolved, resolveStyle(style.attributes, styles, visited))
+    }
+  }
+
+  for (const name of STYLE_ATTRIBUTES) {
+    if (attributes[name] !== undefined) {
+      resolved[name] = attributes[name]
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Map tts:* style attributes to cue style overrides
+ */
+function mapStyle(attributes: Record<string, string>): CueStyle {
+  const style: CueStyle = {}
+
+  const fontFamily = parseFontFamily(attributes.fontFamily)
+  if (fontFamily) {
+    style.fontFamily = fontFamily
+  }
+
+  const fontSize = attributes.fontSize?.trim().match(/^(\d+(?:\.\d+)?)px/)
+  if (fontSize) {
+    style.fontSize = Number(fontSize[1])
+  }
+
+  const color = parseColor(attributes.color)
+  if (color) {
+    style.textColor = color
+  }
+
+  if (attributes.fontWeight !== undefined) {
+    style.bold = attributes.fontWeight === 'bold'
+  }
+  if (attributes.fontStyle !== undefined) {
+    style.italic =
+      attributes.fontStyle === 'italic' || attributes.fontStyle === 'oblique'
+  }
+  if (attributes.textDecoration !== undefined) {
+    style.underline = /(?:^|\s)underline(?:\s|$)/.test(
+      attributes.textDecoration,
+    )
+  }
+
+  return style
+}
+
+/**
+ * Pick the first non-generic family from a tts:fontFamily list
+ */
+function parseFontFamily(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined
+  }
+  return value
+    .split(',')
+    .map((family) => family.trim().replace(/^["']|["']$/g, ''))
+    .find((family) => family && !GENERIC_FONT_FAMILIES.has(family))
+}
+
+/**
+ * Convert a TTML color (#RRGGBB, #RRGGBBAA, rgb(), rgba() or a named color)
+ * to #RRGGBBAA
+ */
+function parseColor(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const trimmed = value.trim()
+
+  const hexMatch = trimmed.match(/^#([0-9a-f]{6})([0-9a-f]{2})?$/i)
+  if (hexMatch) {
+    return `#${hexMatch[1]}${hexMatch[2] ?? 'FF'}`.toUpperCase()
+  }
+
+  const rgbMatch = trimmed.match(
+    /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/,
+  )
+  if (rgbMatch) {
+    const [, red, green, blue, alpha] = rgbMatch
+    return `#${[red, green, blue, alpha ?? '255']
+      .map((channel) =>
+        Math.min(255, Number(channel)).toString(16).padStart(2, '0'),
+      )
+      .join('')}`.toUpperCase()
+  }
+
+  return NAMED_COLORS[trimmed.toLowerCase()]
+}
+
+/**
+ * A length from tts:origin or tts:extent
+ */
+interface Length {
+  value: number
+  unit: '%' | 'px'
+}
+
+/**
+ * Parse a pair of lengths (e.g., "10% 80%" or "192px 864px")
+ */
+function parseLengthPair(value: string | undefined): Length[] | undefined {
+  const match = value
+    ?.trim()
+    .match(/^(-?\d+(?:\.\d+)?)(%|px)\s+(-?\d+(?:\.\d+)?)(%|px)$/)
+  if (!match) {
+    return undefined
+  }
+  return [
+    { value: Number(match[1]), unit: match[2] as Length['unit'] },
+    { value: Number(match[3]), unit: match[4] as Length['unit'] },
+  ]
+}
+
+/**
+ * Convert a region length to a percentage of the root container
+ */
+function toPercent(
+  length: Length,
+  axis: 0 | 1,
+  rootExtent: Length[] | undefined,
+): number | undefined {
+  if (length.unit === '%') {
+    return length.value
+  }
+  const rootLength = rootExtent?.[axis]
+  if (rootLength?.unit === 'px' && rootLength.value > 0) {
+    return (length.value / rootLength.value) * 100
+  }
+  return undefined
+}
+
+/**
+ * Derive cue settings from region origin, extent and alignment
+ *
+ * `line` is the vertical edge the text is anchored to (top of the region for
+ * displayAlign="before", its center or bottom otherwise) and `position` is the
+ * horizontal center of the region.
+ */
+function getCueSettings(
+  style: Record<string, string>,
+  rootExtent: Length[] | undefined,
+): CueSettings | undefined {
+  const settings: CueSettings = {}
+
+  const origin = parseLengthPair(style.origin)
+  const extent = parseLengthPair(style.extent)
+  if (origin) {
+    const x = toPercent(origin[0], 0, rootExtent)
+    const y = toPercent(origin[1], 1, rootExtent)
+    const width = extent ? toPercent(extent[0], 0, rootExtent) : undefined
+    const height = extent ? toPercent(extent[1], 1, rootExtent) : undefined
+
+    if (y !== undefined) {
+      const anchor =
+        style.displayAlign === 'center'
+          ? 0.5
+          : style.displayAlign === 'after'
+            ? 1
+            : 0
+      settings.line = formatPercent(y + (height ?? 0) * anchor)
+    }
+    if (x !== undefined && width !== undefined) {
+      settings.position = formatPercent(x + width / 2)
+    }
+  }
+
+  const align = style.textAlign
+  if (
+    align === 'start' ||
+    align === 'center' ||
+    align === 'end' ||
+    align === 'left' ||
+    align === 'right'
+  ) {
+    settings.align = align
+  }
+
+  return Object.keys(settings).length > 0 ? settings : undefined
+}
+
+/**
+ * Format a percentage with at most two decimals (e.g., "85%", "12.5%")
+ */
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100) / 100}%`
+}
+
+/**
+ * Collect elements by xml:id from a head section (e.g., styling/style)
+ */
+function collectById(
+  head: XmlElement | undefined,
+  section: string,
+  name: string,
+): Map<string, XmlElement> {
+  const elements = new Map<string, XmlElement>()
+  const container = findChild(head, section)
+
+  for (const child of container?.children ?? []) {
+    if (typeof child !== 'string' && child.name === name) {
+      const id = child.attributes.id
+      if (id) {
+        elements.set(id, child)
+      }
+    }
+  }
+
+  return elements
+}
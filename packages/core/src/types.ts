@@ -5,12 +5,24 @@ export interface Srt2FcpxOptions {
   /** FCPXML project/sequence name */
   titleName?: string
 
-  /** FCPXML format version (e.g., "1.8") */
+  /** FCPXML format version (e.g., "1.13") */
   formatVersion?: string
 
   /** Timeline frame rate (e.g., 23.976, 24, 25, 29.97, 30) */
   frameRate?: number
 
+  /** Use drop-frame timecode (only valid for 29.97 and 59.94) */
+  dropFrame?: boolean
+
+  /** Sequence start timecode as SMPTE string ("01:00:00:00") or milliseconds */
+  startTimecode?: string | number
+
+  /**
+   * Timeline timecode that SRT time zero maps to, as SMPTE string or
+   * milliseconds (default: startTimecode)
+   */
+  srtZeroTimecode?: string | number
+
   /** Frame width in pixels (default: 1920) */
   width?: number
 
@@ -40,8 +52,339 @@ export interface Srt2FcpxOptions {
 
   /** Line spacing */
   lineSpacing?: number
+
+  /**
+   * Title position: "middle", "top", "bottom" or an explicit point
+   * (default: "middle"). Cue settings (e.g., from {\an8} or WebVTT "line")
+   * override it per cue.
+   */
+  placement?: Placement
+
+  /**
+   * Strip <b>, <i>, <u> and <font> tags from cue text instead of turning them
+   * into styled text runs (default: false)
+   */
+  stripTags?: boolean
+
+  /**
+   * Emit Basic Title clips ("titles") or native FCP captions ("captions")
+   * connected to a gap clip (default: "titles")
+   */
+  outputMode?: OutputMode
+
+  /** Caption format of the caption role in captions mode (default: "ITT") */
+  captionFormat?: CaptionFormat
+
+  /** Caption language of the caption role, e.g., "en" or "ja" (default: "en") */
+  captionLanguage?: string
+
+  /**
+   * How overlapping cues are resolved: moved to extra connected lanes
+   * ("lanes"), trimmed, merged or rejected with an error (default: "lanes")
+   */
+  overlap?: OverlapMode
+
+  /**
+   * Primary storyline: a gap clip spanning the sequence with every title
+   * connected to it ("gap"), or titles placed directly in the spine
+   * ("titles"; captions, multiple tracks and overlap lanes still use a gap)
+   * (default: "gap")
+   */
+  storyline?: Storyline
+
+  /**
+   * Video file to connect the subtitles to: the spine holds one clip of the
+   * video instead of a gap clip, and the sequence lasts as long as the video
+   */
+  videoAsset?: VideoAsset
+
+  /**
+   * Retime cues from the frame rate of the subtitles' master to the timeline,
+   * keeping each cue on the same frame (e.g., { from: 25, to: 23.976 } for
+   * subtitles made on a PAL master of a film)
+   */
+  retime?: FrameRateConversion
+
+  /** Multiply all cue times by this factor (default: 1) */
+  scale?: number
+
+  /** Move all cues by this many milliseconds (default: 0) */
+  shift?: number
+
+  /**
+   * Two reference cues and the times they should start at: all cues are
+   * stretched and moved linearly to match (cannot be combined with retime,
+   * scale or shift)
+   */
+  sync?: [SyncPoint, SyncPoint]
+
+  /**
+   * How cue start and end times are rounded to frames: down ("floor"), to the
+   * nearest frame, up ("ceil"), or to the nearest frame with each end snapped
+   * to the next cue's start when they are less than a frame apart ("snap")
+   * (default: "floor")
+   */
+  quantize?: QuantizeMode
+
+  /**
+   * Minimum and maximum cue duration, minimum gap and reading speed limits,
+   * applied to each track after retiming (see cleanupCueTiming)
+   */
+  cleanup?: TimingCleanupOptions
+
+  /**
+   * Line length and line count limits, applied to each track before the
+   * timing cleanup (see wrapCueLines)
+   */
+  wrap?: LineWrapOptions
+
+  /**
+   * Line count and duration limits of a cue: longer cues are split into
+   * several cues, applied to each track before line wrapping (see
+   * splitLongCues)
+   */
+  split?: CueSplitOptions
+
+  /**
+   * Gap and text limits of merging fragmented short cues into one, applied
+   * to each track before long cues are split (see mergeShortCues)
+   */
+  merge?: CueMergeOptions
+
+  /**
+   * Called with each message of the timing, merge, split, wrap, cleanup,
+   * overlap and quantize passes, in the order they run (e.g., to log them)
+   */
+  onReport?: (report: ConversionReport) => void
+}
+
+/**
+ * Conversion pass that reports a message
+ */
+export type ConversionStep =
+  | 'timing'
+  | 'merge'
+  | 'split'
+  | 'wrap'
+  | 'cleanup'
+  | 'overlap'
+  | 'quantize'
+
+/**
+ * Message of a conversion pass about one track: a change it made (such as a
+ * merge, split or timing adjustment) or a problem it found
+ */
+export interface ConversionReport {
+  /** Pass that reported the message */
+  step: ConversionStep
+
+  /** Number of the track, from 1 */
+  track: number
+
+  /** Message (e.g., "Cues 1 and 2 merged into cue 1") */
+  message: string
+}
+
+/**
+ * Line breaking limits of cue text
+ */
+export interface LineWrapOptions {
+  /** Longest line in characters */
+  maxChars?: number
+
+  /**
+   * Widest line in pixels, estimated from the font size: full-width
+   * characters are 1em wide and other characters 0.5em
+   */
+  maxWidth?: number
+
+  /** Most lines per cue (default: 2) */
+  maxLines?: number
+
+  /**
+   * How a long line is broken: into lines of even length with the longer
+   * lines at the bottom ("bottom-heavy", a pyramid) or at the top
+   * ("top-heavy"), or by filling each line before starting the next
+   * ("greedy") (default: "bottom-heavy")
+   */
+  balance?: LineBalance
+
+  /**
+   * Cues with more than maxLines lines: keep the lines ("report") or split
+   * the cue into consecutive cues of maxLines lines ("split") (default:
+   * "report")
+   */
+  overflow?: LineOverflow
+
+  /**
+   * Where lines may break: at spaces ("western"), or also between full-width
+   * characters following Japanese kinsoku shori rules, with full-width
+   * characters counting twice toward maxChars ("cjk") (default: "western")
+   */
+  lineBreak?: LineBreakRule
+}
+
+/**
+ * Line breaking rules of cue text
+ */
+export type LineBreakRule = 'western' | 'cjk'
+
+/**
+ * Line balance of a broken line
+ */
+export type LineBalance = 'bottom-heavy' | 'top-heavy' | 'greedy'
+
+/**
+ * Handling of cues with more lines than allowed
+ */
+export type LineOverflow = 'report' | 'split'
+
+/**
+ * Limits of joining consecutive cues into one
+ */
+export interface CueMergeOptions {
+  /** Longest gap between two cues that are merged in milliseconds (default: 0) */
+  maxGap?: number
+
+  /** Longest line of a merged cue in characters */
+  maxChars?: number
+
+  /** Most lines of a merged cue (default: 2) */
+  maxLines?: number
+
+  /** Highest reading speed of a merged cue in characters per second */
+  maxCps?: number
+}
+
+/**
+ * Limits of a cue enforced by splitting it into consecutive cues
+ */
+export interface CueSplitOptions {
+  /** Most lines per cue, counting the existing line breaks */
+  maxLines?: number
+
+  /** Longest cue duration in milliseconds */
+  maxDuration?: number
+}
+
+/**
+ * Timing limits enforced by moving cue ends
+ */
+export interface TimingCleanupOptions {
+  /** Shortest cue duration in milliseconds */
+  minDuration?: number
+
+  /** Longest cue duration in milliseconds */
+  maxDuration?: number
+
+  /** Shortest gap between consecutive cues in milliseconds */
+  minGap?: number
+
+  /**
+   * Close gaps shorter than minGap by extending the earlier cue ("close"), or
+   * widen them to minGap by trimming it ("enforce") (default: "close")
+   */
+  gapMode?: GapMode
+
+  /** Highest reading speed in characters per second */
+  maxCps?: number
+}
+
+/**
+ * Handling of gaps shorter than the minimum gap
+ */
+export type GapMode = 'close' | 'enforce'
+
+/**
+ * Frame rate conversion of cue times
+ */
+export interface FrameRateConversion {
+  /** Frame rate the cues were timed at (e.g., 25) */
+  from: number
+
+  /** Frame rate to convert to (e.g., 23.976) */
+  to: number
+}
+
+/**
+ * Reference cue for two-point sync
+ */
+export interface SyncPoint {
+  /** Cue number (index) of the reference cue */
+  cue: number
+
+  /** Time the reference cue should start at in milliseconds */
+  timeMs: number
+}
+
+/**
+ * Video file referenced by the generated project
+ */
+export interface VideoAsset {
+  /** Path or file:// URL of the video file */
+  path: string
+
+  /** Duration of the video in milliseconds */
+  duration: number
+
+  /** Frame rate of the video (default: the sequence frame rate) */
+  frameRate?: number
+
+  /** Frame width in pixels (default: the sequence width) */
+  width?: number
+
+  /** Frame height in pixels (default: the sequence height) */
+  height?: number
+
+  /** Asset and clip name (default: the file name without extension) */
+  name?: string
+
+  /**
+   * Timecode of the first video frame, as SMPTE string (at the sequence frame
+   * rate) or milliseconds (default: 0)
+   */
+  startTimecode?: string | number
+}
+
+/**
+ * Title placement preset or explicit title center
+ */
+export type Placement = 'middle' | 'top' | 'bottom' | PlacementPoint
+
+/**
+ * Title center measured from the top-left corner of the frame, in pixels
+ * (numbers) or percent of the frame width/height (e.g., "50%")
+ */
+export interface PlacementPoint {
+  x: number | string
+  y: number | string
 }
 
+/**
+ * Output element for subtitle cues
+ */
+export type OutputMode = 'titles' | 'captions'
+
+/**
+ * FCP caption formats (iTT, SRT or CEA-608)
+ */
+export type CaptionFormat = 'ITT' | 'SRT' | 'CEA608'
+
+/**
+ * Structure of the primary storyline
+ */
+export type Storyline = 'gap' | 'titles'
+
+/**
+ * Resolution of overlapping cues
+ */
+export type OverlapMode = 'lanes' | 'trim' | 'merge' | 'reject'
+
+/**
+ * Rounding of cue boundaries to frames
+ */
+export type QuantizeMode = 'floor' | 'nearest' | 'ceil' | 'snap'
+
 /**
  * Represents a single SRT subtitle cue
  */
@@ -57,6 +400,115 @@ export interface SrtCue {
 
   /** Subtitle text (may contain newlines) */
   text: string
+
+  /** Positioning hints carried by the source format (e.g., WebVTT settings) */
+  settings?: CueSettings
+
+  /** Style overrides for the whole cue (e.g., from an ASS style) */
+  style?: CueStyle
+
+  /** Styled text runs; when present they are rendered instead of `text` */
+  runs?: CueTextRun[]
+}
+
+/**
+ * Text style overrides applied on top of the conversion options
+ */
+export interface CueStyle {
+  /** Font family name */
+  fontFamily?: string
+
+  /** Font size in pixels */
+  fontSize?: number
+
+  /** Font face/weight (e.g., "Regular", "Bold", "W8") */
+  fontFace?: string
+
+  /** Text color in #RRGGBB or #RRGGBBAA format */
+  textColor?: string
+
+  /** Stroke (outline) color in #RRGGBB or #RRGGBBAA format */
+  strokeColor?: string
+
+  /** Stroke (outline) width in pixels */
+  strokeWidth?: number
+
+  /** Bold text */
+  bold?: boolean
+
+  /** Italic text */
+  italic?: boolean
+
+  /** Underlined text */
+  underline?: boolean
+
+  /** Horizontal text alignment */
+  alignment?: 'left' | 'center' | 'right'
+}
+
+/**
+ * A span of cue text sharing one style
+ */
+export interface CueTextRun {
+  /** Plain text of the run (may contain newlines) */
+  text: string
+
+  /** Style overrides for this run, applied on top of the cue style */
+  style?: CueStyle
+}
+
+/**
+ * Positioning hints attached to a cue by its source format
+ */
+export interface CueSettings {
+  /** Line position as line number or percentage (e.g., "0", "-1", "10%") */
+  line?: string
+
+  /** Horizontal position as percentage (e.g., "50%") */
+  position?: string
+
+  /** Text alignment within the cue box */
+  align?: 'start' | 'center' | 'end' | 'left' | 'right'
+}
+
+/**
+ * Options that can differ per subtitle track
+ */
+export type TrackOptions = Pick<
+  Srt2FcpxOptions,
+  | 'fontFamily'
+  | 'fontSize'
+  | 'fontFace'
+  | 'textColor'
+  | 'backgroundColor'
+  | 'strokeColor'
+  | 'strokeWidth'
+  | 'lineSpacing'
+  | 'placement'
+  | 'stripTags'
+  | 'captionLanguage'
+>
+
+/**
+ * A subtitle track: parsed cues with their own style and placement
+ */
+export interface CueTrack {
+  /** Cues of the track */
+  cues: SrtCue[]
+
+  /** Options overriding the conversion options for this track */
+  options?: TrackOptions
+}
+
+/**
+ * SRT content of a subtitle track with its own style and placement
+ */
+export interface SrtTrack {
+  /** SRT file content */
+  source: string
+
+  /** Options overriding the conversion options for this track */
+  options?: TrackOptions
 }
 
 /**
@@ -70,13 +522,37 @@ export interface SrtParseResult {
   errors: string[]
 }
 
+/**
+ * Options without a default value (undefined means "not set")
+ */
+type UnsetOptionKeys =
+  | 'srtZeroTimecode'
+  | 'videoAsset'
+  | 'retime'
+  | 'sync'
+  | 'cleanup'
+  | 'wrap'
+  | 'split'
+  | 'merge'
+  | 'onReport'
+
+/**
+ * Conversion options with defaults applied
+ */
+export type ResolvedSrt2FcpxOptions = Required<
+  Omit<Srt2FcpxOptions, UnsetOptionKeys>
+> &
+  Pick<Srt2FcpxOptions, UnsetOptionKeys>
+
 /**
  * Default options for conversion
  */
-export const DEFAULT_OPTIONS: Required<Srt2FcpxOptions> = {
+export const DEFAULT_OPTIONS: ResolvedSrt2FcpxOptions = {
   titleName: 'Converted from SRT',
-  formatVersion: '1.8',
+  formatVersion: '1.13',
   frameRate: 24,
+  dropFrame: false,
+  startTimecode: 0,
   width: 1920,
   height: 1080,
   fontFamily: 'Helvetica',
@@ -87,4 +563,14 @@ export const DEFAULT_OPTIONS: Required<Srt2FcpxOptions> = {
   strokeColor: '#000000FF',
   strokeWidth: 0,
   lineSpacing: 1.0,
+  placement: 'middle',
+  stripTags: false,
+  outputMode: 'titles',
+  captionFormat: 'ITT',
+  captionLanguage: 'en',
+  overlap: 'lanes',
+  storyline: 'gap',
+  scale: 1,
+  shift: 0,
+  quantize: 'floor',
 }
@@ -0,0 +1,257 @@
+import { describe, expect, it } from 'vitest'
+import { parseVtt } from './parser'
+
+describe('WebVTT Parser', () => {
+  describe('parseVtt', () => {
+    it('should parse valid WebVTT content', () => {
+      const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:03.000
+First subtitle
+
+00:00:04.500 --> 00:00:06.000
+Second subtitle
+with multiple lines`
+
+      const result = parseVtt(vtt)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 1000, endMs: 3000, text: 'First subtitle' },
+        {
+          index: 2,
+          startMs: 4500,
+          endMs: 6000,
+          text: 'Second subtitle\nwith multiple lines',
+        },
+      ])
+    })
+
+    it('should accept header text and metadata', () => {
+      const vtt = `WEBVTT - Episode 1
+Kind: captions
+Language: en
+
+00:00:01.000 --> 00:00:02.000
+Hello`
+
+      const result = parseVtt(vtt)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toHaveLength(1)
+    })
+
+    it('should handle BOM and CRLF line endings', () => {
+      const vtt = '\uFEFFWEBVTT\r\n\r\n00:00:01.000 --> 00:00:02.000\r\nTest'
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues).toHaveLength(1)
+      expect(result.cues[0].text).toBe('Test')
+    })
+
+    it('should parse MM:SS.mmm timestamps', () => {
+      const vtt = `WEBVTT
+
+01:02.500 --> 01:04.000
+Short timestamps`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues[0].startMs).toBe(62500)
+      expect(result.cues[0].endMs).toBe(64000)
+    })
+
+    it('should parse hours longer than two digits', () => {
+      const vtt = `WEBVTT
+
+100:00:00.000 --> 100:00:01.000
+Late`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues[0].startMs).toBe(360000000)
+    })
+
+    it('should skip NOTE, STYLE and REGION blocks', () => {
+      const vtt = `WEBVTT
+
+NOTE This is a comment
+spanning lines
+
+STYLE
+::cue { color: yellow }
+
+REGION
+id:fred
+width:40%
+
+NOTE
+00:00:00.000 --> 00:00:01.000 is not a cue here
+
+00:00:01.000 --> 00:00:02.000
+Only cue`
+
+      const result = parseVtt(vtt)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toHaveLength(1)
+      expect(result.cues[0].text).toBe('Only cue')
+    })
+
+    it('should accept optional cue identifiers', () => {
+      const vtt = `WEBVTT
+
+intro
+00:00:01.000 --> 00:00:02.000
+With identifier
+
+2
+00:00:03.000 --> 00:00:04.000
+Numeric identifier
+
+00:00:05.000 --> 00:00:06.000
+Without identifier`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues.map((cue) => cue.index)).toEqual([1, 2, 3])
+      expect(result.cues.map((cue) => cue.text)).toEqual([
+        'With identifier',
+        'Numeric identifier',
+        'Without identifier',
+      ])
+    })
+
+    it('should parse cue settings', () => {
+      const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000 line:0 position:20%,line-left align:start size:50%
+Top left
+
+00:00:03.000 --> 00:00:04.000 align:middle line:85%
+Legacy middle`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues[0].settings).toEqual({
+        line: '0',
+        position: '20%',
+        align: 'start',
+      })
+      expect(result.cues[1].settings).toEqual({
+        line: '85%',
+        align: 'center',
+      })
+    })
+
+    it('should align text by the align cue setting', () => {
+      const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000 align:start
+Start
+
+00:00:03.000 --> 00:00:04.000 align:right
+Right
+
+00:00:05.000 --> 00:00:06.000
+Default`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues.map((cue) => cue.style)).toEqual([
+        { alignment: 'left' },
+        { alignment: 'right' },
+        undefined,
+      ])
+    })
+
+    it('should omit settings when none are recognised', () => {
+      const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000 size:50% vertical:rl
+Text`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues[0].settings).toBeUndefined()
+    })
+
+    it('should strip WebVTT-specific markup but keep basic formatting', () => {
+      const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:05.000
+<v Roger Bingham>We are in <c.yellow>New York</c></v>
+<b>Bold</b> <00:00:03.000><i>later</i> <ruby>漢字<rt>かんじ</rt></ruby>`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues[0].text).toBe(
+        'We are in New York\n<b>Bold</b> <i>later</i> 漢字',
+      )
+    })
+
+    it('should report a missing header', () => {
+      const vtt = `00:00:01.000 --> 00:00:02.000
+No header`
+
+      const result = parseVtt(vtt)
+
+      expect(result.errors).toContain('Missing WEBVTT header')
+      expect(result.cues).toHaveLength(1)
+    })
+
+    it('should report invalid timing lines', () => {
+      const vtt = `WEBVTT
+
+00:00:01,000 --> 00:00:02,000
+SRT-style commas
+
+00:00:03.000 --> 00:00:04.000
+Valid`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues).toHaveLength(1)
+      expect(result.errors).toContain(
+        'Invalid timecode format: 00:00:01,000 --> 00:00:02,000',
+      )
+    })
+
+    it('should reject cues that end before they start', () => {
+      const vtt = `WEBVTT
+
+00:00:05.000 --> 00:00:02.000
+Backwards`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues).toHaveLength(0)
+      expect(result.errors[0]).toContain('End time must be after start time')
+    })
+
+    it('should skip blocks without a timing line', () => {
+      const vtt = `WEBVTT
+
+just some text
+without timing`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues).toHaveLength(0)
+      expect(result.errors[0]).toContain('Skipping incomplete block')
+    })
+
+    it('should record empty cue text as an error', () => {
+      const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000
+<v Speaker></v>`
+
+      const result = parseVtt(vtt)
+
+      expect(result.cues).toHaveLength(1)
+      expect(result.errors).toContain('Empty text in cue 1')
+    })
+  })
+})
@@ -0,0 +1,184 @@
+import type { CueSettings, CueStyle, SrtCue, SrtParseResult } from '~/types'
+
+/**
+ * WebVTT timestamp: optional hours, then MM:SS.mmm
+ */
+const TIMESTAMP_PATTERN = '(?:(\\d{2,}):)?(\\d{2}):(\\d{2})\\.(\\d{3})'
+
+/**
+ * Text alignment of each align cue setting
+ */
+const TEXT_ALIGNMENTS: Record<
+  NonNullable<CueSettings['align']>,
+  CueStyle['alignment']
+> = {
+  start: 'left',
+  left: 'left',
+  center: 'center',
+  end: 'right',
+  right: 'right',
+}
+
+/**
+ * Cue timing line: "start --> end [settings]"
+ */
+const TIMING_REGEX = new RegExp(
+  `^${TIMESTAMP_PATTERN}\\s+-->\\s+${TIMESTAMP_PATTERN}(?:\\s+(.*))?$`,
+)
+
+/**
+ * Parse WebVTT subtitle file content
+ * @param source WebVTT file content as string
+ * @returns Parsed cues (same shape as parseSrt) and any errors encountered
+ */
+export function parseVtt(source: string): SrtParseResult {
+  const cues: SrtCue[] = []
+  const errors: string[] = []
+
+  // Normalize line endings, drop BOM and split into blocks
+  const normalized = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+  const blocks = normalized.split(/\n\n+/).filter((block) => block.trim())
+
+  if (
+    blocks.length === 0 ||
+    !/^WEBVTT(?:[ \t].*)?$/.test(firstLine(blocks[0]))
+  ) {
+    errors.push('Missing WEBVTT header')
+  } else {
+    // Header block may carry metadata lines; it never contains cues
+    blocks.shift()
+  }
+
+  for (const block of blocks) {
+    const lines = block.split('\n')
+
+    // Skip comment, style and region definition blocks
+    if (/^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/.test(lines[0])) {
+      continue
+    }
+
+    // Optional cue identifier precedes the timing line
+    const timingIndex = lines[0].includes('-->') ? 0 : 1
+    const timingLine = lines[timingIndex]?.trim()
+
+    if (!timingLine || !timingLine.includes('-->')) {
+      errors.push(`Skipping incomplete block: ${block.substring(0, 50)}`)
+      continue
+    }
+
+    const timingMatch = timingLine.match(TIMING_REGEX)
+    if (!timingMatch) {
+      errors.push(`Invalid timecode format: ${timingLine}`)
+      continue
+    }
+
+    const startMs = parseTimestamp(timingMatch.slice(1, 5))
+    const endMs = parseTimestamp(timingMatch.slice(5, 9))
+    const index = cues.length + 1
+
+    if (endMs <= startMs) {
+      errors.push(
+        `End time must be after start time in cue ${index}: ${timingLine}`,
+      )
+      continue
+    }
+
+    const text = stripVttTags(lines.slice(timingIndex + 1).join('\n')).trim()
+
+    if (!text) {
+      errors.push(`Empty text in cue ${index}`)
+    }
+
+    const cue: SrtCue = { index, startMs, endMs, text }
+    const settings = parseCueSettings(timingMatch[9])
+    if (settings) {
+      cue.settings = settings
+    }
+    if (settings?.align) {
+      cue.style = { alignment: TEXT_ALIGNMENTS[settings.align] }
+    }
+
+    cues.push(cue)
+  }
+
+  return { cues, errors }
+}
+
+/**
+ * Get the first line of a block
+ */
+function firstLine(block: string): string {
+  return block.split('\n')[0]
+}
+
+/**
+ * Convert matched timestamp parts [hours, minutes, seconds, ms] to milliseconds
+ */
+function parseTimestamp(parts: string[]): number {
+  const [hours, minutes, seconds, milliseconds] = parts.map((part) =>
+    part === undefined ? 0 : parseInt(part, 10),
+  )
+  return hours * 3600000 + minutes * 60000 + seconds * 1000 + milliseconds
+}
+
+/**
+ * Parse cue settings (e.g., "line:0 position:50%,center align:start")
+ * @returns Recognised settings, or undefined if there are none
+ */
+function parseCueSettings(
+  settingsText: string | undefined,
+): CueSettings | undefined {
+  if (!settingsText) {
+    return undefined
+  }
+
+  const settings: CueSettings = {}
+
+  for (const setting of settingsText.trim().split(/\s+/)) {
+    const [name, value] = setting.split(':')
+    if (!value) {
+      continue
+    }
+
+    // Line and position may carry an alignment suffix ("10%,start")
+    const baseValue = value.split(',')[0]
+
+    switch (name) {
+      case 'line':
+        settings.line = baseValue
+        break
+      case 'position':
+        settings.position = baseValue
+        break
+      case 'align':
+        if (value === 'middle') {
+          settings.align = 'center'
+        } else if (
+          value === 'start' ||
+          value === 'center' ||
+          value === 'end' ||
+          value === 'left' ||
+          value === 'right'
+        ) {
+          settings.align = value
+        }
+        break
+    }
+  }
+
+  return Object.keys(settings).length > 0 ? settings : undefined
+}
+
+/**
+ * Remove WebVTT-specific cue markup while keeping <b>, <i> and <u>
+ * (voice, class, language and ruby spans and inline timestamps)
+ */
+function stripVttTags(text: string): string {
+  return text
+    .replace(/<rt>[\s\S]*?<\/rt>/g, '')
+    .replace(/<\/?(?:c|v|lang|ruby|rt)(?:[.\s][^>]*)?>/g, '')
+    .replace(/<\d{2,}:\d{2}:\d{2}\.\d{3}>|<\d{2}:\d{2}\.\d{3}>/g, '')
+}
@@ -0,0 +1,243 @@
+import { describe, expect, it } from 'vitest'
+import { parseWhisper } from './parser'
+
+/**
+ * Whisper JSON output with word timestamps
+ */
+const whisperJson = JSON.stringify({
+  text: ' Hello there. How are you doing today?',
+  segments: [
+    {
+      id: 0,
+      start: 0.0,
+      end: 2.0,
+      text: ' Hello there.',
+      words: [
+        { word: ' Hello', start: 0.0, end: 0.5, probability: 0.98 },
+        { word: ' there.', start: 0.5, end: 1.2, probability: 0.95 },
+      ],
+    },
+    {
+      id: 1,
+      start: 2.5,
+      end: 5.0,
+      text: ' How are you doing today?',
+      words: [
+        { word: ' How', start: 2.5, end: 2.8, probability: 0.99 },
+        { word: ' are', start: 2.8, end: 3.0, probability: 0.99 },
+        { word: ' you', start: 3.0, end: 3.3, probability: 0.99 },
+        { word: ' doing', start: 3.3, end: 3.9, probability: 0.97 },
+        { word: ' today?', start: 3.9, end: 4.6, probability: 0.96 },
+      ],
+    },
+  ],
+  language: 'en',
+})
+
+describe('Whisper JSON Parser', () => {
+  describe('parseWhisper', () => {
+    it('should make one cue per segment', () => {
+      const result = parseWhisper(whisperJson)
+
+      expect(result.errors).toEqual([])
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 0, endMs: 2000, text: 'Hello there.' },
+        {
+          index: 2,
+          startMs: 2500,
+          endMs: 5000,
+          text: 'How are you doing today?',
+        },
+      ])
+    })
+
+    it('should read a plain array of segments', () => {
+      const result = parseWhisper(
+        JSON.stringify([
+          { start: 1.25, end: 3, text: 'First' },
+          { start: 3.5, end: 4.75, text: 'Second' },
+        ]),
+      )
+
+      expect(
+        result.cues.map((cue) => [cue.startMs, cue.endMs, cue.text]),
+      ).toEqual([
+        [1250, 3000, 'First'],
+        [3500, 4750, 'Second'],
+      ])
+    })
+
+    it('should regroup words by line length', () => {
+      const result = parseWhisper(whisperJson, { regroup: { maxChars: 12 } })
+
+      // Cues run from the first word's start to the last word's end
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 0, endMs: 1200, text: 'Hello there.' },
+        {
+          index: 2,
+          startMs: 2500,
+          endMs: 4600,
+          text: 'How are you\ndoing today?',
+        },
+      ])
+    })
+
+    it('should start a new cue after a long pause', () => {
+      const cues = (maxPause: number) =>
+        parseWhisper(whisperJson, { regroup: { maxPause } }).cues.map(
+          (cue) => cue.text,
+        )
+
+      // 1.3 seconds between "there." and "How"
+      expect(cues(1300)).toEqual(['Hello there. How are you doing today?'])
+      expect(cues(1299)).toEqual(['Hello there.', 'How are you doing today?'])
+    })
+
+    it('should start a new cue when a cue has maxLines lines', () => {
+      const result = parseWhisper(whisperJson, {
+        regroup: { maxChars: 10, maxLines: 1, maxPause: 2000 },
+      })
+
+      expect(result.cues.map((cue) => cue.text)).toEqual([
+        'Hello',
+        'there. How',
+        'are you',
+        'doing',
+        'today?',
+      ])
+    })
+
+    it('should space words of the generic schema', () => {
+      const result = parseWhisper(
+        JSON.stringify([
+          {
+            start: 0,
+            end: 2,
+            text: 'Good morning 皆さん',
+            words: [
+              { text: 'Good', start: 0, end: 0.4 },
+              { text: 'morning', start: 0.4, end: 1 },
+              { text: '皆', start: 1, end: 1.5 },
+              { text: 'さん', start: 1.5, end: 2 },
+            ],
+          },
+        ]),
+        { regroup: {} },
+      )
+
+      expect(result.cues.map((cue) => cue.text)).toEqual([
+        'Good morning 皆さん',
+      ])
+    })
+
+    it('should time words without timestamps from the word before', () => {
+      const result = parseWhisper(
+        JSON.stringify({
+          segments: [
+            {
+              start: 0,
+              end: 3,
+              text: ' It costs 20 dollars',
+              words: [
+                { word: ' It', start: 0, end: 0.3 },
+                { word: ' costs', start: 0.3, end: 0.8 },
+                { word: ' 20' },
+                { word: ' dollars', start: 0.9, end: 1.4 },
+              ],
+            },
+          ],
+        }),
+        { regroup: {} },
+      )
+
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 0, endMs: 1400, text: 'It costs 20 dollars' },
+      ])
+      expect(result.errors).toEqual(['Missing word timings in segment 1'])
+    })
+
+    it('should end untimed words at the next timed word or the segment end', () => {
+      const result = parseWhisper(
+        JSON.stringify({
+          segments: [
+            {
+              start: 2,
+              end: 3.5,
+              text: ' 42',
+              words: [{ word: ' 42' }],
+            },
+            {
+              start: 5,
+              end: 7,
+              text: ' 1984 was',
+              words: [{ word: ' 1984' }, { word: ' was', start: 5.6, end: 6 }],
+            },
+          ],
+        }),
+        { regroup: {} },
+      )
+
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 2000, endMs: 3500, text: '42' },
+        { index: 2, startMs: 5000, endMs: 6000, text: '1984 was' },
+      ])
+      expect(result.errors).toEqual([
+        'Missing word timings in segment 1',
+        'Missing word timings in segment 2',
+      ])
+    })
+
+    it('should regroup segments without word timings as one word', () => {
+      const result = parseWhisper(
+        JSON.stringify([{ start: 0, end: 1, text: 'No words' }]),
+        { regroup: {} },
+      )
+
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 0, endMs: 1000, text: 'No words' },
+      ])
+      expect(result.errors).toEqual(['No word timings in segment 1'])
+    })
+
+    it('should report invalid segments', () => {
+      const result = parseWhisper(
+        JSON.stringify([
+          { start: 'soon', end: 1, text: 'Bad start' },
+          { start: 2, end: 1, text: 'Backwards' },
+          { start: 3, end: 4, text: '  ' },
+          'text',
+          { start: 5, end: 6, text: 'Good' },
+        ]),
+      )
+
+      expect(result.cues).toEqual([
+        { index: 1, startMs: 5000, endMs: 6000, text: 'Good' },
+      ])
+      expect(result.errors).toEqual([
+        'Invalid time in segment 1',
+        'End time must be after start time in segment 2',
+        'Empty text in segment 3',
+        'Skipping segment 4: not an object',
+      ])
+    })
+
+    it('should report invalid JSON and missing segments', () => {
+      expect(parseWhisper('{ "segments": [').errors[0]).toMatch(
+        /^Invalid JSON: /,
+      )
+      expect(parseWhisper('{ "text": "Hi" }')).toEqual({
+        cues: [],
+        errors: ['Missing segments array'],
+      })
+    })
+
+    it('should reject invalid regrouping limits', () => {
+      expect(() =>
+        parseWhisper(whisperJson, { regroup: { maxChars: 0 } }),
+      ).toThrow('Invalid maximum characters: 0')
+      expect(() =>
+        parseWhisper(whisperJson, { regroup: { maxPause: -1 } }),
+      ).toThrow('Invalid maximum pause: -1')
+    })
+  })
+})
@@ -0,0 +1,308 @@
+import { isWideCharacter } from '~/cue/cjk'
+import type { SrtCue, SrtParseResult } from '~/types'
+
+/**
+ * Options for parsing transcription JSON
+ */
+export interface WhisperParseOptions {
+  /**
+   * Regroup the timed words of all segments into cues within these limits,
+   * instead of making one cue per segment
+   */
+  regroup?: WordGroupingOptions
+}
+
+/**
+ * Limits of cues regrouped from timed words
+ */
+export interface WordGroupingOptions {
+  /** Longest line in characters (default: 42) */
+  maxChars?: number
+
+  /** Most lines per cue (default: 2) */
+  maxLines?: number
+
+  /**
+   * Longest pause between two words of the same cue in milliseconds
+   * (default: 500)
+   */
+  maxPause?: number
+}
+
+/**
+ * Word with its time, as read from a segment
+ */
+interface TimedWord {
+  /** Text of the word, without surrounding spaces */
+  text: string
+
+  /** Whether the word is separated from the word before it by a space */
+  spaced: boolean
+
+  startMs: number
+  endMs: number
+}
+
+/**
+ * Check if a JSON value is an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Convert a time in seconds to milliseconds
+ * @returns Milliseconds, or undefined if the time is not a number of seconds
+ */
+function toMilliseconds(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? Math.round(value * 1000)
+    : undefined
+}
+
+/**
+ * Read the timed words of a segment
+ *
+ * Whisper starts each word with the space before it; words without any
+ * leading spaces (as in other tools' output) are separated by a space unless
+ * both are full-width. A word without a time (e.g., a number in WhisperX
+ * output) runs from the end of the word before it (or the segment start) to
+ * the start of the next timed word (or the segment end).
+ *
+ * @param spacedInput Whether the words of the input carry their spaces
+ * @param previous Last word of the segments before
+ * @returns Words, and whether any of them had no time
+ */
+function readWords(
+  words: unknown[],
+  segment: { startMs: number; endMs: number },
+  spacedInput: boolean,
+  previous?: TimedWord,
+): { words: TimedWord[]; untimed: boolean } {
+  const entries = words.flatMap((word) => {
+    if (!isRecord(word)) {
+      return []
+    }
+    const raw = typeof word.word === 'string' ? word.word : word.text
+    if (typeof raw !== 'string' || !raw.trim()) {
+      return []
+    }
+    return [
+      {
+        raw,
+        startMs: toMilliseconds(word.start),
+        endMs: toMilliseconds(word.end),
+      },
+    ]
+  })
+
+  const result: TimedWord[] = []
+  let untimed = false
+  let last = previous
+  for (const [i, entry] of entries.entries()) {
+    if (entry.startMs === undefined || entry.endMs === undefined) {
+      untimed = true
+    }
+
+    const { raw } = entry
+    const text = raw.trim()
+    const startMs =
+      entry.startMs ?? result[result.length - 1]?.endMs ?? segment.startMs
+    const nextStartMs = entries
+      .slice(i + 1)
+      .find((next) => next.startMs !== undefined)?.startMs
+    const endMs = Math.max(startMs, entry.endMs ?? nextStartMs ?? segment.endMs)
+    const spaced = spacedInput
+      ? /^\s/.test(raw)
+      : !(
+          last &&
+          isWideCharacter(Array.from(last.text).pop() ?? '') &&
+          isWideCharacter(Array.from(text)[0])
+        )
+    last = { text, spaced, startMs, endMs }
+    result.push(last)
+  }
+  return { words: result, untimed }
+}
+
+/**
+ * Check that a limit is a finite number, above zero unless zero is allowed
+ * (and whole if required)
+ * @throws {Error} If the limit is invalid
+ */
+function validateLimit(
+  name: string,
+  value: number,
+  allowZero: boolean,
+  whole = false,
+): void {
+  if (
+    !Number.isFinite(value) ||
+    value < 0 ||
+    (value === 0 && !allowZero) ||
+    (whole && !Number.isInteger(value))
+  ) {
+    throw new Error(`Invalid ${name}: ${value}`)
+  }
+}
+
+/**
+ * Group timed words into cues: each word continues the last line while it
+ * fits maxChars, then starts a new line, and starts a new cue after a pause
+ * longer than maxPause or when the cue has maxLines lines
+ * @throws {Error} If a limit is invalid
+ */
+function groupWords(
+  words: TimedWord[],
+  options: WordGroupingOptions,
+): SrtCue[] {
+  const { maxChars = 42, maxLines = 2, maxPause = 500 } = options
+  validateLimit('maximum characters', maxChars, false)
+  validateLimit('maximum lines', maxLines, false, true)
+  validateLimit('maximum pause', maxPause, true)
+
+  const cues: SrtCue[] = []
+  let lines: string[] = []
+  let startMs = 0
+  let endMs = 0
+  const flush = () => {
+    if (lines.length > 0) {
+      cues.push({
+        index: cues.length + 1,
+        startMs,
+        endMs,
+        text: lines.join('\n'),
+      })
+    }
+  }
+
+  for (const word of words) {
+    if (lines.length > 0 && word.startMs - endMs <= maxPause) {
+      const line = `${lines[lines.length - 1]}${word.spaced ? ' ' : ''}${word.text}`
+      if (Array.from(line).length <= maxChars) {
+        lines[lines.length - 1] = line
+        endMs = Math.max(endMs, word.endMs)
+        continue
+      }
+      if (lines.length < maxLines) {
+        lines.push(word.text)
+        endMs = Math.max(endMs, word.endMs)
+        continue
+      }
+    }
+
+    flush()
+    lines = [word.text]
+    startMs = word.startMs
+    endMs = word.endMs
+  }
+  flush()
+  return cues
+}
+
+/**
+ * Parse Whisper transcription JSON into cues
+ *
+ * Reads the `segments` of Whisper's JSON output (`{ text, segments }`), or a
+ * plain array of segments in the same shape from other tools: each segment
+ * has `start` and `end` times in seconds, `text`, and optionally `words`
+ * with `word` (or `text`), `start` and `end`. Each segment becomes a cue,
+ * unless words are regrouped into cues of subtitle size.
+ *
+ * @param source Transcription JSON content as string
+ * @param options Regrouping of words into cues
+ * @returns Parsed cues (same shape as parseSrt) and any errors encountered
+ * @throws {Error} If a regrouping limit is invalid
+ */
+export function parseWhisper(
+  source: string,
+  options: WhisperParseOptions = {},
+): SrtParseResult {
+  const cues: SrtCue[] = []
+  const errors: string[] = []
+
+  let data: unknown
+  try {
+    data = JSON.parse(source.replace(/^\uFEFF/, ''))
+  } catch (error) {
+    errors.push(
+      `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    )
+    return { cues, errors }
+  }
+
+  const segments = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.segments)
+      ? data.segments
+      : undefined
+  if (!segments) {
+    errors.push('Missing segments array')
+    return { cues, errors }
+  }
+
+  // Whisper words carry the space before them
+  const spacedInput = segments.some(
+    (segment) =>
+      isRecord(segment) &&
+      Array.isArray(segment.words) &&
+      segment.words.some(
+        (word) =>
+          isRecord(word) && /^\s/.test(String(word.word ?? word.text ?? '')),
+      ),
+  )
+
+  const words: TimedWord[] = []
+  segments.forEach((segment, i) => {
+    const number = i + 1
+    if (!isRecord(segment)) {
+      errors.push(`Skipping segment ${number}: not an object`)
+      return
+    }
+
+    const startMs = toMilliseconds(segment.start)
+    const endMs = toMilliseconds(segment.end)
+    if (startMs === undefined || endMs === undefined) {
+      errors.push(`Invalid time in segment ${number}`)
+      return
+    }
+    if (endMs <= startMs) {
+      errors.push(`End time must be after start time in segment ${number}`)
+      return
+    }
+
+    const text = typeof segment.text === 'string' ? segment.text.trim() : ''
+    if (options.regroup) {
+      const { words: segmentWords, untimed } = readWords(
+        Array.isArray(segment.words) ? segment.words : [],
+        { startMs, endMs },
+        spacedInput,
+        words[words.length - 1],
+      )
+      if (untimed) {
+        errors.push(`Missing word timings in segment ${number}`)
+      }
+      if (segmentWords.length > 0) {
+        words.push(...segmentWords)
+        return
+      }
+      if (text) {
+        // Without word timings the segment is regrouped as one word
+        errors.push(`No word timings in segment ${number}`)
+        words.push({ text, spaced: true, startMs, endMs })
+        return
+      }
+    }
+
+    if (!text) {
+      errors.push(`Empty text in segment ${number}`)
+      return
+    }
+    cues.push({ index: cues.length + 1, startMs, endMs, text })
+  })
+
+  if (options.regroup) {
+    return { cues: groupWords(words, options.regroup), errors }
+  }
+  return { cues, errors }
+}
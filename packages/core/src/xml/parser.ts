@@ -0,0 +1,124 @@
+import { decodeHtmlEntities } from '~/srt/parser'
+
+/**
+ * Element of the parsed XML tree (names and attributes without prefixes)
+ */
+export interface XmlElement {
+  name: string
+  attributes: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+/**
+ * Find the first child element with the given name
+ */
+export function findChild(
+  element: XmlElement | undefined,
+  name: string,
+): XmlElement | undefined {
+  return element?.children.find(
+    (child): child is XmlElement =>
+      typeof child !== 'string' && child.name === name,
+  )
+}
+
+/**
+ * Parse an XML document into an element tree
+ *
+ * Namespace prefixes are dropped from element and attribute names, comments,
+ * processing instructions and DOCTYPE are skipped, and entities are decoded.
+ *
+ * @throws {Error} If tags are unbalanced or there is no root element
+ */
+export function parseXml(source: string): XmlElement {
+  const document: XmlElement = {
+    name: '#document',
+    attributes: {},
+    children: [],
+  }
+  const stack: XmlElement[] = [document]
+  const tagRegex =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+
+  let lastIndex = 0
+  let match: RegExpExecArray | null = tagRegex.exec(source)
+
+  const appendText = (text: string) => {
+    if (text) {
+      stack[stack.length - 1].children.push(text)
+    }
+  }
+
+  while (match !== null) {
+    appendText(decodeHtmlEntities(source.substring(lastIndex, match.index)))
+    lastIndex = match.index + match[0].length
+
+    const [, cdata, closingName, openingName, attributeText, selfClosing] =
+      match
+
+    if (cdata !== undefined) {
+      appendText(cdata)
+    } else if (closingName !== undefined) {
+      const element = stack.pop()
+      if (
+        !element ||
+        element.name !== localName(closingName) ||
+        stack.length === 0
+      ) {
+        throw new Error(`Unexpected closing tag </${closingName}>`)
+      }
+    } else if (openingName !== undefined) {
+      const element: XmlElement = {
+        name: localName(openingName),
+        attributes: parseAttributes(attributeText),
+        children: [],
+      }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) {
+        stack.push(element)
+      }
+    }
+
+    match = tagRegex.exec(source)
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`)
+  }
+
+  const root = document.children.find(
+    (child): child is XmlElement => typeof child !== 'string',
+  )
+  if (!root) {
+    throw new Error('No root element')
+  }
+
+  return root
+}
+
+/**
+ * Parse an attribute list into a map keyed by local name
+ */
+function parseAttributes(text: string | undefined): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  const attributeRegex = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+  let match: RegExpExecArray | null = attributeRegex.exec(text ?? '')
+  while (match !== null) {
+    attributes[localName(match[1])] = decodeHtmlEntities(
+      match[2] ?? match[3] ?? '',
+    )
+    match = attributeRegex.exec(text ?? '')
+  }
+
+  return attributes
+}
+
+/**
+ * Drop the namespace prefix of a qualified name (e.g., "tts:color" -> "color")
+ */
+function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1)
+}